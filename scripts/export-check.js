@@ -0,0 +1,365 @@
+#!/usr/bin/env node
+// Runs the exporters over the bundled sample codebooks (samples/*.json),
+// offline, against the compiled sources in dist/. Run "npm run build" first.
+const fs = require('fs');
+const path = require('path');
+
+const samplesDir = path.resolve(__dirname, '../samples');
+const distDir = path.resolve(__dirname, '../dist/library');
+
+function load(name) {
+  const file = path.join(distDir, `${name}.js`);
+  if (!fs.existsSync(file)) {
+    console.error(`[export-check] Missing ${file}, run "npm run build" first.`);
+    process.exit(1);
+  }
+  return require(file)[name];
+}
+
+function walk(node, visit) {
+  visit(node);
+  (node.children || []).forEach((child) => walk(child, visit));
+}
+
+function text(node, name) {
+  const child = (node.children || []).find((c) => c.name === name);
+  return child ? String(child.value ?? '') : '';
+}
+
+// Every DDI Lifecycle reference must point to an item of the same instance
+function checkLifecycle(ddilifecycle, book) {
+  const problems = [];
+  for (const version of ddilifecycle.versions) {
+    const instance = ddilifecycle.build(book, { agency: 'int.example', version });
+    const ids = new Set();
+    const refs = [];
+    walk(instance, (node) => {
+      const kids = node.children || [];
+      if (kids.some((c) => c.name === 'r:URN')) {
+        const id = text(node, 'r:ID');
+        if (ids.has(id)) problems.push(`${version}: duplicate ID ${id}`);
+        ids.add(id);
+        const urn = text(node, 'r:URN');
+        if (urn !== `urn:ddi:int.example:${id}:${text(node, 'r:Version')}`) problems.push(`${version}: bad URN ${urn}`);
+      } else if (kids.some((c) => c.name === 'r:TypeOfObject')) {
+        refs.push(text(node, 'r:ID'));
+      }
+    });
+    refs.filter((id) => !ids.has(id)).forEach((id) => problems.push(`${version}: unresolved reference ${id}`));
+
+    const variables = (book.children || []).filter((c) => c.name === 'dataDscr')
+      .flatMap((d) => (d.children || []).filter((c) => c.name === 'var'));
+    const exported = [...ids].filter((id) => id.startsWith('Variable-'));
+    if (exported.length !== variables.length) {
+      problems.push(`${version}: ${variables.length} variables, ${exported.length} exported`);
+    }
+  }
+  return problems;
+}
+
+// The schema.org Dataset needs a name and a description, and lists every variable
+function checkJsonLd(jsonld, book) {
+  const problems = [];
+  const dataset = JSON.parse(jsonld.serialize(book));
+  if (dataset['@type'] !== 'Dataset') problems.push('JSON-LD: not a Dataset');
+  if (!dataset.name) problems.push('JSON-LD: missing name');
+  if (!dataset.description) problems.push('JSON-LD: missing description');
+
+  const variables = (book.children || []).filter((c) => c.name === 'dataDscr')
+    .flatMap((d) => (d.children || []).filter((c) => c.name === 'var'));
+  const measured = dataset.variableMeasured || [];
+  if (measured.length !== variables.length) {
+    problems.push(`JSON-LD: ${variables.length} variables, ${measured.length} in variableMeasured`);
+  }
+  return problems;
+}
+
+// The DataCite record of a complete sample fills every mandatory property
+function checkDataCite(datacite, book) {
+  const { missing } = datacite.build(book);
+  return missing.map((m) => `DataCite: mandatory ${m.property} not filled from ${m.source}`);
+}
+
+// Every crosswalk line needs a DCTERMS term, and a path or a constant value
+function checkDublinCore(dublincore, book) {
+  const problems = [];
+  dublincore.crosswalk.forEach((entry, idx) => {
+    if (!entry.dcterms) problems.push(`Dublin Core: crosswalk line ${idx + 1} has no DCTERMS term`);
+    if (!entry.path && entry.value === undefined) problems.push(`Dublin Core: crosswalk line ${idx + 1} has no source`);
+  });
+  const record = dublincore.oaiDC(book);
+  if (!(record.children || []).some((c) => c.name === 'dc:title')) problems.push('OAI-DC: missing dc:title');
+  return problems;
+}
+
+// Every link of the HTML table of contents must land on an anchor of the page
+function checkHtml(htmlcodebook, book) {
+  const problems = [];
+  const html = htmlcodebook.render(book, { title: (name) => name, t: (key) => key, lang: 'en' });
+  const ids = new Set([...html.matchAll(/ id="([^"]+)"/g)].map((m) => m[1]));
+  [...html.matchAll(/ href="#([^"]+)"/g)].map((m) => m[1])
+    .filter((id) => !ids.has(id))
+    .forEach((id) => problems.push(`HTML: link to missing anchor #${id}`));
+  const variables = (book.children || []).filter((c) => c.name === 'dataDscr')
+    .flatMap((d) => (d.children || []).filter((c) => c.name === 'var'));
+  const articles = (html.match(/<article class="variable"/g) || []).length;
+  if (articles !== variables.length) problems.push(`HTML: ${variables.length} variables, ${articles} rendered`);
+
+  // the print layout has a page number placeholder for every contents line
+  const paged = htmlcodebook.render(book, { title: (name) => name, t: (key) => key, lang: 'en', print: true });
+  const links = (paged.match(/class="toc-line"/g) || []).length;
+  const pages = (paged.match(/class="toc-page" data-for=/g) || []).length;
+  if (links !== pages) problems.push(`PDF: ${links} contents lines, ${pages} page references`);
+  return problems;
+}
+
+// an unedited spreadsheet must merge back without any change
+function checkSpreadsheet(spreadsheet, variables, book) {
+  const problems = [];
+  const csv = spreadsheet.toCSV(spreadsheet.toRows(variables.all(book)));
+  const parsed = spreadsheet.fromRows(spreadsheet.parseCSV(csv));
+  parsed.problems.forEach((p) => problems.push(`Spreadsheet: ${p}`));
+  const changes = variables.compare(book, parsed.variables);
+  changes.added.forEach((name) => problems.push(`Spreadsheet: round trip adds ${name}`));
+  changes.changed.forEach((c) => problems.push(`Spreadsheet: round trip changes ${c.name} (${c.fields.join(', ')})`));
+  return problems;
+}
+
+// every labelled variable has a statement in every setup file
+function checkSetupFiles(setupfiles, variables, book) {
+  const problems = [];
+  const labelled = variables.all(book).filter((v) => v.label);
+  setupfiles.languages.forEach((language) => {
+    const { script } = setupfiles.generate(book, language);
+    labelled.filter((v) => !script.includes(v.name))
+      .forEach((v) => problems.push(`Setup (${language}): variable ${v.name} is not labelled`));
+  });
+  return problems;
+}
+
+// a project file gives back the codebook it was saved with
+function checkProject(project, book) {
+  const ui = { expanded: ['root'], selectedPath: [], labelMode: 'both' };
+  const file = project.create({ codebook: book, source: null, xmlPath: null, ui, notes: '' });
+  const reopened = project.decode(project.encode(file));
+  return JSON.stringify(reopened.codebook) === JSON.stringify(book) ? [] : ['Project: the codebook changes on reopening'];
+}
+
+const schemasDir = path.resolve(__dirname, '../src/library/schemas');
+
+// the bundled schema of a DDI Codebook version, or the problem reading it
+function readSchema(xsd, dir) {
+  if (!fs.existsSync(path.join(dir, 'codebook.xsd'))) return { problem: `no schema in ${path.relative(process.cwd(), dir)}` };
+  try {
+    return {
+      schema: xsd.compile('codebook.xsd', (location) => {
+        const file = path.join(dir, location);
+        return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : null;
+      }),
+    };
+  } catch (e) {
+    return { problem: `the schema in ${path.relative(process.cwd(), dir)} does not compile: ${e.message}` };
+  }
+}
+
+// the saved codebook parses back to the same elements, and is valid against the
+// schema of its version (src/library/schemas/<version>/codebook.xsd)
+function checkCodebookXml(ddixml, xmlparser, xsd, book) {
+  const xml = ddixml.serialize(book);
+  const { root, error } = xmlparser.parse(xml);
+  if (!root) return [`Codebook XML: ${error.message} at ${error.line}:${error.column}`];
+  const count = (node) => 1 + (node.children || []).reduce((sum, child) => sum + count(child), 0);
+  if (count(root) !== count(book)) return [`Codebook XML: ${count(book)} elements written, ${count(root)} read back`];
+
+  const version = String((book.attributes || {}).version || '2.5');
+  const { schema, problem } = readSchema(xsd, path.join(schemasDir, version));
+  if (!schema) return [`Codebook XML ${version}: ${problem}`];
+  return xsd.validate(schema, xml).map((p) => `Codebook XML ${version}: ${p.code} at ${p.line}:${p.column} ${JSON.stringify(p.vars)}`);
+}
+
+// The validator itself, on a small schema in the shape of the DDI one
+// (scripts/fixtures/xsd): the valid document passes, the invalid one gives
+// exactly the expected problems
+const FIXTURE_PROBLEMS = [
+  '2 invalid-attribute []', '2 unknown-attribute []',
+  '3 invalid-attribute [0]', '3 invalid-attribute [0]', '3 unexpected-element [0,0]', '3 invalid-value [0,2]',
+  '4 text-not-allowed [1]', '4 missing-attribute [1,0]', '4 invalid-attribute [1,0]', '4 unknown-idref [1,0]',
+  '4 invalid-value [1,0,0,0]', '4 unexpected-element [1,0,1]', '4 duplicate-id [1,1]',
+  '5 unexpected-element [2]',
+];
+
+function checkValidator(xsd) {
+  const dir = path.resolve(__dirname, 'fixtures/xsd');
+  const { schema, problem } = readSchema(xsd, dir);
+  if (!schema) return [`Validator: ${problem}`];
+  const found = (file) => xsd.validate(schema, fs.readFileSync(path.join(dir, file), 'utf8'))
+    .map((p) => `${p.line} ${p.code} ${JSON.stringify(p.path)}`);
+  const problems = found('valid.xml').map((p) => `Validator: valid.xml gives ${p}`);
+  const invalid = found('invalid.xml');
+  if (invalid.join('|') !== FIXTURE_PROBLEMS.join('|')) {
+    problems.push(`Validator: invalid.xml gives ${invalid.join(', ') || 'no problems'}, expected ${FIXTURE_PROBLEMS.join(', ')}`);
+  }
+  return problems;
+}
+
+// Every DDI Codebook version has its schema bundled, and the schema rejects a
+// known invalid codebook (samples/invalid/codebook.json)
+function checkSchemas(ddixml, xsd, versions) {
+  const invalid = JSON.parse(fs.readFileSync(path.join(samplesDir, 'invalid/codebook.json'), 'utf8'));
+  const problems = [];
+  for (const version of versions) {
+    const { schema, problem } = readSchema(xsd, path.join(schemasDir, version));
+    if (!schema) {
+      problems.push(`Schema ${version}: ${problem}`);
+      continue;
+    }
+    const book = { ...invalid, attributes: { ...invalid.attributes, version } };
+    if (!xsd.validate(schema, ddixml.serialize(book)).length) {
+      problems.push(`Schema ${version}: the invalid sample passes validation`);
+    }
+  }
+  return problems;
+}
+
+// 2.6 content converted to 2.5 leaves nothing 2.6 only, dropped or mapped to notes.
+// With both schemas bundled, every global element of 2.6 that 2.5 lacks is known
+// to the conversion, and the converted codebook is valid 2.5
+function checkVersions(ddiversions, ddixml, xsd) {
+  const node = (name, children = [], attributes) => ({ name, ...(attributes ? { attributes } : {}), children });
+  const leaf = (name) => ({ name, value: name });
+  const book = node('codeBook', [
+    node('stdyDscr', [
+      node('citation', [node('titlStmt', [leaf('titl')])]),
+      node('stdyInfo', [
+        { name: 'abstract', attributes: { contentType: 'abstract' }, value: 'abstract' },
+        node('qualityStatement', [
+          node('standardsCompliance', [node('standard', [leaf('standardName')]), leaf('complianceDescription')]),
+          leaf('otherQualityStatement'),
+        ]),
+      ]),
+      node('studyDevelopment', [node('developmentActivity', [leaf('participant'), leaf('resource'), leaf('outcome')])]),
+    ]),
+    node('fileDscr', [
+      node('fileTxt', [node('dataFingerprint', [leaf('digitalFingerprintValue'), leaf('algorithmSpecification'), leaf('algorithmVersion')])]),
+    ]),
+    node('dataDscr', [node('var', [leaf('labl')], { name: 'v1', representationType: 'text', otherRepresentationType: 'x' })]),
+  ], { version: '2.6' });
+  const only = new Set([
+    'qualityStatement', 'standardsCompliance', 'standard', 'standardName', 'complianceDescription', 'otherQualityStatement',
+    'studyDevelopment', 'developmentActivity', 'participant', 'resource', 'outcome',
+    'dataFingerprint', 'digitalFingerprintValue', 'algorithmSpecification', 'algorithmVersion',
+  ]);
+  const onlyAttributes = ['contentType', 'representationType', 'otherRepresentationType'];
+
+  const problems = [];
+  for (const action of ['drop', 'map']) {
+    const converted = ddiversions.convert(book, '2.5', action, null);
+    walk(converted, (n) => {
+      if (only.has(n.name)) problems.push(`Versions: <${n.name}> reaches a 2.5 export (${action})`);
+      for (const key of Object.keys(n.attributes || {})) {
+        if (onlyAttributes.includes(key)) problems.push(`Versions: ${n.name}@${key} reaches a 2.5 export (${action})`);
+      }
+    });
+  }
+
+  const schemas = {};
+  for (const version of ['2.5', '2.6']) schemas[version] = readSchema(xsd, path.join(schemasDir, version)).schema;
+  if (!schemas['2.5'] || !schemas['2.6']) return problems;
+  const local = (name) => name.replace(/^\{[^}]*\}/, '');
+  const older = new Set(schemas['2.5'].elements.map(local));
+  for (const name of schemas['2.6'].elements.map(local).filter((n) => !older.has(n))) {
+    if (!ddiversions.incompatibilities(node('codeBook', [node(name)]), '2.5', null).length) {
+      problems.push(`Versions: <${name}> is in the 2.6 schema only, the 2.5 export keeps it`);
+    }
+  }
+  const xml = ddixml.serialize(ddiversions.convert(book, '2.5', 'drop', null));
+  xsd.validate(schemas['2.5'], xml).forEach((p) => problems.push(`Versions: 2.5 export ${p.code} ${JSON.stringify(p.vars)}`));
+  return problems;
+}
+
+// Missing translations: an element with its parallel one (titl and parTitl) is one
+// group, and an element that can have no translation is not reported
+function checkTranslations(translations) {
+  const elements = {
+    titl: { repeatable: false },
+    parTitl: { repeatable: true },
+    abstract: { repeatable: true },
+    distDate: { repeatable: false },
+  };
+  const lang = (name, code, value) => ({ name, attributes: { xmlang: code }, value });
+  const book = {
+    name: 'codeBook',
+    children: [{
+      name: 'stdyDscr',
+      children: [
+        { name: 'titlStmt', children: [lang('titl', 'ro', 'Titlu'), lang('parTitl', 'en', 'Title')] },
+        lang('abstract', 'ro', 'Rezumat'),
+        lang('abstract', 'en', 'Abstract'),
+        lang('distDate', 'ro', '2020'),
+      ],
+    }],
+  };
+  const listed = (code) => translations.missing(book, code, elements).map((m) => `${m.element}>${m.target}`).join(', ');
+  const problems = [];
+  for (const [code, expected] of [['ro', ''], ['en', ''], ['fr', 'abstract>abstract, titl>parTitl']]) {
+    if (listed(code) !== expected) problems.push(`Translations ${code}: "${listed(code)}" listed, "${expected}" expected`);
+  }
+  return problems;
+}
+
+function main() {
+  const ddilifecycle = load('ddilifecycle');
+  const jsonld = load('jsonld');
+  const datacite = load('datacite');
+  const dublincore = load('dublincore');
+  const htmlcodebook = load('htmlcodebook');
+  const spreadsheet = load('spreadsheet');
+  const variables = load('variables');
+  const setupfiles = load('setupfiles');
+  const project = load('project');
+  const ddixml = load('ddixml');
+  const xmlparser = load('xmlparser');
+  const xsd = load('xsd');
+  const files = fs.readdirSync(samplesDir).filter((f) => f.endsWith('.json'));
+  let failed = 0;
+
+  files.forEach((file) => {
+    const book = JSON.parse(fs.readFileSync(path.join(samplesDir, file), 'utf8'));
+    const problems = [
+      ...checkLifecycle(ddilifecycle, book),
+      ...checkJsonLd(jsonld, book),
+      ...checkDataCite(datacite, book),
+      ...checkDublinCore(dublincore, book),
+      ...checkHtml(htmlcodebook, book),
+      ...checkSpreadsheet(spreadsheet, variables, book),
+      ...checkSetupFiles(setupfiles, variables, book),
+      ...checkProject(project, book),
+      ...checkCodebookXml(ddixml, xmlparser, xsd, book),
+    ];
+    if (problems.length) {
+      failed += problems.length;
+      console.log(`\n[${file}]`);
+      problems.forEach((p) => console.log(`   - ${p}`));
+    }
+  });
+
+  const general = [
+    ...checkValidator(xsd),
+    ...checkSchemas(ddixml, xsd, load('ddiversions').versions),
+    ...checkVersions(load('ddiversions'), ddixml, xsd),
+    ...checkTranslations(load('translations')),
+  ];
+  if (general.length) {
+    failed += general.length;
+    console.log('\n[general]');
+    general.forEach((p) => console.log(`   - ${p}`));
+  }
+
+  if (failed) {
+    console.error(`\n[export-check] Found ${failed} problem(s) across ${files.length} sample(s).`);
+    process.exit(1);
+  }
+  console.log(`[export-check] All exports are consistent for ${files.length} sample(s).`);
+}
+
+main();
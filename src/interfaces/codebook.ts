@@ -0,0 +1,47 @@
+
+import type { XmlElement } from './xmlparser';
+
+// Normalized codebook node, as produced by normalize_codebook() in utils.R
+// (values and attributes may still arrive as numbers or arrays from jsonlite)
+export type NormNode = {
+    name: string;
+    value?: string | null;
+    attributes?: Record<string, string> | null;
+    children?: NormNode[];
+};
+
+export interface SerializeOptions {
+    indent?: string;
+    declaration?: boolean;
+    // add the DDI Codebook namespace and version when the root lacks them
+    rootDefaults?: boolean;
+}
+
+export interface DDIXml {
+    attributeName: (key: string) => string;
+    // tree key of an XML attribute name, the inverse of attributeName()
+    attributeKey: (name: string) => string;
+    elementName: (name: string) => string;
+    textOf: (value: unknown) => string;
+    escapeText: (text: string) => string;
+    escapeAttribute: (text: string) => string;
+    serialize: (root: NormNode, options?: SerializeOptions) => string;
+    // normalized node of a parsed element, the inverse of serialize()
+    fromXml: (element: XmlElement) => NormNode;
+}
+
+export interface CodebookUtils {
+    children: (node: NormNode | undefined, name?: string) => NormNode[];
+    child: (node: NormNode | undefined, ...names: string[]) => NormNode | undefined;
+    all: (node: NormNode | undefined, ...names: string[]) => NormNode[];
+    text: (node: NormNode | undefined) => string;
+    texts: (node: NormNode | undefined, ...names: string[]) => string[];
+    attr: (node: NormNode | undefined, key: string) => string | undefined;
+    lang: (node: NormNode | undefined) => string | undefined;
+    variables: (root: NormNode | undefined) => NormNode[];
+    walk: (root: NormNode, visit: (node: NormNode, path: number[], parent: NormNode | null) => void) => void;
+    clone: (node: NormNode) => NormNode;
+    // index where a child goes, before the first sibling that comes later in the given order
+    insertionIndex: (parent: NormNode, name: string, order: string[]) => number;
+    insert: (parent: NormNode, child: NormNode, order: string[]) => number;
+}
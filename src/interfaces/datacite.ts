@@ -0,0 +1,22 @@
+
+import type { NormNode } from './codebook';
+
+// A mandatory DataCite property, and where it is taken from in the codebook
+export interface DataCiteProperty {
+    property: string;
+    source: string;
+}
+
+export interface DataCiteResult {
+    record: NormNode;
+    // mandatory properties that could not be filled from the codebook
+    missing: DataCiteProperty[];
+}
+
+export interface DataCite {
+    schemaVersion: string;
+    mandatory: DataCiteProperty[];
+    doi: (identifier: string) => string | null;
+    build: (root: NormNode) => DataCiteResult;
+    serialize: (root: NormNode) => { xml: string; missing: DataCiteProperty[] };
+}
@@ -0,0 +1,44 @@
+
+import type { NormNode } from './codebook';
+
+// Accessors over the DDIC element dictionary (DDIwR), as received from R
+// through jsonlite: { <element>: { title, children, attributes, ... } }
+
+export type DDICElements = Record<string, unknown> | null | undefined;
+
+// A child element the DDIC allows under a given node
+export interface DDICChildOption {
+    name: string;
+    title?: string;
+    // occurrences already under the node
+    count: number;
+    // maximum occurrences, Infinity when repeatable
+    max: number;
+    available: boolean;
+}
+
+// An attribute declared for an element
+export interface DDICAttribute {
+    name: string;
+    required: boolean;
+    type?: string;
+    // enumerated values, empty when free
+    values: string[];
+    default?: string;
+}
+
+export interface DDIC {
+    baseName: (name: string) => string;
+    entry: (elements: DDICElements, name: string) => Record<string, unknown> | undefined;
+    title: (elements: DDICElements, name: string) => string | undefined;
+    childrenOf: (elements: DDICElements, name: string) => string[];
+    allowsChild: (elements: DDICElements, parent: string, child: string) => boolean;
+    repeatable: (elements: DDICElements, name: string) => boolean;
+    required: (elements: DDICElements, name: string) => boolean;
+    // declared type of the element text (e.g. "xs:string"), and its enumerated values
+    valueType: (elements: DDICElements, name: string) => string | undefined;
+    values: (elements: DDICElements, name: string) => string[];
+    attributes: (elements: DDICElements, name: string) => DDICAttribute[];
+    // the allowed children of a node, in schema order
+    childOptions: (elements: DDICElements, node: NormNode) => DDICChildOption[];
+}
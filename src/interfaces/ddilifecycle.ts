@@ -0,0 +1,18 @@
+
+import type { NormNode } from './codebook';
+
+export type DDILVersion = '3.2' | '3.3';
+
+export interface LifecycleOptions {
+    agency: string;
+    version?: DDILVersion;
+    // version of every generated item, e.g. "1.0.0"
+    itemVersion?: string;
+}
+
+export interface DDILifecycle {
+    versions: DDILVersion[];
+    isValidAgency: (agency: string) => boolean;
+    build: (root: NormNode, options: LifecycleOptions) => NormNode;
+    serialize: (root: NormNode, options: LifecycleOptions) => string;
+}
@@ -0,0 +1,30 @@
+
+import type { NormNode } from './codebook';
+import type { DDICElements } from './ddic';
+
+export type DDIVersion = '2.5' | '2.6';
+
+export interface DDIVersionSpec {
+    namespace: string;
+    schemaLocation: string;
+}
+
+export interface VersionIssue {
+    path: number[];
+    namePath: string[];
+    element: string;
+    attribute?: string;
+    // can be kept as a <notes> element under the same parent
+    mappable: boolean;
+}
+
+export type IssueAction = 'drop' | 'map';
+
+export interface DDIVersions {
+    versions: DDIVersion[];
+    spec: (version: DDIVersion) => DDIVersionSpec;
+    rootAttributes: (version: DDIVersion) => Record<string, string>;
+    detect: (root: NormNode) => DDIVersion | null;
+    incompatibilities: (root: NormNode, version: DDIVersion, elements: DDICElements) => VersionIssue[];
+    convert: (root: NormNode, version: DDIVersion, action: IssueAction, elements: DDICElements) => NormNode;
+}
@@ -0,0 +1,43 @@
+
+import type { NormNode } from './codebook';
+
+export type DCElement =
+    'title' | 'creator' | 'subject' | 'description' | 'publisher' | 'contributor' | 'date' | 'type' |
+    'format' | 'identifier' | 'source' | 'language' | 'relation' | 'coverage' | 'rights';
+
+// One line of the DDI to Dublin Core crosswalk
+export interface CrosswalkEntry {
+    // simple DC element for OAI-DC, null when the term only exists in DCTERMS
+    dc: DCElement | null;
+    // DCTERMS property for the qualified RDF/XML variant
+    dcterms: string;
+    // slash separated element path from the codeBook root
+    path?: string;
+    // take this attribute instead of the text (falls back to the text when absent)
+    attribute?: string;
+    // keep only the nodes having these attribute values
+    where?: Record<string, string>;
+    // constant value, instead of a path
+    value?: string;
+    // the DCTERMS value is a URI, written as rdf:resource
+    resource?: boolean;
+}
+
+export interface DCValue {
+    entry: CrosswalkEntry;
+    value: string;
+    lang?: string;
+}
+
+export interface DublinCoreOptions {
+    crosswalk?: CrosswalkEntry[];
+}
+
+export interface DublinCore {
+    crosswalk: CrosswalkEntry[];
+    values: (root: NormNode, options?: DublinCoreOptions) => DCValue[];
+    oaiDC: (root: NormNode, options?: DublinCoreOptions) => NormNode;
+    rdf: (root: NormNode, options?: DublinCoreOptions) => NormNode;
+    serializeOaiDC: (root: NormNode, options?: DublinCoreOptions) => string;
+    serializeRdf: (root: NormNode, options?: DublinCoreOptions) => string;
+}
@@ -0,0 +1,29 @@
+
+export type FieldKind =
+    | 'text'
+    | 'integer'
+    | 'signed-integer'
+    | 'decimal'
+    | 'date'
+    | 'choice'
+    | 'toggle';
+
+export interface FieldOptions {
+    value: string;
+    // DDIC datatype of the value, e.g. "xs:integer" or "dateSimpleType"
+    type?: string;
+    // allowed values, from a DDIC enumeration
+    values?: string[];
+    // id of the focusable control, for a <label for>
+    id?: string;
+    // a textarea for long text, when the value has no narrower type
+    multiline?: boolean;
+    required?: boolean;
+    // called with the new text each time the user changes it
+    onChange: (value: string) => void;
+}
+
+export interface Fields {
+    kind: (type: string | undefined, values: string[], value: string) => FieldKind;
+    create: (options: FieldOptions) => HTMLElement;
+}
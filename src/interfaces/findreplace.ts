@@ -0,0 +1,42 @@
+
+import type { NormNode } from './codebook';
+import type { TreeEdit, TreePath } from './treehistory';
+import type { TextRange } from './treesearch';
+
+// Where the text is looked for: element values, attribute values, or one attribute by its tree key
+export type ReplaceTarget = 'all' | 'values' | 'attributes' | { attribute: string };
+
+export interface ReplaceOptions {
+    find: string;
+    replacement: string;
+    // the find text is a regular expression, the replacement may use $1, $2...
+    regex?: boolean;
+    matchCase?: boolean;
+    wholeWord?: boolean;
+    // only the node at this path and its descendants, the whole tree when absent
+    scope?: TreePath;
+    // only the elements of this name, prefixes ignored
+    element?: string;
+    target?: ReplaceTarget;
+}
+
+// A value or attribute that changes, all its occurrences at once
+export interface Replacement {
+    path: TreePath;
+    element: string;
+    // tree key of the attribute, absent for the element value
+    attribute?: string;
+    before: string;
+    after: string;
+    // the matched parts of before
+    ranges: TextRange[];
+}
+
+export interface FindReplace {
+    // why the find text cannot be used, null when it can
+    check: (options: ReplaceOptions) => string | null;
+    // every proposed replacement, in document order; none for an invalid or empty find text
+    find: (root: NormNode, options: ReplaceOptions) => Replacement[];
+    // the replacements as one history step, null when there are none
+    edit: (replacements: Replacement[]) => TreeEdit | null;
+}
@@ -0,0 +1,18 @@
+
+import type { NormNode } from './codebook';
+
+export interface HtmlCodebookOptions {
+    // heading for a DDI element, in the UI language
+    title: (name: string) => string;
+    // fixed texts of the page (table of contents, column headers...)
+    t: (key: string, vars?: Record<string, string>) => string;
+    // language of the page, for the <html lang> attribute
+    lang?: string;
+    // paged layout, with page number placeholders in the table of contents
+    print?: boolean;
+}
+
+export interface HtmlCodebook {
+    anchor: (variable: NormNode, used?: Set<string>) => string;
+    render: (root: NormNode, options: HtmlCodebookOptions) => string;
+}
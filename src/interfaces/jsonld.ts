@@ -0,0 +1,14 @@
+
+import type { NormNode } from './codebook';
+
+export type JsonLdObject = { [key: string]: unknown };
+
+export interface JsonLdOptions {
+    // preferred xml:lang for single valued properties (name, description)
+    lang?: string;
+}
+
+export interface JsonLd {
+    build: (root: NormNode, options?: JsonLdOptions) => JsonLdObject;
+    serialize: (root: NormNode, options?: JsonLdOptions) => string;
+}
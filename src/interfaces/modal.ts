@@ -0,0 +1,38 @@
+
+export interface ModalButton {
+    label: string;
+    primary?: boolean;
+    // return false to keep the modal open
+    onClick?: () => boolean | void;
+}
+
+export interface ModalOptions {
+    title: string;
+    message?: string;
+    body?: HTMLElement;
+    buttons: ModalButton[];
+    wide?: boolean;
+    onClose?: () => void;
+}
+
+export interface PromptOptions {
+    title: string;
+    message?: string;
+    value?: string;
+    placeholder?: string;
+    multiline?: boolean;
+}
+
+export interface PreviewOptions {
+    title: string;
+    message?: string;
+    text: string;
+    saveLabel?: string;
+}
+
+export interface Modal {
+    open: (options: ModalOptions) => { close: () => void; element: HTMLElement };
+    prompt: (options: PromptOptions) => Promise<string | null>;
+    // read-only view of a generated text, resolves true when the user chose to save it
+    preview: (options: PreviewOptions) => Promise<boolean>;
+}
@@ -0,0 +1,12 @@
+
+export interface PdfCodebookOptions {
+    // text of the running header, defaults to the <title> of the page
+    headerTitle?: string;
+}
+
+export interface PdfCodebook {
+    // pages of the print layout, in CSS pixels (96 per inch)
+    pageWidth: number;
+    pageHeight: number;
+    print: (html: string, options?: PdfCodebookOptions) => Promise<Buffer>;
+}
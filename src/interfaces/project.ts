@@ -0,0 +1,44 @@
+
+import type { NormNode } from './codebook';
+
+export type TreeLabelMode = 'name' | 'title' | 'both';
+
+// File the codebook was loaded from, to find it again and notice changes
+export interface ProjectSource {
+    path: string;
+    size: number;
+    sha256: string;
+    // a dataset (as opposed to a DDI XML file), can be written back with the metadata
+    dataset: boolean;
+}
+
+export interface ProjectUiState {
+    // ids of the expanded tree nodes ("root", "root.2", "root.2.0" ...)
+    expanded: string[];
+    selectedPath: number[];
+    labelMode: TreeLabelMode;
+}
+
+export interface ProjectFile {
+    format: string;
+    version: number;
+    // ISO date and time of the last save
+    saved: string;
+    codebook: NormNode;
+    source: ProjectSource | null;
+    // DDI XML file the codebook is saved to
+    xmlPath: string | null;
+    ui: ProjectUiState;
+    notes: string;
+}
+
+// Why a file does not decode, translated as "messages.project.<kind>"
+export type ProjectProblemKind = 'notproject' | 'version' | 'nocodebook';
+
+export interface Project {
+    extension: string;
+    create: (content: Omit<ProjectFile, 'format' | 'version' | 'saved'>) => ProjectFile;
+    encode: (file: ProjectFile) => Uint8Array;
+    // throws a ProjectDecodeError when the data is not a project it can read
+    decode: (data: Uint8Array) => ProjectFile;
+}
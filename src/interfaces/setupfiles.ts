@@ -0,0 +1,23 @@
+
+import type { NormNode } from './codebook';
+
+export type SetupLanguage = 'spss' | 'stata' | 'sas' | 'r';
+
+export interface SetupOptions {
+    // language of the labels
+    lang?: string;
+    // name of the data set the script applies to (SAS and R)
+    dataset?: string;
+}
+
+export interface SetupScript {
+    script: string;
+    // metadata the target language cannot hold, also written as comments
+    warnings: string[];
+}
+
+export interface SetupFiles {
+    languages: SetupLanguage[];
+    extension: (language: SetupLanguage) => string;
+    generate: (root: NormNode, language: SetupLanguage, options?: SetupOptions) => SetupScript;
+}
@@ -0,0 +1,30 @@
+
+import type { VariableMetadata, VariableUpdate } from './variables';
+
+export type SpreadsheetProblemKind =
+    | 'empty'
+    | 'no-name-column'
+    | 'no-name'
+    | 'repeated'
+    | 'labels'
+    | 'range';
+
+// A row or cell that could not be read, translated as "messages.import.sheet.problem.<kind>"
+export interface SpreadsheetProblem {
+    kind: SpreadsheetProblemKind;
+    // row: the spreadsheet row number, name, part or range: the text read
+    vars: Record<string, string>;
+}
+
+export interface SpreadsheetImport {
+    variables: VariableUpdate[];
+    problems: SpreadsheetProblem[];
+}
+
+export interface Spreadsheet {
+    columns: string[];
+    toRows: (variables: VariableMetadata[]) => string[][];
+    fromRows: (rows: unknown[][]) => SpreadsheetImport;
+    toCSV: (rows: string[][]) => string;
+    parseCSV: (text: string) => string[][];
+}
@@ -0,0 +1,35 @@
+import type { NormNode } from './codebook';
+import type { DDICElements } from './ddic';
+import type { TreePath } from './treehistory';
+
+// Language variants of one element: siblings of the same name that differ
+// only by xml:lang, the n-th of each language going together; the variants
+// of a parallel element (parTitl) are in the group of the one they translate
+export interface TranslationGroup {
+    name: string;
+    // child index of the variant in each language
+    variants: Record<string, number>;
+}
+
+export interface MissingTranslation {
+    // the first variant of the group
+    path: TreePath;
+    element: string;
+    // languages the element has
+    languages: string[];
+    // the element the translation is added as, the parallel one when the element is not repeatable
+    target: string;
+}
+
+export interface Translations {
+    // languages used by xml:lang in the tree, the most used first
+    languages: (root: NormNode) => string[];
+    groups: (parent: NormNode) => TranslationGroup[];
+    // only the translations that can be added, as the element itself or as its parallel one
+    // (parTitl for titl) when the DDIC allows it once
+    missing: (root: NormNode, lang: string, elements: DDICElements) => MissingTranslation[];
+    // the element a new translation of an element is added as, null when it cannot have one
+    target: (name: string, elements: DDICElements) => string | null;
+    // an empty copy of a variant in another language, without its ID
+    variant: (node: NormNode, lang: string) => NormNode;
+}
@@ -0,0 +1,29 @@
+import type { NormNode } from './codebook';
+import type { DDICElements } from './ddic';
+import type { TreePath } from './treehistory';
+import type { ValidationProblem } from './validation';
+
+// What goes on the system clipboard for a copied subtree
+export interface ClipboardContent {
+    // DDI XML fragment, as plain text
+    xml: string;
+    // the normalized node
+    json: string;
+}
+
+export type DecodedSubtree = { node: NormNode } | { error: 'empty' | 'json' | 'xml'; message: string };
+
+// Where a pasted subtree goes, or the DDIC rule it breaks there
+export type PastePlacement = { path: TreePath } | { problem: ValidationProblem };
+
+export interface TreeClipboard {
+    // media type of the JSON on the clipboard
+    jsonType: string;
+    encode: (node: NormNode) => ClipboardContent;
+    // a subtree from clipboard text, either the JSON or an XML fragment
+    decode: (text: string) => DecodedSubtree;
+    // under the selected node when allowed there, else after it under its parent
+    place: (root: NormNode, selection: TreePath, node: NormNode, elements: DDICElements) => PastePlacement;
+    // a copy of the pasted subtree whose ID attributes already in the tree are renumbered (V1 -> V1_2)
+    uniqueIds: (root: NormNode, node: NormNode) => NormNode;
+}
@@ -0,0 +1,52 @@
+
+import type { NormNode } from './codebook';
+
+// Child indexes from the root, [] is the root itself
+export type TreePath = number[];
+
+// One change of the codebook tree, with what is needed to revert it
+export type TreeEdit =
+    | { type: 'value'; path: TreePath; before: string | null | undefined; after: string | null | undefined }
+    // an undefined value means the attribute is absent
+    | { type: 'attribute'; path: TreePath; key: string; before: string | undefined; after: string | undefined }
+    // path of the inserted / removed child, including its index
+    | { type: 'insert'; path: TreePath; node: NormNode }
+    | { type: 'remove'; path: TreePath; node: NormNode }
+    // two children of the node at path
+    | { type: 'swap'; path: TreePath; a: number; b: number }
+    | { type: 'replace'; path: TreePath; before: NormNode; after: NormNode }
+    // several edits undone and redone as a single step
+    | { type: 'group'; edits: TreeEdit[] };
+
+export interface HistoryStep {
+    edit: TreeEdit;
+    // selected node before and after the edit
+    selectionBefore: TreePath;
+    selectionAfter: TreePath;
+}
+
+export interface HistoryResult {
+    // the root changes when it is replaced as a whole
+    root: NormNode;
+    selection: TreePath;
+}
+
+export interface TreeHistory {
+    // number of steps kept, the oldest ones are dropped
+    limit: number;
+    apply: (root: NormNode, edit: TreeEdit) => NormNode;
+    invert: (edit: TreeEdit) => TreeEdit;
+    execute: (root: NormNode, edit: TreeEdit, selection: { before: TreePath; after: TreePath }) => NormNode;
+    undo: (root: NormNode) => HistoryResult | null;
+    redo: (root: NormNode) => HistoryResult | null;
+    canUndo: () => boolean;
+    canRedo: () => boolean;
+    // clears the history, the tree as it is counts as saved
+    clear: () => void;
+    // the state of the tree, to mark it saved once its copy is written
+    position: () => number;
+    // the current state when no position is given
+    markSaved: (position?: number) => void;
+    // the tree differs from the last saved (or loaded) one
+    isDirty: () => boolean;
+}
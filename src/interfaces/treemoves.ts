@@ -0,0 +1,29 @@
+import type { NormNode } from './codebook';
+import type { DDICElements } from './ddic';
+import type { TreeEdit, TreePath } from './treehistory';
+import type { ValidationProblem } from './validation';
+
+// Where a moved node goes, as it is dropped in the tree
+export type DropPosition = 'before' | 'after' | 'inside';
+
+// A child position in the tree as it is before the move
+export interface DropTarget {
+    parent: TreePath;
+    index: number;
+}
+
+export interface TreeMove {
+    // one history step
+    edit: TreeEdit;
+    // the node after the move
+    path: TreePath;
+}
+
+export interface TreeMoves {
+    // the child position of a drop next to or inside a node, null when there is none
+    target: (root: NormNode, from: TreePath, over: TreePath, position: DropPosition, elements: DDICElements) => DropTarget | null;
+    // the DDIC rule a move breaks, null when it is allowed
+    check: (root: NormNode, from: TreePath, target: DropTarget, elements: DDICElements) => ValidationProblem | null;
+    // null when the node stays where it is
+    move: (root: NormNode, from: TreePath, target: DropTarget) => TreeMove | null;
+}
@@ -0,0 +1,34 @@
+
+import type { NormNode } from './codebook';
+import type { TreePath } from './treehistory';
+
+// What part of a node the search text was found in
+export type SearchField = 'name' | 'title' | 'value' | 'attribute';
+
+// Characters [start, end) of a text
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+// A piece of a value or attribute shown next to a node found by its content
+export interface SearchExcerpt {
+    text: string;
+    ranges: TextRange[];
+}
+
+export interface SearchHit {
+    path: TreePath;
+    fields: SearchField[];
+    // the first value or attribute that matched, when the name and title did not
+    excerpt?: SearchExcerpt;
+}
+
+export interface TreeSearch {
+    // the nodes matching the query, in document order; case and accents are ignored
+    find: (root: NormNode, query: string, titleOf: (name: string) => string | undefined) => SearchHit[];
+    // where the query occurs in a text
+    ranges: (text: string, query: string) => TextRange[];
+    // the part of a text around its first match, at most about width characters
+    excerpt: (text: string, query: string, width?: number) => SearchExcerpt | null;
+}
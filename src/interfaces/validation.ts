@@ -0,0 +1,29 @@
+
+import type { NormNode } from './codebook';
+import type { DDICElements } from './ddic';
+import type { TreePath } from './treehistory';
+
+export type ValidationKind =
+    | 'unknown-element'
+    | 'not-allowed'
+    | 'too-many'
+    | 'missing-element'
+    | 'missing-attribute'
+    | 'invalid-value'
+    | 'invalid-attribute';
+
+export interface ValidationProblem {
+    kind: ValidationKind;
+    severity: 'error' | 'warning';
+    // the offending node, or the parent of a missing element
+    path: TreePath;
+    element: string;
+    // message parameters: child, attribute, value, expected, count
+    vars: Record<string, string>;
+}
+
+export interface Validation {
+    // whether a text is acceptable for a declared type, true for unknown types
+    checkValue: (type: string | undefined, value: string) => boolean;
+    check: (root: NormNode, elements: DDICElements) => ValidationProblem[];
+}
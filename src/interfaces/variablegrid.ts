@@ -0,0 +1,42 @@
+
+import type { VariableColumn, VariableRow } from './variabletable';
+
+export interface GridColumn {
+    key: VariableColumn;
+    label: string;
+    // pixels
+    width: number;
+    // the values the column takes, a free text when empty
+    values?: string[];
+    // edited one row at a time, even with several rows selected (e.g. names, which must differ)
+    single?: boolean;
+}
+
+// What the user was looking at, kept across remounts of the grid
+export interface GridView {
+    scrollTop: number;
+    selected: number[];
+    active: { row: number; column: number };
+}
+
+export interface GridOptions {
+    rows: VariableRow[];
+    columns: GridColumn[];
+    view?: GridView;
+    // the rows an edit applies to: the selected ones when the edited row is among them
+    onEdit: (rows: number[], column: VariableColumn, value: string) => void;
+    // the variable of a row, shown in the tree
+    onOpen?: (row: number) => void;
+    onViewChange?: (view: GridView) => void;
+}
+
+export interface GridHandle {
+    element: HTMLElement;
+    // the rows after an edit, the view is kept
+    update: (rows: VariableRow[]) => void;
+    view: () => GridView;
+}
+
+export interface VariableGrid {
+    create: (options: GridOptions) => GridHandle;
+}
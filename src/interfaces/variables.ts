@@ -0,0 +1,51 @@
+
+import type { NormNode } from './codebook';
+import type { DDICElements } from './ddic';
+
+export interface ValueLabel {
+    value: string;
+    label: string;
+}
+
+// Variable level metadata of a codebook, flattened from a dataDscr/var node
+export interface VariableMetadata {
+    name: string;
+    label: string;
+    // varFormat type: "numeric" or "character"
+    type: string;
+    // var intrvl: "discrete" or "contin"
+    measurement: string;
+    question: string;
+    universe: string;
+    labels: ValueLabel[];
+    // discrete missing values, from catgry missing="Y" and invalrng items
+    missing: string[];
+    // missing range from invalrng, an empty bound is open
+    missingRange: [string, string] | null;
+}
+
+// Edited metadata of a variable, the fields left out are not changed
+export type VariableUpdate = Partial<Omit<VariableMetadata, 'name'>> & { name: string };
+
+export interface VariableChanges {
+    // in the update only, will be created
+    added: string[];
+    // in both, with the names of the differing fields
+    changed: { name: string; fields: string[] }[];
+    // in the codebook only, left as they are
+    unmatched: string[];
+}
+
+export interface VariableApplyOptions {
+    // language of the labels and texts being replaced
+    lang?: string;
+    // DDIC dictionary, for the order of the created elements
+    elements?: DDICElements;
+}
+
+export interface Variables {
+    read: (variable: NormNode, lang?: string) => VariableMetadata;
+    all: (root: NormNode, lang?: string) => VariableMetadata[];
+    compare: (root: NormNode, updates: VariableUpdate[], lang?: string) => VariableChanges;
+    apply: (root: NormNode, updates: VariableUpdate[], options?: VariableApplyOptions) => NormNode;
+}
@@ -0,0 +1,36 @@
+
+import type { NormNode } from './codebook';
+import type { DDICElements } from './ddic';
+import type { TreeEdit, TreePath } from './treehistory';
+
+// The variable fields edited in the grid of a dataDscr
+export type VariableColumn = 'name' | 'label' | 'question' | 'instructions' | 'universe' | 'format' | 'measurement';
+
+// Why a name cannot be given to a variable, translated as "page.main.variables.name.<kind>"
+export type VariableNameProblem = 'empty' | 'duplicate';
+
+export interface VariableRow {
+    // the var element
+    path: TreePath;
+    values: Record<VariableColumn, string>;
+}
+
+export interface VariableTableOptions {
+    // language of the texts, the first text of each element when absent
+    lang?: string;
+    // DDIC dictionary, for the order of the created elements
+    elements?: DDICElements;
+}
+
+export interface VariableTable {
+    columns: VariableColumn[];
+    // the var elements of a dataDscr, in document order
+    rows: (dataDscr: NormNode, dataDscrPath: TreePath, lang?: string) => VariableRow[];
+    // the values a column takes, empty when free
+    choices: (column: VariableColumn, elements: DDICElements) => string[];
+    // a name the given variables cannot take: none, or one another variable of their dataDscr has
+    nameProblem: (root: NormNode, paths: TreePath[], value: string) => VariableNameProblem | null;
+    // the edits setting a column of the given variables as one history step, null when nothing changes
+    // or when the name is refused
+    edit: (root: NormNode, paths: TreePath[], column: VariableColumn, value: string, options?: VariableTableOptions) => TreeEdit | null;
+}
@@ -0,0 +1,34 @@
+
+// Position of a parsed node in the source text, both 1-based
+export interface XmlPosition {
+    line: number;
+    column: number;
+}
+
+export interface XmlAttribute extends XmlPosition {
+    // qualified name, as written
+    name: string;
+    value: string;
+}
+
+export interface XmlElement extends XmlPosition {
+    // qualified name, as written
+    name: string;
+    attributes: XmlAttribute[];
+    children: XmlElement[];
+    // character data directly inside the element, concatenated
+    text: string;
+    // namespace declarations in scope, '' is the default namespace
+    namespaces: Record<string, string>;
+}
+
+export interface XmlParseResult {
+    root: XmlElement | null;
+    error?: XmlPosition & { message: string };
+}
+
+export interface XmlParser {
+    parse: (text: string) => XmlParseResult;
+    // namespace URI and local name of a qualified name, in the scope of an element
+    resolve: (element: XmlElement, qname: string, useDefault?: boolean) => { ns: string; local: string } | null;
+}
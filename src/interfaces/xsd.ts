@@ -0,0 +1,42 @@
+
+import type { TreePath } from './treehistory';
+import type { XmlPosition } from './xmlparser';
+
+export type XsdProblemCode =
+    | 'syntax'
+    | 'unknown-root'
+    | 'unexpected-element'
+    | 'missing-element'
+    | 'abstract-element'
+    | 'text-not-allowed'
+    | 'missing-attribute'
+    | 'unknown-attribute'
+    | 'invalid-value'
+    | 'invalid-attribute'
+    | 'duplicate-id'
+    | 'unknown-idref';
+
+export interface XsdProblem extends XmlPosition {
+    code: XsdProblemCode;
+    // child element indexes from the root, the same as in the codebook tree;
+    // null when the document could not be parsed
+    path: TreePath | null;
+    // message parameters: element, attribute, value, expected, message
+    vars: Record<string, string>;
+}
+
+// A compiled set of schema documents, only meaningful to the validator
+export interface XsdSchema {
+    targetNamespace: string;
+    // global elements, as {namespace}name
+    elements: string[];
+}
+
+export interface Xsd {
+    // schema documents are read through read(), with locations relative to the entry;
+    // throws when a document is missing or is not a schema
+    compile: (entry: string, read: (location: string) => string | null) => XsdSchema;
+    validate: (schema: XsdSchema, xml: string) => XsdProblem[];
+    // the problem in the UI language, from the xsd.* messages
+    message: (problem: XsdProblem, t: (key: string, vars?: Record<string, string>) => string) => string;
+}
@@ -0,0 +1,88 @@
+
+// Lookup helpers over the normalized codebook tree, shared by the exporters.
+// Element names are compared without namespace prefix and ".N" suffix.
+
+import type { CodebookUtils, NormNode } from '../interfaces/codebook';
+import { ddic } from './ddic';
+
+export const codebook: CodebookUtils = {
+    children: function(node, name) {
+        const kids = Array.isArray(node?.children) ? node!.children : [];
+        if (!name) return kids;
+        return kids.filter((child) => ddic.baseName(String(child.name)) === name);
+    },
+
+    child: function(node, ...names) {
+        let current = node;
+        for (const name of names) {
+            current = codebook.children(current, name)[0];
+            if (!current) return undefined;
+        }
+        return current;
+    },
+
+    all: function(node, ...names) {
+        // every node reached by the name path, through all repeated siblings
+        let current: NormNode[] = node ? [node] : [];
+        for (const name of names) {
+            current = current.flatMap((n) => codebook.children(n, name));
+        }
+        return current;
+    },
+
+    text: function(node) {
+        const v = node?.value;
+        if (v === null || v === undefined) return '';
+        return (Array.isArray(v) ? v.map(String).join(' ') : String(v)).trim();
+    },
+
+    texts: function(node, ...names) {
+        return codebook.all(node, ...names).map((n) => codebook.text(n)).filter(Boolean);
+    },
+
+    attr: function(node, key) {
+        const attrs = node?.attributes;
+        if (!attrs || typeof attrs !== 'object') return undefined;
+        const alias = key === 'xml:lang' ? 'xmlang' : key;
+        const v = attrs[key] ?? attrs[alias];
+        if (v === null || v === undefined) return undefined;
+        return Array.isArray(v) ? v.map(String).join(' ') : String(v);
+    },
+
+    lang: function(node) {
+        return codebook.attr(node, 'xml:lang') || undefined;
+    },
+
+    variables: function(root) {
+        return codebook.all(root, 'dataDscr', 'var');
+    },
+
+    walk: function(root, visit) {
+        const step = (node: NormNode, path: number[], parent: NormNode | null) => {
+            visit(node, path, parent);
+            (node.children ?? []).forEach((child, idx) => step(child, path.concat([idx]), node));
+        };
+        step(root, [], null);
+    },
+
+    clone: function(node) {
+        return JSON.parse(JSON.stringify(node)) as NormNode;
+    },
+
+    insertionIndex: function(parent, name, order) {
+        const siblings = parent.children ?? [];
+        const rank = order.indexOf(ddic.baseName(name));
+        if (rank < 0) return siblings.length;
+        const later = siblings.findIndex((sibling) => order.indexOf(ddic.baseName(sibling.name)) > rank);
+        return later >= 0 ? later : siblings.length;
+    },
+
+    insert: function(parent, child, order) {
+        if (!Array.isArray(parent.children)) parent.children = [];
+        const idx = codebook.insertionIndex(parent, child.name, order);
+        parent.children.splice(idx, 0, child);
+        return idx;
+    },
+};
+
+export default codebook;
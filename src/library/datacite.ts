@@ -0,0 +1,232 @@
+
+// Converter from the normalized DDI Codebook tree to a DataCite Metadata
+// Schema 4.x record, for DOI registration. Most of the content comes from the
+// study citation; the mandatory properties that have no source in the
+// codebook are left out and reported, so that they can be completed first.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { DataCite, DataCiteProperty } from '../interfaces/datacite';
+import { codebook } from './codebook';
+import { ddixml } from './ddixml';
+
+const SCHEMA_VERSION = '4.5';
+
+const MANDATORY: DataCiteProperty[] = [
+    { property: 'Identifier', source: 'stdyDscr/citation/titlStmt/IDNo (DOI)' },
+    { property: 'Creator', source: 'stdyDscr/citation/rspStmt/AuthEnty' },
+    { property: 'Title', source: 'stdyDscr/citation/titlStmt/titl' },
+    { property: 'Publisher', source: 'stdyDscr/citation/distStmt/distrbtr' },
+    { property: 'PublicationYear', source: 'stdyDscr/citation/distStmt/distDate' },
+    { property: 'ResourceType', source: 'stdyDscr/stdyInfo/sumDscr/dataKind' },
+];
+
+const el = (name: string, children: NormNode[] = [], attributes?: Record<string, string>): NormNode => {
+    const node: NormNode = { name };
+    if (attributes && Object.keys(attributes).length) node.attributes = attributes;
+    if (children.length) node.children = children;
+    return node;
+};
+
+const leaf = (name: string, value: string, attributes?: Record<string, string | undefined>): NormNode => {
+    const node: NormNode = { name, value };
+    const defined: Record<string, string> = {};
+    for (const [key, v] of Object.entries(attributes ?? {})) {
+        if (v) defined[key] = v;
+    }
+    if (Object.keys(defined).length) node.attributes = defined;
+    return node;
+};
+
+// Wrapper element, only when there is something to wrap
+const list = (name: string, items: NormNode[]): NormNode[] => (items.length ? [el(name, items)] : []);
+
+const valued = (nodes: NormNode[]) => nodes.filter((n) => codebook.text(n));
+
+const dateOf = (node: NormNode | undefined) => codebook.attr(node, 'date') || codebook.text(node);
+
+// DDI lists people as "Family, Given", organizations without a comma
+const person = (node: NormNode, element: 'creator' | 'contributor'): NormNode => {
+    const name = codebook.text(node);
+    const comma = name.indexOf(',');
+    const affiliation = codebook.attr(node, 'affiliation');
+    const parts: NormNode[] = [
+        leaf(`${element}Name`, name, { nameType: comma > 0 ? 'Personal' : 'Organizational' }),
+    ];
+    if (comma > 0) {
+        parts.push(leaf('givenName', name.slice(comma + 1).trim()));
+        parts.push(leaf('familyName', name.slice(0, comma).trim()));
+    }
+    if (affiliation) parts.push(leaf('affiliation', affiliation));
+    return el(element, parts);
+};
+
+export const datacite: DataCite = {
+    schemaVersion: SCHEMA_VERSION,
+    mandatory: MANDATORY,
+
+    doi: function(identifier) {
+        const id = String(identifier || '').trim()
+            .replace(/^doi:\s*/i, '')
+            .replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+        return /^10\.\d{4,9}\/\S+$/.test(id) ? id : null;
+    },
+
+    build: function(root) {
+        const stdy = codebook.child(root, 'stdyDscr');
+        const citation = codebook.child(stdy, 'citation');
+        const stdyInfo = codebook.child(stdy, 'stdyInfo');
+        const sumDscr = codebook.child(stdyInfo, 'sumDscr');
+        const filled = new Set<string>();
+
+        // --- Identifier: the first DOI, every other IDNo as alternate identifier
+        const idNodes = valued(codebook.all(citation, 'titlStmt', 'IDNo'));
+        const doiNode = idNodes.find((n) => datacite.doi(codebook.text(n)));
+        const identifier: NormNode[] = [];
+        if (doiNode) {
+            identifier.push(leaf('identifier', datacite.doi(codebook.text(doiNode)) as string, { identifierType: 'DOI' }));
+            filled.add('Identifier');
+        }
+        const alternates = idNodes.filter((n) => n !== doiNode).map((n) => (
+            leaf('alternateIdentifier', codebook.text(n), {
+                alternateIdentifierType: codebook.attr(n, 'agency') || 'Local',
+            })
+        ));
+
+        const creators = valued(codebook.all(citation, 'rspStmt', 'AuthEnty')).map((n) => person(n, 'creator'));
+        if (creators.length) filled.add('Creator');
+
+        const titles = [
+            ...valued(codebook.all(citation, 'titlStmt', 'titl')).map((n) => (
+                leaf('title', codebook.text(n), { 'xml:lang': codebook.lang(n) })
+            )),
+            ...valued(codebook.all(citation, 'titlStmt', 'subTitl')).map((n) => (
+                leaf('title', codebook.text(n), { 'xml:lang': codebook.lang(n), titleType: 'Subtitle' })
+            )),
+            ...valued(codebook.all(citation, 'titlStmt', 'altTitl')).map((n) => (
+                leaf('title', codebook.text(n), { 'xml:lang': codebook.lang(n), titleType: 'AlternativeTitle' })
+            )),
+            ...valued(codebook.all(citation, 'titlStmt', 'parTitl')).map((n) => (
+                leaf('title', codebook.text(n), { 'xml:lang': codebook.lang(n), titleType: 'TranslatedTitle' })
+            )),
+        ];
+        if (titles.length) filled.add('Title');
+
+        const distributor = valued(codebook.all(citation, 'distStmt', 'distrbtr'))[0];
+        const publisher: NormNode[] = [];
+        if (distributor) {
+            publisher.push(leaf('publisher', codebook.text(distributor), { 'xml:lang': codebook.lang(distributor) }));
+            filled.add('Publisher');
+        }
+
+        const distDate = codebook.all(citation, 'distStmt', 'distDate').find((n) => dateOf(n));
+        const year = (dateOf(distDate).match(/\b(\d{4})\b/) ?? [])[1];
+        const publicationYear: NormNode[] = [];
+        if (year) {
+            publicationYear.push(leaf('publicationYear', year));
+            filled.add('PublicationYear');
+        }
+
+        // the resource type is always a dataset, the kind of data only refines it
+        const dataKind = codebook.texts(sumDscr, 'dataKind')[0] ?? '';
+        filled.add('ResourceType');
+
+        const subjects = [
+            ...valued(codebook.all(stdyInfo, 'subject', 'keyword')),
+            ...valued(codebook.all(stdyInfo, 'subject', 'topcClas')),
+        ].map((n) => leaf('subject', codebook.text(n), {
+            'xml:lang': codebook.lang(n),
+            subjectScheme: codebook.attr(n, 'vocab'),
+            schemeURI: codebook.attr(n, 'vocabURI'),
+        }));
+
+        const contributors = [
+            ...valued(codebook.all(citation, 'prodStmt', 'producer')).map((n) => {
+                const node = person(n, 'contributor');
+                node.attributes = { contributorType: 'Producer' };
+                return node;
+            }),
+            ...valued(codebook.all(citation, 'distStmt', 'contact')).map((n) => {
+                const node = person(n, 'contributor');
+                node.attributes = { contributorType: 'ContactPerson' };
+                return node;
+            }),
+        ];
+
+        const range = (event: string, within: NormNode[]) => within.find((n) => codebook.attr(n, 'event') === event);
+        const dateRange = (within: NormNode[]): string => {
+            const start = range('start', within);
+            const end = range('end', within);
+            if (start && end) return `${dateOf(start)}/${dateOf(end)}`;
+            const single = range('single', within) ?? start ?? end;
+            return single ? dateOf(single) : '';
+        };
+        const collected = dateRange(codebook.children(sumDscr, 'collDate'));
+        const coverage = dateRange(codebook.children(sumDscr, 'timePrd'));
+        const dates = [
+            ...(distDate ? [leaf('date', dateOf(distDate), { dateType: 'Issued' })] : []),
+            ...(collected ? [leaf('date', collected, { dateType: 'Collected' })] : []),
+            ...(coverage ? [leaf('date', coverage, { dateType: 'Other', dateInformation: 'Time period covered' })] : []),
+        ];
+
+        const licenseNode = [
+            ...codebook.children(codebook.child(stdy, 'dataAccs'), 'notes'),
+            ...codebook.all(stdy, 'dataAccs', 'useStmt', 'conditions'),
+        ].find((n) => /^https?:\/\//i.test(codebook.attr(n, 'URI') || ''));
+        const rights = [
+            ...(licenseNode ? [leaf('rights', codebook.text(licenseNode), { rightsURI: codebook.attr(licenseNode, 'URI') })] : []),
+            ...valued(codebook.all(citation, 'prodStmt', 'copyright')).map((n) => (
+                leaf('rights', codebook.text(n), { 'xml:lang': codebook.lang(n) })
+            )),
+        ];
+
+        const descriptions = valued(codebook.children(stdyInfo, 'abstract')).map((n) => (
+            leaf('description', codebook.text(n), { 'xml:lang': codebook.lang(n), descriptionType: 'Abstract' })
+        ));
+
+        const places = [...codebook.texts(sumDscr, 'nation'), ...codebook.texts(sumDscr, 'geogCover')]
+            .filter((name, idx, all) => all.indexOf(name) === idx)
+            .map((name) => el('geoLocation', [leaf('geoLocationPlace', name)]));
+
+        const funding = valued(codebook.all(citation, 'prodStmt', 'fundAg')).map((n) => (
+            el('fundingReference', [leaf('funderName', codebook.text(n))])
+        ));
+
+        const version = codebook.texts(citation, 'verStmt', 'version')[0];
+        const language = codebook.lang(root);
+
+        const record = el('resource', [
+            ...identifier,
+            ...list('creators', creators),
+            ...list('titles', titles),
+            ...publisher,
+            ...publicationYear,
+            leaf('resourceType', dataKind, { resourceTypeGeneral: 'Dataset' }),
+            ...list('subjects', subjects),
+            ...list('contributors', contributors),
+            ...list('dates', dates),
+            ...(language ? [leaf('language', language)] : []),
+            ...list('alternateIdentifiers', alternates),
+            ...(version ? [leaf('version', version)] : []),
+            ...list('rightsList', rights),
+            ...list('descriptions', descriptions),
+            ...list('geoLocations', places),
+            ...list('fundingReferences', funding),
+        ], {
+            'xmlns': 'http://datacite.org/schema/kernel-4',
+            'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+            'xsi:schemaLocation': `http://datacite.org/schema/kernel-4 http://schema.datacite.org/meta/kernel-${SCHEMA_VERSION}/metadata.xsd`,
+        });
+
+        return {
+            record,
+            missing: MANDATORY.filter((m) => !filled.has(m.property)),
+        };
+    },
+
+    serialize: function(root) {
+        const { record, missing } = datacite.build(root);
+        return { xml: ddixml.serialize(record, { rootDefaults: false }), missing };
+    },
+};
+
+export default datacite;
@@ -0,0 +1,155 @@
+
+// Read-only helpers for the DDIC element dictionary, shared by main and renderer.
+// The dictionary shape varies with the jsonlite serialization, so every
+// accessor is tolerant to arrays, named lists and nested choice groups.
+
+import type { DDIC } from '../interfaces/ddic';
+
+const collectNames = (x: unknown, out: string[]) => {
+    if (typeof x === 'string') {
+        if (x && !out.includes(x)) out.push(x);
+        return;
+    }
+    if (Array.isArray(x)) {
+        x.forEach((item) => collectNames(item, out));
+        return;
+    }
+    if (x && typeof x === 'object') {
+        const obj = x as Record<string, unknown>;
+        const own = obj.name ?? obj.__name;
+        if (typeof own === 'string') {
+            collectNames(own, out);
+            return;
+        }
+        // named list: either { child: meta } or a group of alternatives
+        for (const [key, value] of Object.entries(obj)) {
+            if (value && typeof value === 'object' && !Array.isArray(value)) collectNames(key, out);
+            else collectNames(value, out);
+        }
+    }
+};
+
+// jsonlite writes length one vectors as arrays unless unboxed
+const scalar = (x: unknown): unknown => (Array.isArray(x) && x.length === 1 ? x[0] : x);
+
+const truthy = (x: unknown): boolean | undefined => {
+    const v = scalar(x);
+    if (typeof v === 'boolean') return v;
+    if (typeof v === 'string' && /^(true|false|yes|no)$/i.test(v)) return /^(true|yes)$/i.test(v);
+    return undefined;
+};
+
+const stringList = (x: unknown): string[] => {
+    if (x === null || x === undefined) return [];
+    const items = Array.isArray(x) ? x : (typeof x === 'object' ? Object.values(x as object) : [x]);
+    return items.filter((v) => v !== null && v !== undefined && v !== '').map(String);
+};
+
+const typeName = (x: unknown): string | undefined => {
+    const v = scalar(x);
+    return typeof v === 'string' && v ? v : undefined;
+};
+
+// required, optional="false", use="required" or minOccurs >= 1
+const isRequired = (meta: Record<string, unknown>): boolean => {
+    const required = truthy(meta.required ?? meta.mandatory);
+    if (required !== undefined) return required;
+    const optional = truthy(meta.optional);
+    if (optional !== undefined) return !optional;
+    if (scalar(meta.use) === 'required') return true;
+    const min = Number(scalar(meta.minOccurs));
+    return Number.isFinite(min) && min >= 1;
+};
+
+export const ddic: DDIC = {
+    baseName: function(name) {
+        const noNs = name.includes(':') ? (name.split(':').pop() || name) : name;
+        return noNs.replace(/\.\d+$/u, '');
+    },
+
+    entry: function(elements, name) {
+        if (!elements || typeof elements !== 'object') return undefined;
+        const meta = elements[name] ?? elements[ddic.baseName(name)];
+        return (meta && typeof meta === 'object') ? meta as Record<string, unknown> : undefined;
+    },
+
+    title: function(elements, name) {
+        const meta = ddic.entry(elements, name);
+        const t = meta?.title ?? meta?.Title ?? meta?.label;
+        return typeof t === 'string' ? t : undefined;
+    },
+
+    childrenOf: function(elements, name) {
+        const meta = ddic.entry(elements, name);
+        if (!meta) return [];
+        const out: string[] = [];
+        collectNames(meta.children ?? meta.subelements ?? meta.elements, out);
+        return out;
+    },
+
+    allowsChild: function(elements, parent, child) {
+        return ddic.childrenOf(elements, parent).includes(ddic.baseName(child));
+    },
+
+    repeatable: function(elements, name) {
+        const meta = ddic.entry(elements, name);
+        if (!meta) return false;
+        // the multiplicity field differs between DDIC versions
+        const v = meta.repeatable ?? meta.isRepeatable ?? meta.multiple ?? meta.cardinality ?? meta.occurs ?? meta.maxOccurs;
+        const flag = Array.isArray(v) ? v[0] : v;
+        if (typeof flag === 'boolean') return flag;
+        if (typeof flag === 'number') return flag !== 1 && flag !== 0;
+        if (typeof flag === 'string') {
+            const s = flag.toLowerCase();
+            if (s === 'true' || s === 'multiple' || s === 'many' || s === 'unbounded') return true;
+            const n = parseInt(s, 10);
+            if (!Number.isNaN(n)) return n !== 1 && n !== 0;
+        }
+        return false;
+    },
+
+    required: function(elements, name) {
+        const meta = ddic.entry(elements, name);
+        return meta ? isRequired(meta) : false;
+    },
+
+    valueType: function(elements, name) {
+        const meta = ddic.entry(elements, name);
+        return meta ? typeName(meta.type ?? meta.datatype ?? meta.valueType) : undefined;
+    },
+
+    values: function(elements, name) {
+        const meta = ddic.entry(elements, name);
+        return meta ? stringList(meta.values ?? meta.enumeration ?? meta.enum) : [];
+    },
+
+    attributes: function(elements, name) {
+        const declared = ddic.entry(elements, name)?.attributes;
+        if (!declared || typeof declared !== 'object') return [];
+        // either { name: meta } or [ { name, ... } ]
+        const pairs: [string, Record<string, unknown>][] = Array.isArray(declared)
+            ? declared
+                .filter((a) => a && typeof a === 'object')
+                .map((a) => [String(scalar((a as Record<string, unknown>).name) ?? ''), a as Record<string, unknown>])
+            : Object.entries(declared as Record<string, unknown>)
+                .map(([key, a]) => [key, (a && typeof a === 'object' ? a : {}) as Record<string, unknown>]);
+        return pairs.filter(([key]) => key).map(([key, meta]) => ({
+            name: key,
+            required: isRequired(meta),
+            type: typeName(meta.type ?? meta.datatype),
+            values: stringList(meta.values ?? meta.enumeration ?? meta.enum),
+            default: typeName(meta.default),
+        }));
+    },
+
+    childOptions: function(elements, node) {
+        const present = (node.children ?? []).map((child) => ddic.baseName(child.name));
+        return ddic.childrenOf(elements, ddic.baseName(node.name)).map((name) => {
+            const count = present.filter((p) => p === name).length;
+            const max = ddic.repeatable(elements, name) ? Infinity : 1;
+            return { name, title: ddic.title(elements, name), count, max, available: count < max };
+        });
+    },
+};
+
+export default ddic;
@@ -0,0 +1,244 @@
+
+// Converter from the normalized DDI Codebook tree to a DDI Lifecycle 3.2 / 3.3
+// FragmentInstance. Study level metadata goes to a StudyUnit, each fileDscr to a
+// PhysicalInstance, and the variables to Variable, CodeList and Category schemes.
+// Identifiers are derived from the codebook content, so that exporting the same
+// codebook twice gives the same URNs.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { DDILifecycle, DDILVersion } from '../interfaces/ddilifecycle';
+import { codebook } from './codebook';
+import { ddixml } from './ddixml';
+
+// Registered DDI agency identifiers, e.g. "int.example" or "ro.roda"
+const AGENCY_REGEX = /^[a-zA-Z]{2,3}\.[a-zA-Z0-9-]{1,61}(\.[a-zA-Z0-9-]{1,63})*$/;
+
+type Identity = { agency: string; id: string; version: string; type: string };
+
+const el = (name: string, children: NormNode[] = [], attributes?: Record<string, string>): NormNode => {
+    const node: NormNode = { name };
+    if (attributes && Object.keys(attributes).length) node.attributes = attributes;
+    if (children.length) node.children = children;
+    return node;
+};
+
+const leaf = (name: string, value: string, attributes?: Record<string, string>): NormNode => {
+    const node: NormNode = { name, value };
+    if (attributes && Object.keys(attributes).length) node.attributes = attributes;
+    return node;
+};
+
+const langOf = (node: NormNode): Record<string, string> | undefined => {
+    const lang = codebook.lang(node);
+    return lang ? { 'xml:lang': lang } : undefined;
+};
+
+// r:String / r:Content for every language variant of an element
+const strings = (wrapper: string, inner: string, nodes: NormNode[]): NormNode[] => {
+    const valued = nodes.filter((n) => codebook.text(n));
+    if (!valued.length) return [];
+    return [el(wrapper, valued.map((n) => leaf(inner, codebook.text(n), langOf(n))))];
+};
+
+const namespaces = (version: DDILVersion): Record<string, string> => {
+    const v = version.replace('.', '_');
+    return {
+        'xmlns:ddi': `ddi:instance:${v}`,
+        'xmlns:r': `ddi:reusable:${v}`,
+        'xmlns:s': `ddi:studyunit:${v}`,
+        'xmlns:pi': `ddi:physicalinstance:${v}`,
+        'xmlns:l': `ddi:logicalproduct:${v}`,
+        'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+        'xsi:schemaLocation': `ddi:instance:${v} https://ddialliance.org/Specification/DDI-Lifecycle/${version}/XMLSchema/instance.xsd`,
+    };
+};
+
+export const ddilifecycle: DDILifecycle = {
+    versions: ['3.2', '3.3'],
+
+    isValidAgency: function(agency) {
+        return AGENCY_REGEX.test(String(agency || ''));
+    },
+
+    build: function(root, options) {
+        const version = options.version ?? '3.3';
+        const agency = options.agency;
+        const itemVersion = options.itemVersion ?? '1.0.0';
+        if (!ddilifecycle.isValidAgency(agency)) {
+            throw new Error(`Invalid DDI agency identifier: "${agency}"`);
+        }
+
+        const usedIds = new Set<string>();
+        const identity = (type: string, key: string): Identity => {
+            const base = `${type}-${key}`.replace(/[^A-Za-z0-9*@$_-]+/g, '-').replace(/-+$/, '');
+            let id = base;
+            for (let i = 2; usedIds.has(id); i++) id = `${base}-${i}`;
+            usedIds.add(id);
+            return { agency, id, version: itemVersion, type };
+        };
+        const identification = (who: Identity): NormNode[] => [
+            leaf('r:URN', `urn:ddi:${who.agency}:${who.id}:${who.version}`),
+            leaf('r:Agency', who.agency),
+            leaf('r:ID', who.id),
+            leaf('r:Version', who.version),
+        ];
+        const reference = (name: string, who: Identity): NormNode => el(name, [
+            leaf('r:Agency', who.agency),
+            leaf('r:ID', who.id),
+            leaf('r:Version', who.version),
+            leaf('r:TypeOfObject', who.type),
+        ]);
+
+        const stdy = codebook.child(root, 'stdyDscr');
+        const citation = codebook.child(stdy, 'citation');
+        const stdyInfo = codebook.child(stdy, 'stdyInfo');
+        const studyKey = codebook.texts(citation, 'titlStmt', 'IDNo')[0]
+            || codebook.attr(root, 'ID')
+            || 'study';
+
+        const studyId = identity('StudyUnit', studyKey);
+        const productId = identity('LogicalProduct', studyKey);
+        const categorySchemeId = identity('CategoryScheme', studyKey);
+        const codeListSchemeId = identity('CodeListScheme', studyKey);
+        const variableSchemeId = identity('VariableScheme', studyKey);
+
+        // --- Logical product: categories, code lists and variables
+        const categories: NormNode[] = [];
+        const codeLists: NormNode[] = [];
+        const variables: NormNode[] = [];
+
+        for (const v of codebook.variables(root)) {
+            const varName = codebook.attr(v, 'name') || codebook.attr(v, 'ID') || `V${variables.length + 1}`;
+            const variableId = identity('Variable', varName);
+            const catgry = codebook.children(v, 'catgry');
+
+            let representation: NormNode;
+            if (catgry.length) {
+                const codeListId = identity('CodeList', varName);
+                const codes: NormNode[] = [];
+                for (const cat of catgry) {
+                    const value = codebook.texts(cat, 'catValu')[0] ?? '';
+                    const categoryId = identity('Category', `${varName}-${value}`);
+                    const missing = (codebook.attr(cat, 'missing') || '').toUpperCase() === 'Y';
+                    categories.push(el('l:Category', [
+                        ...identification(categoryId),
+                        ...strings('r:Label', 'r:Content', codebook.children(cat, 'labl')),
+                    ], missing ? { missing: 'true' } : undefined));
+                    codes.push(el('l:Code', [
+                        ...identification(identity('Code', `${varName}-${value}`)),
+                        reference('r:CategoryReference', categoryId),
+                        leaf('r:Value', value),
+                    ]));
+                }
+                codeLists.push(el('l:CodeList', [
+                    ...identification(codeListId),
+                    ...strings('r:Label', 'r:Content', codebook.children(v, 'labl')),
+                    ...codes,
+                ]));
+                representation = el('r:CodeRepresentation', [reference('r:CodeListReference', codeListId)]);
+            } else {
+                const format = codebook.attr(codebook.child(v, 'varFormat'), 'type');
+                representation = format === 'character'
+                    ? el('r:TextRepresentation')
+                    : el('r:NumericRepresentation', [leaf('r:NumericTypeCode', 'Double')]);
+            }
+
+            variables.push(el('l:Variable', [
+                ...identification(variableId),
+                el('l:VariableName', [leaf('r:String', varName)]),
+                ...strings('r:Label', 'r:Content', codebook.children(v, 'labl')),
+                el('l:VariableRepresentation', [representation]),
+            ]));
+        }
+
+        // --- Physical instances, one per data file description
+        const physicalInstances: NormNode[] = [];
+        const physicalIds: Identity[] = [];
+        for (const file of codebook.children(root, 'fileDscr')) {
+            const fileName = codebook.texts(file, 'fileTxt', 'fileName')[0]
+                || codebook.attr(file, 'URI')
+                || codebook.attr(file, 'ID')
+                || `file-${physicalInstances.length + 1}`;
+            const uri = codebook.attr(file, 'URI') || fileName;
+            const cases = codebook.texts(file, 'fileTxt', 'dimensns', 'caseQnty')[0];
+            const instanceId = identity('PhysicalInstance', codebook.attr(file, 'ID') || fileName);
+            physicalIds.push(instanceId);
+            physicalInstances.push(el('pi:PhysicalInstance', [
+                ...identification(instanceId),
+                el('r:Citation', [el('r:Title', [leaf('r:String', fileName)])]),
+                el('pi:DataFileIdentification', [leaf('pi:URI', uri)]),
+                ...(cases ? [el('pi:GrossFileStructure', [leaf('pi:CaseQuantity', cases)])] : []),
+            ], { isMaintainable: 'true' }));
+        }
+
+        // --- Study unit
+        const creators = codebook.all(citation, 'rspStmt', 'AuthEnty').filter((n) => codebook.text(n)).map((n) => {
+            const affiliation = codebook.attr(n, 'affiliation');
+            return el('r:Creator', [
+                el('r:CreatorName', [leaf('r:String', codebook.text(n))], affiliation ? { affiliation } : undefined),
+            ]);
+        });
+        const publishers = codebook.all(citation, 'distStmt', 'distrbtr').filter((n) => codebook.text(n)).map((n) => (
+            el('r:Publisher', [el('r:PublisherName', [leaf('r:String', codebook.text(n))])])
+        ));
+        const pubDate = codebook.attr(codebook.child(citation, 'distStmt', 'distDate'), 'date')
+            || codebook.texts(citation, 'distStmt', 'distDate')[0];
+        const identifiers = codebook.all(citation, 'titlStmt', 'IDNo').filter((n) => codebook.text(n)).map((n) => (
+            el('r:InternationalIdentifier', [
+                leaf('r:IdentifierContent', codebook.text(n)),
+                leaf('r:ManagingAgency', codebook.attr(n, 'agency') || agency),
+            ])
+        ));
+        const copyright = codebook.all(citation, 'prodStmt', 'copyright').filter((n) => codebook.text(n));
+
+        const study = el('s:StudyUnit', [
+            ...identification(studyId),
+            el('r:Citation', [
+                ...strings('r:Title', 'r:String', codebook.all(citation, 'titlStmt', 'titl')),
+                ...strings('r:AlternateTitle', 'r:String', codebook.all(citation, 'titlStmt', 'altTitl')),
+                ...creators,
+                ...publishers,
+                ...(pubDate ? [el('r:PublicationDate', [leaf('r:SimpleDate', pubDate)])] : []),
+                ...identifiers,
+                ...strings('r:Copyright', 'r:String', copyright),
+            ]),
+            ...strings('r:Abstract', 'r:Content', codebook.children(stdyInfo, 'abstract')),
+            ...codebook.all(stdyInfo, 'sumDscr', 'dataKind').filter((n) => codebook.text(n)).map((n) => (
+                leaf('r:KindOfData', codebook.text(n))
+            )),
+            reference('r:LogicalProductReference', productId),
+            ...physicalIds.map((who) => reference('r:PhysicalInstanceReference', who)),
+        ], { isMaintainable: 'true' });
+
+        const product = el('l:LogicalProduct', [
+            ...identification(productId),
+            reference('r:CategorySchemeReference', categorySchemeId),
+            reference('r:CodeListSchemeReference', codeListSchemeId),
+            reference('r:VariableSchemeReference', variableSchemeId),
+        ], { isMaintainable: 'true' });
+
+        const scheme = (name: string, who: Identity, items: NormNode[]) => (
+            el(name, [...identification(who), ...items], { isMaintainable: 'true' })
+        );
+
+        const fragments = [
+            study,
+            product,
+            scheme('l:CategoryScheme', categorySchemeId, categories),
+            scheme('l:CodeListScheme', codeListSchemeId, codeLists),
+            scheme('l:VariableScheme', variableSchemeId, variables),
+            ...physicalInstances,
+        ].map((item) => el('ddi:Fragment', [item]));
+
+        return el('ddi:FragmentInstance', [
+            reference('ddi:TopLevelReference', studyId),
+            ...fragments,
+        ], namespaces(version));
+    },
+
+    serialize: function(root, options) {
+        return ddixml.serialize(ddilifecycle.build(root, options), { rootDefaults: false });
+    },
+};
+
+export default ddilifecycle;
@@ -0,0 +1,171 @@
+
+// DDI Codebook versions the codebook can be exported to, and the content
+// that only exists in some of them. The DDIC dictionary from DDIwR already
+// includes the 2.6 elements, so older targets need to lose (or map) those.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { DDIVersion, DDIVersionSpec, DDIVersions, VersionIssue } from '../interfaces/ddiversions';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+
+const SPECS: Record<DDIVersion, DDIVersionSpec> = {
+    '2.5': {
+        namespace: 'ddi:codebook:2_5',
+        schemaLocation: 'https://ddialliance.org/Specification/DDI-Codebook/2.5/XMLSchema/codebook.xsd',
+    },
+    '2.6': {
+        namespace: 'ddi:codebook:2_6',
+        schemaLocation: 'https://ddialliance.org/Specification/DDI-Codebook/2.6/XMLSchema/codebook.xsd',
+    },
+};
+
+// Content introduced by each version (absent from all the previous ones), from the
+// changes listed with the DDI Codebook 2.6 release; export:check compares the
+// elements with the bundled 2.5 and 2.6 schemas
+const INTRODUCED: Record<DDIVersion, { elements: string[]; attributes: Record<string, string[]> }> = {
+    '2.5': { elements: [], attributes: {} },
+    '2.6': {
+        elements: [
+            'dataFingerprint', 'digitalFingerprintValue', 'algorithmSpecification', 'algorithmVersion',
+            'studyDevelopment', 'developmentActivity', 'participant', 'resource', 'outcome',
+            'qualityStatement', 'standardsCompliance', 'standard', 'standardName',
+            'complianceDescription', 'otherQualityStatement',
+        ],
+        attributes: {
+            var: ['representationType', 'otherRepresentationType'],
+            abstract: ['contentType'],
+        },
+    },
+};
+
+const ORDER: DDIVersion[] = ['2.5', '2.6'];
+
+// Root attributes replaced when targeting a specific version
+const VERSION_ATTRIBUTES = ['xmlns', 'xmlns:xsi', 'xsi:schemaLocation', 'schemaLocation', 'version'];
+
+const unavailableIn = (version: DDIVersion) => {
+    const elements = new Set<string>();
+    const attributes: Record<string, Set<string>> = {};
+    for (const later of ORDER.slice(ORDER.indexOf(version) + 1)) {
+        INTRODUCED[later].elements.forEach((e) => elements.add(e));
+        for (const [element, attrs] of Object.entries(INTRODUCED[later].attributes)) {
+            attributes[element] = attributes[element] ?? new Set<string>();
+            attrs.forEach((a) => attributes[element].add(a));
+        }
+    }
+    return { elements, attributes };
+};
+
+// Text of a whole subtree, one "element: value" line per valued descendant
+const flattenText = (node: NormNode, label = ''): string[] => {
+    const lines: string[] = [];
+    const value = node.value === null || node.value === undefined ? '' : String(node.value).trim();
+    if (value) lines.push(label ? `${label}: ${value}` : value);
+    for (const child of node.children ?? []) {
+        const base = ddic.baseName(child.name);
+        lines.push(...flattenText(child, label ? `${label} / ${base}` : base));
+    }
+    return lines;
+};
+
+export const ddiversions: DDIVersions = {
+    versions: [...ORDER],
+
+    spec: function(version) {
+        return SPECS[version];
+    },
+
+    rootAttributes: function(version) {
+        const spec = SPECS[version];
+        return {
+            'xmlns': spec.namespace,
+            'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+            'xsi:schemaLocation': `${spec.namespace} ${spec.schemaLocation}`,
+            'version': version,
+        };
+    },
+
+    detect: function(root) {
+        const attrs = root.attributes ?? {};
+        const declared = String(attrs.version ?? '');
+        if (ORDER.includes(declared as DDIVersion)) return declared as DDIVersion;
+        const ns = String(attrs.xmlns ?? '');
+        return ORDER.find((v) => SPECS[v].namespace === ns) ?? null;
+    },
+
+    incompatibilities: function(root, version, elements) {
+        const missing = unavailableIn(version);
+        const issues: VersionIssue[] = [];
+
+        const walk = (node: NormNode, path: number[], names: string[]) => {
+            const base = ddic.baseName(node.name);
+            for (const key of Object.keys(node.attributes ?? {})) {
+                if (missing.attributes[base]?.has(key)) {
+                    issues.push({ path, namePath: names, element: base, attribute: key, mappable: false });
+                }
+            }
+            (node.children ?? []).forEach((child, idx) => {
+                const childBase = ddic.baseName(child.name);
+                const childPath = path.concat([idx]);
+                const childNames = names.concat([childBase]);
+                if (missing.elements.has(childBase)) {
+                    const mappable = !elements || ddic.allowsChild(elements, base, 'notes');
+                    issues.push({ path: childPath, namePath: childNames, element: childBase, mappable });
+                    return; // the whole subtree goes with it
+                }
+                walk(child, childPath, childNames);
+            });
+        };
+
+        walk(root, [], [ddic.baseName(root.name)]);
+        return issues;
+    },
+
+    convert: function(root, version, action, elements) {
+        const copy = JSON.parse(JSON.stringify(root)) as NormNode;
+        const missing = unavailableIn(version);
+
+        const walk = (node: NormNode) => {
+            const base = ddic.baseName(node.name);
+            if (node.attributes && missing.attributes[base]) {
+                for (const key of Object.keys(node.attributes)) {
+                    if (missing.attributes[base].has(key)) delete node.attributes[key];
+                }
+            }
+            if (!Array.isArray(node.children)) return;
+            const kept: NormNode[] = [];
+            const notes: NormNode[] = [];
+            for (const child of node.children) {
+                const childBase = ddic.baseName(child.name);
+                if (!missing.elements.has(childBase)) {
+                    walk(child);
+                    kept.push(child);
+                    continue;
+                }
+                const mappable = !elements || ddic.allowsChild(elements, base, 'notes');
+                if (action === 'map' && mappable) {
+                    notes.push({
+                        name: 'notes',
+                        attributes: { subject: childBase },
+                        value: flattenText(child).join('\n'),
+                    });
+                }
+            }
+            node.children = kept;
+            // where notes go in the sequence of the parent, not where the dropped element was
+            const order = ddic.childrenOf(elements, base);
+            for (const note of notes) codebook.insert(node, note, order);
+        };
+
+        walk(copy);
+
+        const attrs: Record<string, string> = {};
+        for (const [key, value] of Object.entries(copy.attributes ?? {})) {
+            if (!VERSION_ATTRIBUTES.includes(key)) attrs[key] = value;
+        }
+        copy.attributes = { ...attrs, ...ddiversions.rootAttributes(version) };
+        return copy;
+    },
+};
+
+export default ddiversions;
@@ -0,0 +1,123 @@
+
+// Serializer from the normalized {name, attributes, value, children} shape
+// back to DDI Codebook XML (the inverse of normalize_codebook() in utils.R).
+// Pure, can be used from both main and renderer.
+
+import type { DDIXml, NormNode } from '../interfaces/codebook';
+import { ddiversions } from './ddiversions';
+
+// Attribute names flattened by DDIwR when importing, mapped back to XML
+const XML_ATTRIBUTE_NAMES: Record<string, string> = {
+    xmlang: 'xml:lang',
+};
+
+export const ddixml: DDIXml = {
+    attributeName: function(key) {
+        return XML_ATTRIBUTE_NAMES[key] ?? key;
+    },
+
+    attributeKey: function(name) {
+        const key = Object.keys(XML_ATTRIBUTE_NAMES).find((k) => XML_ATTRIBUTE_NAMES[k] === name);
+        return key ?? name;
+    },
+
+    elementName: function(name) {
+        // repeated siblings may carry an R style ".N" suffix
+        return String(name || 'node').replace(/\.\d+$/u, '');
+    },
+
+    textOf: function(value) {
+        if (value === null || value === undefined) return '';
+        if (Array.isArray(value)) return value.map((v) => ddixml.textOf(v)).join(' ');
+        return String(value);
+    },
+
+    escapeText: function(text) {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;');
+    },
+
+    escapeAttribute: function(text) {
+        return ddixml.escapeText(text)
+            .replace(/"/g, '&quot;')
+            .replace(/\r?\n/g, '&#10;');
+    },
+
+    serialize: function(root, options = {}) {
+        const indent = options.indent ?? '    ';
+        const lines: string[] = [];
+        if (options.declaration !== false) {
+            lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+        }
+
+        const attributesOf = (node: NormNode, isRoot: boolean): string => {
+            const out: Record<string, string> = {};
+            if (node.attributes && typeof node.attributes === 'object') {
+                for (const [key, value] of Object.entries(node.attributes)) {
+                    out[ddixml.attributeName(key)] = ddixml.textOf(value);
+                }
+            }
+            if (isRoot && options.rootDefaults !== false) {
+                // namespace declarations the loaded codebook may lack
+                const defaults = ddiversions.rootAttributes(ddiversions.detect(node) ?? '2.5');
+                for (const [key, value] of Object.entries(defaults)) {
+                    if (!(key in out)) out[key] = value;
+                }
+            }
+            return Object.entries(out)
+                .map(([key, value]) => ` ${key}="${ddixml.escapeAttribute(value)}"`)
+                .join('');
+        };
+
+        const write = (node: NormNode, depth: number) => {
+            const pad = indent.repeat(depth);
+            const name = ddixml.elementName(node.name);
+            const open = `<${name}${attributesOf(node, depth === 0)}`;
+            const text = ddixml.textOf(node.value);
+            const kids = Array.isArray(node.children) ? node.children : [];
+
+            if (kids.length) {
+                lines.push(`${pad}${open}>`);
+                if (text) lines.push(`${pad}${indent}${ddixml.escapeText(text)}`);
+                // children are written in their exact array order
+                for (const child of kids) write(child, depth + 1);
+                lines.push(`${pad}</${name}>`);
+            } else if (text) {
+                lines.push(`${pad}${open}>${ddixml.escapeText(text)}</${name}>`);
+            } else {
+                lines.push(`${pad}${open}/>`);
+            }
+        };
+
+        write(root, 0);
+        return lines.join('\n') + '\n';
+    },
+
+    fromXml: function(element) {
+        // the DDI namespace is implied, other prefixes are kept as written
+        const colon = element.name.indexOf(':');
+        const prefix = colon > 0 ? element.name.slice(0, colon) : '';
+        const isDDI = (element.namespaces[prefix] ?? '').startsWith('ddi:codebook:');
+        const node: NormNode = { name: isDDI && prefix ? element.name.slice(colon + 1) : element.name };
+
+        const attributes: Record<string, string> = {};
+        for (const attr of element.attributes) {
+            if (/^xmlns(:|$)/.test(attr.name)) continue;
+            attributes[ddixml.attributeKey(attr.name)] = attr.value;
+        }
+        if (Object.keys(attributes).length) node.attributes = attributes;
+
+        const text = element.text.trim();
+        if (element.children.length) {
+            if (text) node.value = text;
+            node.children = element.children.map((child) => ddixml.fromXml(child));
+        } else {
+            node.value = text;
+        }
+        return node;
+    },
+};
+
+export default ddixml;
@@ -0,0 +1,152 @@
+
+// Dublin Core records of the study: a simple OAI-DC record for harvesting and
+// a qualified DCTERMS description in RDF/XML. What goes where is decided only
+// by the CROSSWALK table below, the traversal knows nothing about DDI elements,
+// so the mapping can be adjusted for a given repository by editing the table
+// (or by passing another one in the options).
+
+import type { NormNode } from '../interfaces/codebook';
+import type { CrosswalkEntry, DCValue, DublinCore } from '../interfaces/dublincore';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+import { ddixml } from './ddixml';
+
+const CROSSWALK: CrosswalkEntry[] = [
+    { dc: 'title', dcterms: 'title', path: 'stdyDscr/citation/titlStmt/titl' },
+    { dc: 'title', dcterms: 'alternative', path: 'stdyDscr/citation/titlStmt/parTitl' },
+    { dc: 'title', dcterms: 'alternative', path: 'stdyDscr/citation/titlStmt/altTitl' },
+    { dc: 'creator', dcterms: 'creator', path: 'stdyDscr/citation/rspStmt/AuthEnty' },
+    { dc: 'subject', dcterms: 'subject', path: 'stdyDscr/stdyInfo/subject/keyword' },
+    { dc: 'subject', dcterms: 'subject', path: 'stdyDscr/stdyInfo/subject/topcClas' },
+    { dc: 'description', dcterms: 'abstract', path: 'stdyDscr/stdyInfo/abstract' },
+    { dc: 'publisher', dcterms: 'publisher', path: 'stdyDscr/citation/distStmt/distrbtr' },
+    { dc: 'contributor', dcterms: 'contributor', path: 'stdyDscr/citation/prodStmt/producer' },
+    { dc: 'date', dcterms: 'issued', path: 'stdyDscr/citation/distStmt/distDate', attribute: 'date' },
+    { dc: 'type', dcterms: 'type', value: 'Dataset' },
+    { dc: 'type', dcterms: 'type', path: 'stdyDscr/stdyInfo/sumDscr/dataKind' },
+    { dc: 'format', dcterms: 'format', path: 'fileDscr/fileTxt/fileType' },
+    { dc: 'identifier', dcterms: 'identifier', path: 'stdyDscr/citation/titlStmt/IDNo' },
+    { dc: 'identifier', dcterms: 'identifier', path: 'stdyDscr/citation/holdings', attribute: 'URI' },
+    { dc: 'language', dcterms: 'language', path: 'codeBook', attribute: 'xml:lang' },
+    { dc: 'coverage', dcterms: 'spatial', path: 'stdyDscr/stdyInfo/sumDscr/nation' },
+    { dc: 'coverage', dcterms: 'spatial', path: 'stdyDscr/stdyInfo/sumDscr/geogCover' },
+    { dc: 'coverage', dcterms: 'temporal', path: 'stdyDscr/stdyInfo/sumDscr/timePrd', attribute: 'date' },
+    { dc: 'rights', dcterms: 'rights', path: 'stdyDscr/dataAccs/useStmt/conditions' },
+    { dc: 'rights', dcterms: 'rights', path: 'stdyDscr/citation/prodStmt/copyright' },
+    { dc: 'rights', dcterms: 'license', path: 'stdyDscr/dataAccs/notes', where: { type: 'license' }, attribute: 'URI', resource: true },
+    { dc: 'relation', dcterms: 'isReferencedBy', path: 'stdyDscr/othrStdyMat/relPubl' },
+    { dc: 'source', dcterms: 'source', path: 'stdyDscr/method/dataColl/sources/dataSrc' },
+];
+
+const NS = {
+    oai_dc: 'http://www.openarchives.org/OAI/2.0/oai_dc/',
+    dc: 'http://purl.org/dc/elements/1.1/',
+    dcterms: 'http://purl.org/dc/terms/',
+    rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+    xsi: 'http://www.w3.org/2001/XMLSchema-instance',
+};
+
+const isUrl = (x: string) => /^https?:\/\//i.test(x);
+
+const nodesAt = (root: NormNode, path: string): NormNode[] => {
+    // paths start at the root, with or without naming it
+    const names = path.split('/').filter(Boolean);
+    if (names[0] === ddic.baseName(root.name)) names.shift();
+    return codebook.all(root, ...names);
+};
+
+const leaf = (name: string, value: string, attributes: Record<string, string | undefined> = {}): NormNode => {
+    const node: NormNode = { name, value };
+    const defined: Record<string, string> = {};
+    for (const [key, v] of Object.entries(attributes)) {
+        if (v) defined[key] = v;
+    }
+    if (Object.keys(defined).length) node.attributes = defined;
+    return node;
+};
+
+export const dublincore: DublinCore = {
+    crosswalk: CROSSWALK,
+
+    values: function(root, options = {}) {
+        const out: DCValue[] = [];
+        const seen = new Set<string>();
+        for (const entry of options.crosswalk ?? CROSSWALK) {
+            const found: DCValue[] = [];
+            if (entry.value !== undefined) {
+                found.push({ entry, value: entry.value });
+            } else if (entry.path) {
+                for (const node of nodesAt(root, entry.path)) {
+                    const where = entry.where ?? {};
+                    if (Object.keys(where).some((key) => codebook.attr(node, key) !== where[key])) continue;
+                    const value = (entry.attribute ? codebook.attr(node, entry.attribute) : undefined)
+                        || codebook.text(node);
+                    // the language of an attribute value is not that of the element
+                    const lang = entry.attribute ? undefined : codebook.lang(node);
+                    if (value) found.push({ entry, value, lang });
+                }
+            }
+            for (const item of found) {
+                const key = `${entry.dc}|${entry.dcterms}|${item.lang ?? ''}|${item.value}`;
+                if (seen.has(key)) continue;
+                seen.add(key);
+                out.push(item);
+            }
+        }
+        return out;
+    },
+
+    oaiDC: function(root, options) {
+        const seen = new Set<string>();
+        const children: NormNode[] = [];
+        for (const item of dublincore.values(root, options)) {
+            if (!item.entry.dc) continue;
+            // several qualified terms collapse on the same simple element
+            const key = `${item.entry.dc}|${item.lang ?? ''}|${item.value}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            children.push(leaf(`dc:${item.entry.dc}`, item.value, { 'xml:lang': item.lang }));
+        }
+        return {
+            name: 'oai_dc:dc',
+            attributes: {
+                'xmlns:oai_dc': NS.oai_dc,
+                'xmlns:dc': NS.dc,
+                'xmlns:xsi': NS.xsi,
+                'xsi:schemaLocation': `${NS.oai_dc} http://www.openarchives.org/OAI/2.0/oai_dc.xsd`,
+            },
+            children,
+        };
+    },
+
+    rdf: function(root, options) {
+        const values = dublincore.values(root, options);
+        const children = values.map((item) => {
+            const name = `dcterms:${item.entry.dcterms}`;
+            return item.entry.resource && isUrl(item.value)
+                ? { name, attributes: { 'rdf:resource': item.value } }
+                : leaf(name, item.value, { 'xml:lang': item.lang });
+        });
+
+        // the description is about the first resolvable identifier, if any
+        const about = values.find((item) => item.entry.dcterms === 'identifier' && isUrl(item.value));
+        const description: NormNode = { name: 'rdf:Description', children };
+        if (about) description.attributes = { 'rdf:about': about.value };
+
+        return {
+            name: 'rdf:RDF',
+            attributes: { 'xmlns:rdf': NS.rdf, 'xmlns:dcterms': NS.dcterms },
+            children: [description],
+        };
+    },
+
+    serializeOaiDC: function(root, options) {
+        return ddixml.serialize(dublincore.oaiDC(root, options), { rootDefaults: false });
+    },
+
+    serializeRdf: function(root, options) {
+        return ddixml.serialize(dublincore.rdf(root, options), { rootDefaults: false });
+    },
+};
+
+export default dublincore;
@@ -0,0 +1,94 @@
+// Find and replace in the values and attribute values of the codebook tree.
+// The find text is plain or a regular expression; every value or attribute that
+// changes is one proposed replacement, and the accepted ones are one history step.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { FindReplace, Replacement, ReplaceOptions } from '../interfaces/findreplace';
+import type { TreeEdit, TreePath } from '../interfaces/treehistory';
+import type { TextRange } from '../interfaces/treesearch';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+import { ddixml } from './ddixml';
+
+// a letter, digit or underscore in any script, around which a whole word cannot start or end
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+const patternOf = (options: ReplaceOptions): RegExp => {
+    const source = options.regex ? options.find : options.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const bounded = options.wholeWord ? `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})` : source;
+    return new RegExp(bounded, options.matchCase ? 'gu' : 'giu');
+};
+
+const nodeAt = (root: NormNode, path: TreePath): NormNode | undefined => (
+    path.reduce<NormNode | undefined>((n, i) => n?.children?.[i], root)
+);
+
+export const findreplace: FindReplace = {
+    check: function(options) {
+        if (!options.find) return null;
+        try {
+            patternOf(options);
+            return null;
+        } catch (e) {
+            return e instanceof Error ? e.message : String(e);
+        }
+    },
+
+    find: function(root, options) {
+        if (!options.find || findreplace.check(options)) return [];
+        const pattern = patternOf(options);
+        const scope = options.scope ?? [];
+        const top = nodeAt(root, scope);
+        if (!top) return [];
+        const element = options.element ? ddic.baseName(options.element) : '';
+        const target = options.target ?? 'all';
+        const inValues = target === 'all' || target === 'values';
+        const inAttribute = (key: string) => (
+            target === 'all' || target === 'attributes' || (typeof target === 'object' && target.attribute === key)
+        );
+
+        const replace = (text: string): { after: string; ranges: TextRange[] } | null => {
+            const ranges: TextRange[] = [];
+            for (const match of text.matchAll(pattern)) {
+                const start = match.index ?? 0;
+                if (match[0].length) ranges.push({ start, end: start + match[0].length });
+            }
+            // plain text is put in as it is, a regular expression may refer to its groups
+            const after = options.regex
+                ? text.replace(pattern, options.replacement)
+                : text.replace(pattern, () => options.replacement);
+            return after === text ? null : { after, ranges };
+        };
+
+        const out: Replacement[] = [];
+        codebook.walk(top, (node, sub) => {
+            const name = node.name || '';
+            if (element && ddic.baseName(name) !== element) return;
+            const path = scope.concat(sub);
+            if (inValues && node.value !== null && node.value !== undefined) {
+                const before = ddixml.textOf(node.value);
+                const changed = replace(before);
+                if (changed) out.push({ path, element: name, before, ...changed });
+            }
+            for (const [key, value] of Object.entries(node.attributes ?? {})) {
+                if (!inAttribute(key)) continue;
+                const before = ddixml.textOf(value);
+                const changed = replace(before);
+                if (changed) out.push({ path, element: name, attribute: key, before, ...changed });
+            }
+        });
+        return out;
+    },
+
+    edit: function(replacements) {
+        if (!replacements.length) return null;
+        const edits: TreeEdit[] = replacements.map((r) => (
+            r.attribute === undefined
+                ? { type: 'value', path: [...r.path], before: r.before, after: r.after }
+                : { type: 'attribute', path: [...r.path], key: r.attribute, before: r.before, after: r.after }
+        ));
+        return edits.length === 1 ? edits[0] : { type: 'group', edits };
+    },
+};
+
+export default findreplace;
@@ -0,0 +1,329 @@
+
+// Human readable codebook: a single self-contained HTML page (inline styles,
+// no scripts) with the study description, the file descriptions and every
+// variable, a table of contents and an anchor per variable.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { HtmlCodebook } from '../interfaces/htmlcodebook';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+
+// Attributes not worth showing next to a value
+const HIDDEN_ATTRIBUTES = ['ID', 'xmlang', 'xml:lang', 'xmlns', 'xmlns:xsi', 'xsi:schemaLocation', 'version'];
+
+// Variable content shown in dedicated tables, not in the generic description
+const VARIABLE_SPECIFIC = ['labl', 'catgry', 'sumStat', 'invalrng', 'qstn'];
+
+const STYLE = `
+body { font-family: "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2933; margin: 0 auto; max-width: 960px; padding: 24px; line-height: 1.45; }
+h1 { font-size: 1.8rem; margin: 0 0 8px 0; }
+h2 { font-size: 1.4rem; border-bottom: 2px solid #c5d0dc; padding-bottom: 4px; margin-top: 40px; }
+h3 { font-size: 1.15rem; margin: 24px 0 8px 0; }
+h4, h5, h6 { font-size: 1rem; margin: 16px 0 6px 0; color: #334358; }
+a { color: #1d5fa6; }
+.cover p { margin: 4px 0; color: #52606d; }
+.toc ol { padding-left: 20px; }
+.toc li { margin: 2px 0; }
+.toc .toc-label { color: #52606d; }
+dl.fields { display: grid; grid-template-columns: minmax(140px, 30%) 1fr; gap: 4px 16px; margin: 0 0 8px 0; }
+dl.fields dt { font-weight: 600; }
+dl.fields dd { margin: 0; white-space: pre-line; }
+.lang { font-size: 0.75rem; color: #52606d; border: 1px solid #c5d0dc; border-radius: 3px; padding: 0 3px; margin-left: 4px; }
+.attrs { font-size: 0.85rem; color: #52606d; }
+.variable { border: 1px solid #c5d0dc; border-radius: 6px; padding: 8px 16px 12px 16px; margin: 16px 0; break-inside: avoid; page-break-inside: avoid; }
+.variable h3 { margin-top: 8px; }
+.variable .var-name { font-family: Consolas, "Courier New", monospace; }
+table { border-collapse: collapse; margin: 8px 0; width: 100%; }
+th, td { border: 1px solid #c5d0dc; padding: 3px 8px; text-align: left; vertical-align: top; }
+th { background: #eef2f6; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+tr.missing td { color: #8a4b08; font-style: italic; }
+.back { font-size: 0.85rem; }
+footer { margin-top: 40px; font-size: 0.8rem; color: #52606d; }
+@media print { .back { display: none; } a { color: inherit; text-decoration: none; } }
+`;
+
+// Layout for paged output: vertical spacing only through paddings (margins
+// collapse differently around page breaks), variables as ruled blocks, and
+// the table of contents with page numbers (filled in by the PDF export)
+const PRINT_STYLE = `
+body * { margin-top: 0 !important; margin-bottom: 0 !important; }
+h2 { padding: 0 0 4px 0; margin-bottom: 12px; }
+h3 { padding: 14px 0 6px 0; }
+h4, h5, h6 { padding: 10px 0 4px 0; }
+p, dl.fields { padding-bottom: 6px; }
+.cover { display: flex; flex-direction: column; justify-content: center; text-align: center; }
+.cover h1 { font-size: 2.2rem; padding-bottom: 24px; }
+.toc > h2, section > h2 { margin-bottom: 0; }
+.toc ol { padding-top: 8px; }
+.toc-line { display: flex; align-items: baseline; gap: 6px; padding: 1px 0; }
+.toc-line .toc-label { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.toc-dots { flex: 1 1 auto; border-bottom: 1px dotted #9aa5b1; min-width: 16px; }
+.toc-page { flex: 0 0 3em; text-align: right; font-variant-numeric: tabular-nums; }
+.variable { border: none; border-top: 1px solid #c5d0dc; border-radius: 0; padding: 6px 0 10px 0; }
+.back { display: none; }
+.page-break { break-after: page; }
+@media print { .page-break { height: 0 !important; } }
+`;
+
+const escape = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const base = (node: NormNode) => ddic.baseName(String(node.name));
+
+export const htmlcodebook: HtmlCodebook = {
+    anchor: function(variable, used) {
+        const name = codebook.attr(variable, 'name') || codebook.attr(variable, 'ID') || 'variable';
+        const stem = `var-${name.replace(/[^A-Za-z0-9_.-]+/g, '_')}`;
+        let id = stem;
+        for (let i = 2; used?.has(id); i++) id = `${stem}-${i}`;
+        used?.add(id);
+        return id;
+    },
+
+    render: function(root, options) {
+        const { title, t } = options;
+        const print = options.print === true;
+        const html: string[] = [];
+
+        // one line of the table of contents, with a page number in print
+        const tocLine = (id: string, text: string, label = '') => [
+            '<span class="toc-line">',
+            `<a href="#${id}">${escape(text)}</a>`,
+            label ? ` <span class="toc-label">${escape(label)}</span>` : '',
+            print ? `<span class="toc-dots"></span><span class="toc-page" data-for="${id}">000</span>` : '',
+            '</span>',
+        ].join('');
+        // top level headings start a new page in print
+        const h2 = (text: string) => `<h2${print ? ' data-page-break="before"' : ''}>${escape(text)}</h2>`;
+
+        // DDI statistic codes (mean, medn, stdev...), translated when known
+        const statName = (type: string) => {
+            const key = `html.stat.${type}`;
+            const translated = t(key);
+            return translated === key ? type : translated;
+        };
+
+        const langBadge = (node: NormNode) => {
+            const lang = codebook.lang(node);
+            return lang ? `<span class="lang">${escape(lang)}</span>` : '';
+        };
+
+        const attributesOf = (node: NormNode, skip: string[] = []) => {
+            const parts = Object.entries(node.attributes ?? {})
+                .filter(([key, value]) => !HIDDEN_ATTRIBUTES.includes(key) && !skip.includes(key) && value !== null && value !== '')
+                .map(([key, value]) => `${escape(key)}: ${escape(String(value))}`);
+            return parts.length ? ` <span class="attrs">(${parts.join(', ')})</span>` : '';
+        };
+
+        // value of a leaf, dates are often only given as attribute
+        const valueOf = (node: NormNode) => {
+            const text = codebook.text(node);
+            const date = codebook.attr(node, 'date');
+            if (date && (!text || text === date)) return { text: date, skip: ['date'] };
+            return { text, skip: [] as string[] };
+        };
+
+        // Generic description of a subtree: containers become headings,
+        // consecutive leaves are grouped in a definition list
+        const describe = (node: NormNode, level: number, exclude: string[] = []) => {
+            const kids = codebook.children(node).filter((k) => !exclude.includes(base(k)));
+            let fields: string[] = [];
+            const flush = () => {
+                if (fields.length) html.push(`<dl class="fields">${fields.join('')}</dl>`);
+                fields = [];
+            };
+            for (const kid of kids) {
+                if (codebook.children(kid).length) {
+                    flush();
+                    const h = Math.min(level, 6);
+                    html.push(`<h${h}>${escape(title(base(kid)))}${langBadge(kid)}${attributesOf(kid)}</h${h}>`);
+                    const own = codebook.text(kid);
+                    if (own) html.push(`<p>${escape(own)}</p>`);
+                    describe(kid, level + 1);
+                } else {
+                    const { text, skip } = valueOf(kid);
+                    const attrs = attributesOf(kid, skip);
+                    if (!text && !attrs) continue;
+                    fields.push(`<dt>${escape(title(base(kid)))}${langBadge(kid)}</dt><dd>${escape(text)}${attrs}</dd>`);
+                }
+            }
+            flush();
+        };
+
+        const stdy = codebook.child(root, 'stdyDscr');
+        const citation = codebook.child(stdy, 'citation');
+        const titles = codebook.all(citation, 'titlStmt', 'titl').filter((n) => codebook.text(n));
+        const mainTitle = (titles.find((n) => codebook.lang(n) === options.lang) ?? titles[0]);
+        const pageTitle = mainTitle ? codebook.text(mainTitle) : t('html.untitled');
+        const files = codebook.children(root, 'fileDscr');
+        const variables = codebook.variables(root);
+
+        const used = new Set<string>();
+        const anchors = variables.map((v) => htmlcodebook.anchor(v, used));
+        const varName = (v: NormNode) => codebook.attr(v, 'name') || codebook.attr(v, 'ID') || '';
+        const varLabel = (v: NormNode) => {
+            const labels = codebook.children(v, 'labl').filter((n) => codebook.text(n));
+            const picked = labels.find((n) => codebook.lang(n) === options.lang) ?? labels[0];
+            return picked ? codebook.text(picked) : '';
+        };
+
+        html.push('<!DOCTYPE html>');
+        html.push(`<html lang="${escape(options.lang || codebook.lang(root) || 'en')}">`);
+        html.push('<head>');
+        html.push('<meta charset="utf-8">');
+        html.push('<meta name="viewport" content="width=device-width, initial-scale=1">');
+        html.push(`<title>${escape(pageTitle)}</title>`);
+        html.push(`<style>${STYLE}${print ? PRINT_STYLE : ''}</style>`);
+        html.push('</head>');
+        html.push('<body>');
+
+        // --- Cover
+        html.push('<header class="cover" id="top">');
+        html.push(`<h1>${escape(pageTitle)}</h1>`);
+        const authors = codebook.texts(citation, 'rspStmt', 'AuthEnty');
+        if (authors.length) html.push(`<p>${escape(authors.join('; '))}</p>`);
+        for (const id of codebook.texts(citation, 'titlStmt', 'IDNo')) html.push(`<p>${escape(id)}</p>`);
+        html.push('</header>');
+
+        // --- Table of contents
+        html.push('<nav class="toc">');
+        html.push(h2(t('html.contents')));
+        html.push('<ol>');
+        if (stdy) html.push(`<li>${tocLine('study', title('stdyDscr'))}</li>`);
+        if (files.length) html.push(`<li>${tocLine('files', title('fileDscr'))}</li>`);
+        if (variables.length) {
+            html.push(`<li>${tocLine('variables', title('dataDscr'))}`);
+            html.push('<ol>');
+            variables.forEach((v, idx) => {
+                html.push(`<li>${tocLine(anchors[idx], varName(v), varLabel(v))}</li>`);
+            });
+            html.push('</ol>');
+            html.push('</li>');
+        }
+        html.push('</ol>');
+        html.push('</nav>');
+
+        // --- Study description
+        if (stdy) {
+            html.push('<section id="study">');
+            html.push(h2(title('stdyDscr')));
+            describe(stdy, 3);
+            html.push('</section>');
+        }
+
+        // --- File descriptions
+        if (files.length) {
+            html.push('<section id="files">');
+            html.push(h2(title('fileDscr')));
+            files.forEach((file, idx) => {
+                const name = codebook.texts(file, 'fileTxt', 'fileName')[0] || codebook.attr(file, 'URI') || String(idx + 1);
+                const id = codebook.attr(file, 'ID');
+                html.push(`<h3${id ? ` id="file-${escape(id)}"` : ''}>${escape(name)}</h3>`);
+                describe(file, 4);
+            });
+            html.push('</section>');
+        }
+
+        // --- Variables
+        if (variables.length) {
+            html.push('<section id="variables">');
+            html.push(h2(title('dataDscr')));
+            variables.forEach((v, idx) => {
+                html.push(`<article class="variable" id="${anchors[idx]}">`);
+                const label = varLabel(v);
+                html.push(`<h3><span class="var-name">${escape(varName(v))}</span>${label ? ` &mdash; ${escape(label)}` : ''}</h3>`);
+
+                const fields: string[] = [];
+                for (const labl of codebook.children(v, 'labl').filter((n) => codebook.text(n))) {
+                    fields.push(`<dt>${escape(title('labl'))}${langBadge(labl)}</dt><dd>${escape(codebook.text(labl))}</dd>`);
+                }
+                for (const qstn of codebook.children(v, 'qstn')) {
+                    const own = codebook.text(qstn);
+                    if (own) fields.push(`<dt>${escape(title('qstn'))}${langBadge(qstn)}</dt><dd>${escape(own)}</dd>`);
+                    for (const part of codebook.children(qstn).filter((n) => codebook.text(n))) {
+                        fields.push(`<dt>${escape(title(base(part)))}${langBadge(part)}</dt><dd>${escape(codebook.text(part))}</dd>`);
+                    }
+                }
+                const attrs = Object.entries(v.attributes ?? {})
+                    .filter(([key]) => !['ID', 'name', 'xmlang'].includes(key))
+                    .map(([key, value]) => `${escape(key)}: ${escape(String(value))}`);
+                if (attrs.length) fields.push(`<dt>${escape(title('var'))}</dt><dd class="attrs">${attrs.join(', ')}</dd>`);
+                if (fields.length) html.push(`<dl class="fields">${fields.join('')}</dl>`);
+
+                // remaining content (universe, format, notes...)
+                describe(v, 4, VARIABLE_SPECIFIC);
+
+                // missing value ranges
+                for (const range of codebook.children(v, 'invalrng')) {
+                    const items = [
+                        ...codebook.children(range, 'item').map((n) => codebook.attr(n, 'VALUE') || ''),
+                        ...codebook.children(range, 'range').map((n) => {
+                            const min = codebook.attr(n, 'min') ?? codebook.attr(n, 'minExclusive') ?? '';
+                            const max = codebook.attr(n, 'max') ?? codebook.attr(n, 'maxExclusive') ?? '';
+                            return `${min} – ${max}`;
+                        }),
+                    ].filter(Boolean);
+                    if (items.length) {
+                        html.push(`<h4>${escape(title('invalrng'))}</h4>`);
+                        html.push(`<p>${escape(items.join('; '))}</p>`);
+                    }
+                }
+
+                // value labels, with frequencies and missing markers
+                const categories = codebook.children(v, 'catgry');
+                if (categories.length) {
+                    const withFreq = categories.some((c) => codebook.children(c, 'catStat').length);
+                    html.push(`<h4>${escape(title('catgry'))}</h4>`);
+                    html.push('<table class="categories"><thead><tr>');
+                    html.push(`<th>${escape(t('html.value'))}</th><th>${escape(t('html.label'))}</th>`);
+                    if (withFreq) html.push(`<th>${escape(t('html.frequency'))}</th>`);
+                    html.push('</tr></thead><tbody>');
+                    for (const cat of categories) {
+                        const missing = (codebook.attr(cat, 'missing') || '').toUpperCase() === 'Y';
+                        const labels = codebook.children(cat, 'labl').filter((n) => codebook.text(n));
+                        const labelCell = labels.map((n) => `${escape(codebook.text(n))}${langBadge(n)}`).join('<br>');
+                        html.push(`<tr${missing ? ' class="missing"' : ''}>`);
+                        html.push(`<td class="num">${escape(codebook.texts(cat, 'catValu')[0] ?? '')}</td>`);
+                        html.push(`<td>${labelCell}${missing ? ` <span class="attrs">(${escape(t('html.missing'))})</span>` : ''}</td>`);
+                        if (withFreq) {
+                            const freq = codebook.children(cat, 'catStat')
+                                .find((n) => (codebook.attr(n, 'type') || 'freq') === 'freq');
+                            html.push(`<td class="num">${escape(codebook.text(freq))}</td>`);
+                        }
+                        html.push('</tr>');
+                    }
+                    html.push('</tbody></table>');
+                }
+
+                // summary statistics
+                const stats = codebook.children(v, 'sumStat').filter((n) => codebook.text(n));
+                if (stats.length) {
+                    html.push(`<h4>${escape(title('sumStat'))}</h4>`);
+                    html.push('<table class="statistics"><tbody>');
+                    for (const stat of stats) {
+                        const type = codebook.attr(stat, 'type') || codebook.attr(stat, 'otherType') || '';
+                        html.push(`<tr><th>${escape(statName(type))}</th><td class="num">${escape(codebook.text(stat))}</td></tr>`);
+                    }
+                    html.push('</tbody></table>');
+                }
+
+                html.push(`<p class="back"><a href="#top">${escape(t('html.backtotop'))}</a></p>`);
+                html.push('</article>');
+            });
+            html.push('</section>');
+        }
+
+        const produced = codebook.all(root, 'docDscr', 'citation', 'prodStmt', 'prodDate')
+            .map((n) => codebook.attr(n, 'date') || codebook.text(n)).find(Boolean);
+        if (produced) html.push(`<footer>${escape(t('html.produced', { date: produced }))}</footer>`);
+        html.push('</body>');
+        html.push('</html>');
+        return html.join('\n') + '\n';
+    },
+};
+
+export default htmlcodebook;
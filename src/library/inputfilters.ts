@@ -50,7 +50,8 @@ export const inputfilters: InputFilters = {
       if (!element) return;
       inputfilters.setInputFilter(element, (value: string): boolean => {
         let v = String(value || '');
-        if (v === '') return true;
+        // a lone sign is the start of a number being typed
+        if (v === '' || v === '+' || v === '-') return true;
         if (!/^[+-]?\d+$/.test(v)) return false;
         if (/^[+-]0+$/.test(v)) {
           element!.value = '0';
@@ -67,8 +68,8 @@ export const inputfilters: InputFilters = {
       if (!element) return;
       inputfilters.setInputFilter(element, (value: string): boolean => {
         const v = String(value || '');
-        if (v === '') return true;
-        return /^[+]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$/.test(v);
+        if (v === '' || v === '+') return true;
+        return /^[+]?(?:\d+(?:\.\d*)?|\.\d*)(?:[eE][+-]?\d*)?$/.test(v);
       });
     });
   },
@@ -80,8 +81,8 @@ export const inputfilters: InputFilters = {
       if (!element) return;
       inputfilters.setInputFilter(element, (value: string): boolean => {
         const v = String(value || '');
-        if (v === '') return true;
-        return /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$/.test(v);
+        if (v === '' || v === '+' || v === '-') return true;
+        return /^[+-]?(?:\d+(?:\.\d*)?|\.\d*)(?:[eE][+-]?\d*)?$/.test(v);
       });
     });
   },
@@ -0,0 +1,133 @@
+
+// schema.org Dataset description (JSON-LD) of the loaded codebook, as used by
+// Google Dataset Search and other web crawlers.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { JsonLd, JsonLdObject } from '../interfaces/jsonld';
+import { codebook } from './codebook';
+
+const isUrl = (x: string) => /^https?:\/\//i.test(x);
+
+// DOIs and handles are better exposed as resolvable URLs
+const identifierUrl = (id: string): string => {
+    const doi = id.replace(/^doi:\s*/i, '').trim();
+    if (/^10\.\d{4,9}\//.test(doi)) return `https://doi.org/${doi}`;
+    return id;
+};
+
+// Pick the variant in the preferred language, else the first one
+const pick = (nodes: NormNode[], lang?: string): NormNode | undefined => {
+    const valued = nodes.filter((n) => codebook.text(n));
+    return valued.find((n) => lang && codebook.lang(n) === lang) ?? valued[0];
+};
+
+const compact = (obj: JsonLdObject): JsonLdObject => {
+    const out: JsonLdObject = {};
+    for (const [key, value] of Object.entries(obj)) {
+        if (value === undefined || value === null || value === '') continue;
+        if (Array.isArray(value) && value.length === 0) continue;
+        out[key] = Array.isArray(value) && value.length === 1 && key !== 'variableMeasured' ? value[0] : value;
+    }
+    return out;
+};
+
+const agent = (node: NormNode): JsonLdObject => {
+    const name = codebook.text(node);
+    const affiliation = codebook.attr(node, 'affiliation');
+    // DDI lists people as "Family, Given", organizations without a comma
+    const person = name.includes(',') || Boolean(affiliation);
+    return compact({
+        '@type': person ? 'Person' : 'Organization',
+        'name': name,
+        'affiliation': affiliation ? { '@type': 'Organization', 'name': affiliation } : undefined,
+    });
+};
+
+export const jsonld: JsonLd = {
+    build: function(root, options = {}) {
+        const lang = options.lang ?? codebook.lang(root);
+        const stdy = codebook.child(root, 'stdyDscr');
+        const citation = codebook.child(stdy, 'citation');
+        const stdyInfo = codebook.child(stdy, 'stdyInfo');
+        const sumDscr = codebook.child(stdyInfo, 'sumDscr');
+
+        const titles = codebook.all(citation, 'titlStmt', 'titl');
+        const title = pick(titles, lang);
+        const alternate = [
+            ...titles.filter((n) => n !== title),
+            ...codebook.all(citation, 'titlStmt', 'altTitl'),
+        ].map((n) => codebook.text(n)).filter(Boolean);
+
+        const identifiers = codebook.texts(citation, 'titlStmt', 'IDNo').map(identifierUrl);
+        const holdings = codebook.all(citation, 'holdings')
+            .map((n) => codebook.attr(n, 'URI') || '')
+            .filter(isUrl);
+
+        const keywords = [
+            ...codebook.texts(stdyInfo, 'subject', 'keyword'),
+            ...codebook.texts(stdyInfo, 'subject', 'topcClas'),
+        ];
+
+        // temporal coverage as an ISO 8601 interval when start and end are known
+        const dateOf = (n: NormNode) => codebook.attr(n, 'date') || codebook.text(n);
+        const periods = [...codebook.children(sumDscr, 'timePrd'), ...codebook.children(sumDscr, 'collDate')];
+        const start = periods.find((n) => codebook.attr(n, 'event') === 'start');
+        const end = periods.find((n) => codebook.attr(n, 'event') === 'end');
+        const single = periods.find((n) => codebook.attr(n, 'event') === 'single') ?? periods[0];
+        const temporal = (start && end)
+            ? `${dateOf(start)}/${dateOf(end)}`
+            : (start ? `${dateOf(start)}/..` : (single ? dateOf(single) : undefined));
+
+        const places = [
+            ...codebook.texts(sumDscr, 'nation'),
+            ...codebook.texts(sumDscr, 'geogCover'),
+        ].filter((name, idx, all) => all.indexOf(name) === idx);
+
+        // an explicit license URI, else the access conditions as text
+        const dataAccs = codebook.child(stdy, 'dataAccs');
+        const licenseUri = [
+            ...codebook.children(dataAccs, 'notes'),
+            ...codebook.all(dataAccs, 'useStmt', 'conditions'),
+            ...codebook.all(dataAccs, 'useStmt', 'restrctn'),
+        ].map((n) => codebook.attr(n, 'URI') || '').find(isUrl);
+        const conditions = codebook.texts(dataAccs, 'useStmt', 'conditions')[0];
+
+        const langs = new Set<string>();
+        codebook.walk(root, (n) => { const l = codebook.lang(n); if (l) langs.add(l); });
+
+        return compact({
+            '@context': 'https://schema.org/',
+            '@type': 'Dataset',
+            'name': title ? codebook.text(title) : undefined,
+            'alternateName': alternate,
+            'description': codebook.text(pick(codebook.children(stdyInfo, 'abstract'), lang)),
+            'identifier': identifiers,
+            'url': holdings[0] ?? identifiers.find(isUrl),
+            'sameAs': holdings.slice(1),
+            'creator': codebook.all(citation, 'rspStmt', 'AuthEnty').filter((n) => codebook.text(n)).map(agent),
+            'publisher': codebook.all(citation, 'distStmt', 'distrbtr').filter((n) => codebook.text(n)).map((n) => compact({
+                '@type': 'Organization',
+                'name': codebook.text(n),
+                'url': codebook.attr(n, 'URI'),
+            })),
+            'funder': codebook.texts(citation, 'prodStmt', 'fundAg').map((name) => ({ '@type': 'Organization', name })),
+            'datePublished': codebook.all(citation, 'distStmt', 'distDate').map(dateOf).find(Boolean),
+            'keywords': keywords,
+            'temporalCoverage': temporal,
+            'spatialCoverage': places.map((name) => ({ '@type': 'Place', name })),
+            'license': licenseUri ?? (conditions ? { '@type': 'CreativeWork', 'name': conditions } : undefined),
+            'inLanguage': [...langs],
+            'variableMeasured': codebook.variables(root).map((v) => compact({
+                '@type': 'PropertyValue',
+                'name': codebook.attr(v, 'name') || codebook.attr(v, 'ID'),
+                'description': codebook.text(pick(codebook.children(v, 'labl'), lang)),
+            })),
+        });
+    },
+
+    serialize: function(root, options) {
+        return JSON.stringify(jsonld.build(root, options), null, 2) + '\n';
+    },
+};
+
+export default jsonld;
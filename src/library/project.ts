@@ -0,0 +1,88 @@
+
+// MetadataPublisher project file: the normalized codebook together with the
+// editor state and the user notes, as gzipped JSON. It opens without R, and
+// keeps what a DDI XML file cannot (expanded nodes, selection, source data).
+
+import { gzip, ungzip } from 'pako';
+import type { Project, ProjectFile, ProjectProblemKind, TreeLabelMode } from '../interfaces/project';
+
+const FORMAT = 'metadata-publisher-project';
+const VERSION = 1;
+
+const LABEL_MODES: TreeLabelMode[] = ['name', 'title', 'both'];
+
+export class ProjectDecodeError extends Error {
+    public kind: ProjectProblemKind;
+    public vars: Record<string, string>;
+    constructor(kind: ProjectProblemKind, vars: Record<string, string> = {}) {
+        super(`project file: ${kind}`);
+        this.kind = kind;
+        this.vars = vars;
+        Object.setPrototypeOf(this, ProjectDecodeError.prototype);
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => (
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+);
+
+export const project: Project = {
+    extension: 'mpproj',
+
+    create: function(content) {
+        return {
+            format: FORMAT,
+            version: VERSION,
+            saved: new Date().toISOString(),
+            ...content,
+        };
+    },
+
+    encode: function(file) {
+        return gzip(JSON.stringify(file));
+    },
+
+    decode: function(data) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(ungzip(data, { to: 'string' }));
+        } catch {
+            throw new ProjectDecodeError('notproject');
+        }
+        if (!isObject(parsed) || parsed.format !== FORMAT) {
+            throw new ProjectDecodeError('notproject');
+        }
+        if (typeof parsed.version !== 'number' || parsed.version > VERSION) {
+            throw new ProjectDecodeError('version', { version: String(parsed.version) });
+        }
+        if (!isObject(parsed.codebook) || typeof parsed.codebook.name !== 'string') {
+            throw new ProjectDecodeError('nocodebook');
+        }
+
+        // older or hand edited files may lack parts of the editor state
+        const ui = isObject(parsed.ui) ? parsed.ui : {};
+        const source = isObject(parsed.source) && typeof parsed.source.path === 'string'
+            ? parsed.source as unknown as ProjectFile['source']
+            : null;
+        return {
+            format: FORMAT,
+            version: parsed.version,
+            saved: String(parsed.saved ?? ''),
+            codebook: parsed.codebook as unknown as ProjectFile['codebook'],
+            source,
+            xmlPath: typeof parsed.xmlPath === 'string' ? parsed.xmlPath : null,
+            ui: {
+                expanded: Array.isArray(ui.expanded) ? ui.expanded.map(String) : [],
+                selectedPath: Array.isArray(ui.selectedPath)
+                    ? ui.selectedPath.map(Number).filter((n) => Number.isInteger(n) && n >= 0)
+                    : [],
+                labelMode: LABEL_MODES.includes(ui.labelMode as TreeLabelMode)
+                    ? ui.labelMode as TreeLabelMode
+                    : 'both',
+            },
+            notes: typeof parsed.notes === 'string' ? parsed.notes : '',
+        };
+    },
+};
+
+export default project;
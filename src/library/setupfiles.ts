@@ -0,0 +1,310 @@
+
+// Setup files (SPSS syntax, Stata do-file, SAS program, R script) that apply
+// the variable labels, value labels and missing values of the codebook to a
+// data set read from raw ASCII or CSV data. What a language cannot express is
+// left out, and listed at the top of the script.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { SetupFiles, SetupLanguage } from '../interfaces/setupfiles';
+import type { VariableMetadata } from '../interfaces/variables';
+import { codebook } from './codebook';
+import { variables } from './variables';
+
+const EXTENSIONS: Record<SetupLanguage, string> = {
+    spss: 'sps',
+    stata: 'do',
+    sas: 'sas',
+    r: 'R',
+};
+
+// Extended missing value codes, in Stata (.a to .z) and SAS (.A to .Z)
+const MISSING_CODES = 'abcdefghijklmnopqrstuvwxyz'.split('');
+
+const isNumber = (value: string) => value.trim() !== '' && Number.isFinite(Number(value));
+const isInteger = (value: string) => isNumber(value) && Number.isInteger(Number(value));
+
+const isCharacter = (v: VariableMetadata) => (
+    v.type === 'character'
+    || v.labels.some((l) => !isNumber(l.value))
+    || v.missing.some((m) => !isNumber(m))
+);
+
+// Missing values, in the order they are written: the discrete ones first,
+// then the labelled values inside the range, so they keep their own label
+const missingValues = (v: VariableMetadata): string[] => {
+    const values = [...v.missing];
+    if (v.missingRange) {
+        const [min, max] = v.missingRange;
+        for (const { value } of v.labels) {
+            const x = Number(value);
+            const inRange = (min === '' || x >= Number(min)) && (max === '' || x <= Number(max));
+            if (isNumber(value) && inRange && !values.includes(value)) values.push(value);
+        }
+    }
+    return values;
+};
+
+const header = (root: NormNode, comment: (line: string) => string, warnings: string[], intro: string[]) => {
+    const title = codebook.texts(codebook.child(root, 'stdyDscr'), 'citation', 'titlStmt', 'titl')[0]
+        || codebook.attr(root, 'ID')
+        || '';
+    const lines = [
+        title ? `Setup file for: ${title}` : 'Setup file',
+        ...intro,
+    ];
+    if (warnings.length) {
+        lines.push('', 'Not written:', ...warnings.map((w) => `  ${w}`));
+    }
+    return lines.map((line) => comment(line).trimEnd()).join('\n') + '\n';
+};
+
+// --- SPSS
+
+const spss = (root: NormNode, vars: VariableMetadata[]) => {
+    const warnings: string[] = [];
+    const quote = (text: string) => `'${text.replace(/'/g, "''")}'`;
+    const sections: string[] = [];
+
+    const labelled = vars.filter((v) => v.label);
+    if (labelled.length) {
+        sections.push('VARIABLE LABELS\n' + labelled
+            .map((v, idx) => `  ${idx ? '/' : ''}${v.name} ${quote(v.label)}`)
+            .join('\n') + '.');
+    }
+
+    const withLabels = vars.filter((v) => v.labels.length);
+    if (withLabels.length) {
+        sections.push('VALUE LABELS\n' + withLabels.map((v, idx) => {
+            const value = (x: string) => (isCharacter(v) ? quote(x) : x);
+            return [
+                `  ${idx ? '/' : ''}${v.name}`,
+                ...v.labels.map((l) => `    ${value(l.value)} ${quote(l.label)}`),
+            ].join('\n');
+        }).join('\n') + '.');
+    }
+
+    // at most three discrete values, or one range and one discrete value
+    const missing: string[] = [];
+    for (const v of vars) {
+        const character = isCharacter(v);
+        const items: string[] = [];
+        let discrete = v.missing.map((m) => (character ? quote(m) : m));
+        if (v.missingRange && character) {
+            warnings.push(`${v.name}: missing range of a string variable`);
+        } else if (v.missingRange) {
+            const [min, max] = v.missingRange;
+            items.push(`${min || 'LO'} THRU ${max || 'HI'}`);
+            // the values inside the range need no declaration of their own
+            discrete = discrete.filter((m) => (
+                (min !== '' && Number(m) < Number(min)) || (max !== '' && Number(m) > Number(max))
+            ));
+            if (discrete.length > 1) {
+                warnings.push(`${v.name}: missing values ${discrete.slice(1).join(', ')} (a range allows one more value)`);
+            }
+            discrete = discrete.slice(0, 1);
+        } else if (discrete.length > 3) {
+            warnings.push(`${v.name}: missing values ${v.missing.slice(3).join(', ')} (at most three are allowed)`);
+            discrete = discrete.slice(0, 3);
+        }
+        items.push(...discrete);
+        if (items.length) missing.push(`  ${missing.length ? '/' : ''}${v.name} (${items.join(', ')})`);
+    }
+    if (missing.length) sections.push('MISSING VALUES\n' + missing.join('\n') + '.');
+
+    sections.push('EXECUTE.');
+    const intro = ['Run it on the active dataset, after reading the data.'];
+    const comment = (line: string) => `* ${line}`;
+    // SPSS comments end with a period, added when the last line has none
+    const top = header(root, comment, warnings, intro).replace(/([^.])\n$/, '$1.\n');
+    return { script: `${top}\n${sections.join('\n\n')}\n`, warnings };
+};
+
+// --- Stata
+
+const stata = (root: NormNode, vars: VariableMetadata[]) => {
+    const warnings: string[] = [];
+    // compound double quotes when the text has double quotes itself
+    const quote = (text: string) => (text.includes('"') ? `\`"${text}"'` : `"${text}"`);
+    const lines: string[] = [];
+
+    for (const v of vars) {
+        if (v.label) lines.push(`label variable ${v.name} ${quote(v.label)}`);
+    }
+
+    for (const v of vars) {
+        if (isCharacter(v)) {
+            if (v.labels.length) warnings.push(`${v.name}: value labels of a string variable`);
+            if (v.missing.length || v.missingRange) warnings.push(`${v.name}: missing values of a string variable`);
+            continue;
+        }
+
+        const codes = new Map<string, string>();
+        const rules: string[] = [];
+        const next = () => `.${MISSING_CODES[rules.length]}`;
+        for (const value of missingValues(v)) {
+            if (rules.length >= MISSING_CODES.length) break;
+            const code = next();
+            codes.set(value, code);
+            rules.push(`${value} = ${code}`);
+        }
+        if (v.missingRange) {
+            const [min, max] = v.missingRange;
+            if (!min || !max) {
+                warnings.push(`${v.name}: open missing range ${min || '...'} to ${max || '...'}`);
+            } else if (!isInteger(min) || !isInteger(max)) {
+                warnings.push(`${v.name}: missing range ${min} to ${max} (not integers)`);
+            } else if (rules.length < MISSING_CODES.length) {
+                rules.push(`${min}/${max} = ${next()}`);
+            }
+        }
+        if (rules.length) lines.push(`mvdecode ${v.name}, mv(${rules.join(' \\ ')})`);
+
+        const pairs = v.labels.filter((l) => {
+            if (codes.has(l.value) || isInteger(l.value)) return true;
+            warnings.push(`${v.name}: value label of ${l.value} (not an integer)`);
+            return false;
+        });
+        if (pairs.length) {
+            lines.push(
+                `label define ${v.name} ${pairs.map((l) => `${codes.get(l.value) ?? l.value} ${quote(l.label)}`).join(' ')}, replace`,
+                `label values ${v.name} ${v.name}`
+            );
+        }
+    }
+
+    const intro = [
+        'Run it on the data in memory, after reading the data.',
+        'Missing values are recoded to extended missing values (.a, .b, ...).',
+    ];
+    return { script: `${header(root, (line) => `* ${line}`, warnings, intro)}\n${lines.join('\n')}\n`, warnings };
+};
+
+// --- SAS
+
+const sas = (root: NormNode, vars: VariableMetadata[]) => {
+    const warnings: string[] = [];
+    const quote = (text: string) => `'${text.replace(/'/g, "''")}'`;
+    const usedFormats = new Set<string>();
+
+    // at most 32 characters, and not ending with a digit
+    const formatName = (v: VariableMetadata, character: boolean) => {
+        const base = `${character ? '$' : ''}${v.name.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 28)}f`;
+        let name = base;
+        for (let i = 0; usedFormats.has(name.toLowerCase()); i++) name = `${base}${MISSING_CODES[i % 26]}`;
+        usedFormats.add(name.toLowerCase());
+        return name;
+    };
+
+    const formats: string[] = [];
+    const assigned: string[] = [];
+    const recodes: string[] = [];
+
+    for (const v of vars) {
+        const character = isCharacter(v);
+        const codes = new Map<string, string>();
+
+        if (character) {
+            if (v.missing.length || v.missingRange) warnings.push(`${v.name}: missing values of a string variable`);
+        } else {
+            const conditions: string[] = [];
+            for (const value of missingValues(v).slice(0, MISSING_CODES.length)) {
+                const code = `.${MISSING_CODES[codes.size].toUpperCase()}`;
+                codes.set(value, code);
+                conditions.push(`${v.name} = ${value} THEN ${v.name} = ${code};`);
+            }
+            if (v.missingRange && codes.size < MISSING_CODES.length) {
+                const [min, max] = v.missingRange;
+                const code = `.${MISSING_CODES[codes.size].toUpperCase()}`;
+                const test = min && max
+                    ? `${min} <= ${v.name} <= ${max}`
+                    : `NOT MISSING(${v.name}) AND ${v.name} ${min ? `>= ${min}` : `<= ${max}`}`;
+                conditions.push(`${test} THEN ${v.name} = ${code};`);
+            }
+            recodes.push(...conditions.map((c, idx) => `    ${idx ? 'ELSE IF' : 'IF'} ${c}`));
+        }
+
+        if (v.labels.length) {
+            const name = formatName(v, character);
+            const value = (x: string) => (character ? quote(x) : codes.get(x) ?? x);
+            formats.push([
+                `    VALUE ${name}`,
+                ...v.labels.map((l) => `        ${value(l.value)} = ${quote(l.label)}`),
+                '    ;',
+            ].join('\n'));
+            assigned.push(`        ${v.name} ${name}.`);
+        }
+    }
+
+    const labels = vars.filter((v) => v.label).map((v) => `        ${v.name} = ${quote(v.label)}`);
+    const sections: string[] = [];
+    if (formats.length) sections.push(['PROC FORMAT;', ...formats, 'RUN;'].join('\n'));
+    sections.push([
+        'DATA work.dataset;',
+        '    SET work.dataset;',
+        ...recodes,
+        ...(labels.length ? ['    LABEL', ...labels, '    ;'] : []),
+        ...(assigned.length ? ['    FORMAT', ...assigned, '    ;'] : []),
+        'RUN;',
+    ].join('\n'));
+
+    const intro = [
+        'Read the data into WORK.DATASET first, or change the data set name below.',
+        'Missing values are recoded to special missing values (.A, .B, ...).',
+    ];
+    const comment = (line: string) => `* ${line.replace(/;/g, ',')};`;
+    return { script: `${header(root, comment, warnings, intro)}\n${sections.join('\n\n')}\n`, warnings };
+};
+
+// --- R
+
+const rscript = (root: NormNode, vars: VariableMetadata[]) => {
+    const warnings: string[] = [];
+    const quote = (text: string) => JSON.stringify(text);
+    const column = (name: string) => (
+        /^[A-Za-z.][A-Za-z0-9._]*$/.test(name) ? `data$${name}` : `data[[${quote(name)}]]`
+    );
+
+    const blocks = vars
+        .filter((v) => v.label || v.labels.length || v.missing.length || v.missingRange)
+        .map((v) => {
+            const value = (x: string) => (isCharacter(v) ? quote(x) : x);
+            const args = [column(v.name)];
+            if (v.label) args.push(`label = ${quote(v.label)}`);
+            if (v.labels.length) {
+                args.push(`labels = c(${v.labels.map((l) => `${quote(l.label)} = ${value(l.value)}`).join(', ')})`);
+            }
+            if (v.missing.length) args.push(`na_values = c(${v.missing.map(value).join(', ')})`);
+            if (v.missingRange && isCharacter(v)) {
+                warnings.push(`${v.name}: missing range of a string variable`);
+            } else if (v.missingRange) {
+                const [min, max] = v.missingRange;
+                args.push(`na_range = c(${min || '-Inf'}, ${max || 'Inf'})`);
+            }
+            return `${column(v.name)} <- declared(\n    ${args.join(',\n    ')}\n)`;
+        });
+
+    const intro = [
+        'Run it after reading the data into a data frame called "data".',
+        'The declared objects convert to haven_labelled_spss with: data <- as.haven(data)',
+    ];
+    return {
+        script: `${header(root, (line) => `# ${line}`, warnings, intro)}\nlibrary(declared)\n\n${blocks.join('\n\n')}\n`,
+        warnings,
+    };
+};
+
+const GENERATORS = { spss, stata, sas, r: rscript };
+
+export const setupfiles: SetupFiles = {
+    languages: ['spss', 'stata', 'sas', 'r'],
+
+    extension: function(language) {
+        return EXTENSIONS[language];
+    },
+
+    generate: function(root, language, options = {}) {
+        return GENERATORS[language](root, variables.all(root, options.lang));
+    },
+};
+
+export default setupfiles;
@@ -0,0 +1,167 @@
+
+// Flat, one row per variable, layout of the variable level metadata for
+// editing in a spreadsheet. Value labels are written as "1 = Yes | 2 = No",
+// missing values as "-9, -8" and a missing range as "-9 .. -1" (a bound left
+// empty is open).
+
+import type { Spreadsheet, SpreadsheetProblem } from '../interfaces/spreadsheet';
+import type { ValueLabel, VariableUpdate } from '../interfaces/variables';
+
+const COLUMNS = [
+    'name', 'label', 'type', 'measurement', 'question', 'universe',
+    'value_labels', 'missing_values', 'missing_range',
+];
+
+const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    return String(value).trim();
+};
+
+const formatLabels = (labels: ValueLabel[]) => labels.map((l) => `${l.value} = ${l.label}`).join(' | ');
+
+const parseLabels = (text: string, problems: SpreadsheetProblem[], row: string): ValueLabel[] => {
+    const out: ValueLabel[] = [];
+    for (const part of text.split(/\s*(?:\||\r?\n)\s*/)) {
+        if (!part) continue;
+        const eq = part.indexOf('=');
+        if (eq < 1) {
+            problems.push({ kind: 'labels', vars: { row, part } });
+            continue;
+        }
+        out.push({ value: part.slice(0, eq).trim(), label: part.slice(eq + 1).trim() });
+    }
+    return out;
+};
+
+export const spreadsheet: Spreadsheet = {
+    columns: COLUMNS,
+
+    toRows: function(variables) {
+        return [
+            [...COLUMNS],
+            ...variables.map((v) => [
+                v.name,
+                v.label,
+                v.type,
+                v.measurement,
+                v.question,
+                v.universe,
+                formatLabels(v.labels),
+                v.missing.join(', '),
+                v.missingRange ? `${v.missingRange[0]} .. ${v.missingRange[1]}`.trim() : '',
+            ]),
+        ];
+    },
+
+    fromRows: function(rows) {
+        const problems: SpreadsheetProblem[] = [];
+        const variables: VariableUpdate[] = [];
+        if (!rows.length) {
+            return { variables, problems: [{ kind: 'empty', vars: {} }] };
+        }
+
+        // columns are found by their header, absent columns are not changed
+        const header = rows[0].map((h) => cell(h).toLowerCase().replace(/\s+/g, '_'));
+        const col = (name: string) => header.indexOf(name);
+        if (col('name') < 0) {
+            return { variables, problems: [{ kind: 'no-name-column', vars: {} }] };
+        }
+
+        const seen = new Set<string>();
+        rows.slice(1).forEach((row, idx) => {
+            const where = String(idx + 2);
+            const get = (name: string) => (col(name) < 0 ? undefined : cell(row[col(name)]));
+            const name = get('name');
+            if (!name) {
+                if (row.some((c) => cell(c))) problems.push({ kind: 'no-name', vars: { row: where } });
+                return;
+            }
+            if (seen.has(name)) {
+                problems.push({ kind: 'repeated', vars: { row: where, name } });
+                return;
+            }
+            seen.add(name);
+
+            const update: VariableUpdate = { name };
+            const text = (key: 'label' | 'type' | 'measurement' | 'question' | 'universe') => {
+                const value = get(key);
+                if (value !== undefined) update[key] = value;
+            };
+            text('label');
+            text('type');
+            text('measurement');
+            text('question');
+            text('universe');
+
+            const labels = get('value_labels');
+            if (labels !== undefined) update.labels = parseLabels(labels, problems, where);
+
+            const missing = get('missing_values');
+            if (missing !== undefined) {
+                update.missing = missing.split(/\s*[,;]\s*/).filter(Boolean);
+            }
+
+            const range = get('missing_range');
+            if (range !== undefined) {
+                const match = range.match(/^(.*?)\s*\.\.\s*(.*)$/);
+                if (range && !match) problems.push({ kind: 'range', vars: { row: where, range } });
+                update.missingRange = match && (match[1] || match[2]) ? [match[1].trim(), match[2].trim()] : null;
+            }
+
+            variables.push(update);
+        });
+
+        return { variables, problems };
+    },
+
+    toCSV: function(rows) {
+        const quote = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+        // the byte order mark makes Excel read the file as UTF-8
+        return '\uFEFF' + rows.map((row) => row.map(quote).join(',')).join('\r\n') + '\r\n';
+    },
+
+    parseCSV: function(text) {
+        const source = text.replace(/^\uFEFF/, '');
+        // Excel writes ";" separated files in locales with a decimal comma
+        const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+        const delimiter = (firstLine.split(';').length > firstLine.split(',').length) ? ';' : ',';
+
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let value = '';
+        let quoted = false;
+        for (let i = 0; i < source.length; i++) {
+            const ch = source[i];
+            if (quoted) {
+                if (ch === '"' && source[i + 1] === '"') {
+                    value += '"';
+                    i++;
+                } else if (ch === '"') {
+                    quoted = false;
+                } else {
+                    value += ch;
+                }
+            } else if (ch === '"') {
+                quoted = true;
+            } else if (ch === delimiter) {
+                row.push(value);
+                value = '';
+            } else if (ch === '\n' || ch === '\r') {
+                if (ch === '\r' && source[i + 1] === '\n') i++;
+                row.push(value);
+                rows.push(row);
+                row = [];
+                value = '';
+            } else {
+                value += ch;
+            }
+        }
+        if (value || row.length) {
+            row.push(value);
+            rows.push(row);
+        }
+        return rows.filter((r) => r.some((c) => c.trim()));
+    },
+};
+
+export default spreadsheet;
@@ -0,0 +1,102 @@
+// Language variants of the codebook elements, for the multilingual editor.
+// DDI repeats an element once per language (titl, abstract, labl...), the
+// variants are told apart only by their xml:lang attribute.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { MissingTranslation, TranslationGroup, Translations } from '../interfaces/translations';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+
+const LANG_KEYS = ['xml:lang', 'xmlang'];
+
+// elements the DDI allows once, with a sibling made for their translations
+const PARALLEL: Record<string, string> = {
+    titl: 'parTitl',
+};
+
+export const translations: Translations = {
+    languages: function(root) {
+        const counts = new Map<string, number>();
+        codebook.walk(root, (node) => {
+            const lang = codebook.lang(node);
+            if (lang) counts.set(lang, (counts.get(lang) ?? 0) + 1);
+        });
+        return [...counts.entries()]
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .map(([lang]) => lang);
+    },
+
+    groups: function(parent) {
+        const groups = new Map<string, TranslationGroup>();
+        const seen = new Map<string, number>();
+        (parent.children ?? []).forEach((child, index) => {
+            const lang = codebook.lang(child);
+            if (!lang) return;
+            const name = ddic.baseName(String(child.name));
+            const occurrence = seen.get(`${name} ${lang}`) ?? 0;
+            seen.set(`${name} ${lang}`, occurrence + 1);
+            const key = `${name} ${occurrence}`;
+            const group = groups.get(key) ?? { name, variants: {} };
+            group.variants[lang] = index;
+            groups.set(key, group);
+        });
+        // the variants of a parallel element go with the element they translate
+        for (const [name, parallel] of Object.entries(PARALLEL)) {
+            const main = groups.get(`${name} 0`);
+            if (!main) continue;
+            for (const [key, group] of groups) {
+                if (group.name !== parallel) continue;
+                for (const [lang, index] of Object.entries(group.variants)) {
+                    if (main.variants[lang] === undefined) main.variants[lang] = index;
+                }
+                groups.delete(key);
+            }
+        }
+        // in the order of their first variant
+        return [...groups.values()].sort((a, b) => (
+            Math.min(...Object.values(a.variants)) - Math.min(...Object.values(b.variants))
+        ));
+    },
+
+    missing: function(root, lang, elements) {
+        const out: MissingTranslation[] = [];
+        codebook.walk(root, (node, path) => {
+            for (const group of translations.groups(node)) {
+                if (group.variants[lang] !== undefined) continue;
+                // nothing to offer for an element the DDI allows once, without a parallel one
+                const target = translations.target(group.name, elements);
+                if (!target) continue;
+                out.push({
+                    path: [...path, Math.min(...Object.values(group.variants))],
+                    element: group.name,
+                    languages: Object.keys(group.variants),
+                    target,
+                });
+            }
+        });
+        return out;
+    },
+
+    target: function(name, elements) {
+        const base = ddic.baseName(name);
+        if (ddic.repeatable(elements, base)) return base;
+        return PARALLEL[base] ?? null;
+    },
+
+    variant: function(node, lang) {
+        const copy = codebook.clone(node);
+        const empty = (n: NormNode) => {
+            if (n.attributes && typeof n.attributes === 'object') {
+                delete n.attributes.ID;
+                const key = LANG_KEYS.find((k) => n.attributes?.[k] !== undefined);
+                if (key) n.attributes[key] = lang;
+            }
+            if (n.value !== undefined && n.value !== null) n.value = '';
+            (n.children ?? []).forEach(empty);
+        };
+        empty(copy);
+        return copy;
+    },
+};
+
+export default translations;
@@ -0,0 +1,133 @@
+// Copy and paste of whole subtrees. The clipboard holds the subtree both as a
+// DDI XML fragment, to paste in any editor, and as the normalized JSON node.
+// Pasting checks the DDIC parent / child rules at the place it goes to.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { PastePlacement, TreeClipboard } from '../interfaces/treeclipboard';
+import type { ValidationKind } from '../interfaces/validation';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+import { ddixml } from './ddixml';
+import { validation } from './validation';
+import { xmlparser } from './xmlparser';
+
+// problems inside the pasted subtree that make it unusable anywhere
+const STRUCTURAL: ValidationKind[] = ['not-allowed', 'too-many'];
+
+// JSON from elsewhere, in the shape of a normalized node; values become text
+const toNode = (value: unknown): NormNode | null => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    const raw = value as Record<string, unknown>;
+    if (typeof raw.name !== 'string' || !raw.name) return null;
+    const node: NormNode = { name: raw.name };
+    if (raw.value !== undefined && raw.value !== null) node.value = ddixml.textOf(raw.value);
+    if (raw.attributes && typeof raw.attributes === 'object' && !Array.isArray(raw.attributes)) {
+        node.attributes = {};
+        for (const [key, attr] of Object.entries(raw.attributes as Record<string, unknown>)) {
+            node.attributes[key] = ddixml.textOf(attr);
+        }
+    }
+    if (Array.isArray(raw.children)) {
+        const children = raw.children.map(toNode);
+        if (children.some((child) => !child)) return null;
+        node.children = children as NormNode[];
+    }
+    return node;
+};
+
+export const treeclipboard: TreeClipboard = {
+    jsonType: 'application/json',
+
+    encode: function(node) {
+        return {
+            xml: ddixml.serialize(node, { declaration: false, rootDefaults: false }),
+            json: JSON.stringify(node, null, 2),
+        };
+    },
+
+    decode: function(text) {
+        const trimmed = String(text ?? '').trim();
+        if (!trimmed) return { error: 'empty', message: '' };
+        if (trimmed.startsWith('{')) {
+            try {
+                const node = toNode(JSON.parse(trimmed));
+                return node ? { node } : { error: 'json', message: 'no element name' };
+            } catch (e) {
+                return { error: 'json', message: (e as Error).message };
+            }
+        }
+        const parsed = xmlparser.parse(trimmed);
+        if (!parsed.root) {
+            const { message = '', line = 1, column = 1 } = parsed.error ?? {};
+            return { error: 'xml', message: `${message} (${line}:${column})` };
+        }
+        return { node: ddixml.fromXml(parsed.root) };
+    },
+
+    place: function(root, selection, node, elements) {
+        const name = ddic.baseName(node.name);
+        const problem = (kind: ValidationKind, parent: string): PastePlacement => ({
+            problem: { kind, severity: 'error', path: selection, element: name, vars: { element: name, parent } },
+        });
+        if (!ddic.entry(elements, name)) return problem('unknown-element', '');
+
+        const inside = validation.check(node, elements).find((p) => STRUCTURAL.includes(p.kind));
+        if (inside) return { problem: inside };
+
+        const nodeAt = (path: number[]): NormNode | undefined => (
+            path.reduce<NormNode | undefined>((n, i) => n?.children?.[i], root)
+        );
+        const selected = nodeAt(selection);
+        if (!selected) return problem('not-allowed', '');
+
+        // room for one more of the pasted element under a parent
+        const accepts = (parent: NormNode): ValidationKind | null => {
+            const parentName = ddic.baseName(parent.name);
+            if (!ddic.childrenOf(elements, parentName).includes(name)) return 'not-allowed';
+            const present = (parent.children ?? []).some((child) => ddic.baseName(child.name) === name);
+            return present && !ddic.repeatable(elements, name) ? 'too-many' : null;
+        };
+
+        const asChild = accepts(selected);
+        if (!asChild) {
+            const order = ddic.childrenOf(elements, ddic.baseName(selected.name));
+            return { path: [...selection, codebook.insertionIndex(selected, name, order)] };
+        }
+
+        const parent = selection.length ? nodeAt(selection.slice(0, -1)) : undefined;
+        if (!parent) return problem(asChild, ddic.baseName(selected.name));
+        const asSibling = accepts(parent);
+        if (!asSibling) {
+            const index = selection[selection.length - 1];
+            // next to a copy of itself, otherwise at its place in the schema order
+            const at = ddic.baseName(selected.name) === name
+                ? index + 1
+                : codebook.insertionIndex(parent, name, ddic.childrenOf(elements, ddic.baseName(parent.name)));
+            return { path: [...selection.slice(0, -1), at] };
+        }
+        // an element the selected node takes, but not one more of
+        return asChild === 'too-many'
+            ? problem(asChild, ddic.baseName(selected.name))
+            : problem(asSibling, ddic.baseName(parent.name));
+    },
+
+    uniqueIds: function(root, node) {
+        const used = new Set<string>();
+        codebook.walk(root, (n) => {
+            const id = codebook.attr(n, 'ID');
+            if (id) used.add(id);
+        });
+        const copy = codebook.clone(node);
+        codebook.walk(copy, (n) => {
+            const id = codebook.attr(n, 'ID');
+            if (!id || !n.attributes) return;
+            let fresh = id;
+            for (let i = 2; used.has(fresh); i++) fresh = `${id}_${i}`;
+            n.attributes.ID = fresh;
+            used.add(fresh);
+        });
+        return copy;
+    },
+};
+
+export default treeclipboard;
@@ -0,0 +1,159 @@
+
+// Command based undo / redo for the codebook tree. Every structural or text
+// change is applied through an edit that knows how to revert itself, so that
+// the history works on the tree and not on the focused text field.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { HistoryStep, TreeEdit, TreeHistory, TreePath } from '../interfaces/treehistory';
+
+// every step keeps the generation of the tree before and after it; generations
+// only grow, so a state dropped from the history is never matched again
+interface Step extends HistoryStep {
+    from: number;
+    to: number;
+}
+
+const done: Step[] = [];
+const undone: Step[] = [];
+
+let lastGeneration = 0;
+let generation = 0;
+// generation of the tree when it was saved, 0 for the tree as loaded
+let savedGeneration = 0;
+
+const nodeAt = (root: NormNode, path: TreePath): NormNode => {
+    let node = root;
+    for (const idx of path) {
+        const child = node.children?.[idx];
+        if (!child) throw new Error(`No tree node at ${path.join('.')}`);
+        node = child;
+    }
+    return node;
+};
+
+const parentAt = (root: NormNode, path: TreePath): { parent: NormNode; index: number } => {
+    if (!path.length) throw new Error('The root has no parent');
+    const parent = nodeAt(root, path.slice(0, -1));
+    parent.children = Array.isArray(parent.children) ? parent.children : [];
+    return { parent, index: path[path.length - 1] };
+};
+
+export const treehistory: TreeHistory = {
+    limit: 500,
+
+    apply: function(root, edit) {
+        switch (edit.type) {
+            case 'value': {
+                const node = nodeAt(root, edit.path);
+                if (edit.after === undefined) delete node.value;
+                else node.value = edit.after;
+                return root;
+            }
+            case 'attribute': {
+                const node = nodeAt(root, edit.path);
+                if (edit.after === undefined) {
+                    if (node.attributes) delete node.attributes[edit.key];
+                } else {
+                    node.attributes = node.attributes ?? {};
+                    node.attributes[edit.key] = edit.after;
+                }
+                return root;
+            }
+            case 'insert': {
+                const { parent, index } = parentAt(root, edit.path);
+                parent.children?.splice(index, 0, edit.node);
+                return root;
+            }
+            case 'remove': {
+                const { parent, index } = parentAt(root, edit.path);
+                parent.children?.splice(index, 1);
+                return root;
+            }
+            case 'swap': {
+                const children = nodeAt(root, edit.path).children ?? [];
+                [children[edit.a], children[edit.b]] = [children[edit.b], children[edit.a]];
+                return root;
+            }
+            case 'replace': {
+                if (!edit.path.length) return edit.after;
+                const { parent, index } = parentAt(root, edit.path);
+                (parent.children as NormNode[])[index] = edit.after;
+                return root;
+            }
+            case 'group':
+                return edit.edits.reduce((current, item) => treehistory.apply(current, item), root);
+        }
+    },
+
+    invert: function(edit) {
+        switch (edit.type) {
+            case 'value':
+            case 'attribute':
+            case 'replace':
+                return { ...edit, before: edit.after, after: edit.before } as TreeEdit;
+            case 'insert':
+                return { ...edit, type: 'remove' };
+            case 'remove':
+                return { ...edit, type: 'insert' };
+            case 'swap':
+                return edit;
+            case 'group':
+                return { type: 'group', edits: edit.edits.map((item) => treehistory.invert(item)).reverse() };
+        }
+    },
+
+    execute: function(root, edit, selection) {
+        const result = treehistory.apply(root, edit);
+        const from = generation;
+        generation = ++lastGeneration;
+        done.push({ edit, selectionBefore: [...selection.before], selectionAfter: [...selection.after], from, to: generation });
+        if (done.length > treehistory.limit) done.splice(0, done.length - treehistory.limit);
+        undone.length = 0;
+        return result;
+    },
+
+    undo: function(root) {
+        const step = done.pop();
+        if (!step) return null;
+        undone.push(step);
+        generation = step.from;
+        return { root: treehistory.apply(root, treehistory.invert(step.edit)), selection: [...step.selectionBefore] };
+    },
+
+    redo: function(root) {
+        const step = undone.pop();
+        if (!step) return null;
+        done.push(step);
+        generation = step.to;
+        return { root: treehistory.apply(root, step.edit), selection: [...step.selectionAfter] };
+    },
+
+    canUndo: function() {
+        return done.length > 0;
+    },
+
+    canRedo: function() {
+        return undone.length > 0;
+    },
+
+    clear: function() {
+        done.length = 0;
+        undone.length = 0;
+        generation = ++lastGeneration;
+        savedGeneration = generation;
+    },
+
+    position: function() {
+        return generation;
+    },
+
+    markSaved: function(position = generation) {
+        savedGeneration = position;
+    },
+
+    isDirty: function() {
+        return generation !== savedGeneration;
+    },
+};
+
+export default treehistory;
@@ -0,0 +1,96 @@
+// Moves of a node in the codebook tree, by drag and drop or from the keyboard.
+// A node can go under any parent the DDIC allows it in, and among its new
+// siblings only where the DDIC sequence of that parent keeps its order.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { TreeMoves } from '../interfaces/treemoves';
+import type { TreePath } from '../interfaces/treehistory';
+import type { ValidationKind } from '../interfaces/validation';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+
+const nodeAt = (root: NormNode, path: TreePath): NormNode | undefined => (
+    path.reduce<NormNode | undefined>((n, i) => n?.children?.[i], root)
+);
+
+const startsWith = (path: TreePath, prefix: TreePath): boolean => (
+    prefix.length <= path.length && prefix.every((v, i) => path[i] === v)
+);
+
+export const treemoves: TreeMoves = {
+    target: function(root, from, over, position, elements) {
+        if (position === 'inside') {
+            const node = nodeAt(root, from);
+            const parent = nodeAt(root, over);
+            if (!node || !parent) return null;
+            // at its place in the sequence of the new parent
+            const order = ddic.childrenOf(elements, ddic.baseName(parent.name));
+            return { parent: over, index: codebook.insertionIndex(parent, ddic.baseName(node.name), order) };
+        }
+        if (!over.length) return null;
+        const index = over[over.length - 1];
+        return { parent: over.slice(0, -1), index: position === 'before' ? index : index + 1 };
+    },
+
+    check: function(root, from, target, elements) {
+        const node = nodeAt(root, from);
+        const parent = nodeAt(root, target.parent);
+        if (!node || !parent || !from.length) return null;
+        const name = ddic.baseName(node.name);
+        const parentName = ddic.baseName(parent.name);
+        const problem = (kind: ValidationKind) => ({
+            kind,
+            severity: 'error' as const,
+            path: from,
+            element: name,
+            vars: { element: name, parent: parentName },
+        });
+
+        // not into itself or one of its descendants
+        if (startsWith(target.parent, from)) return problem('not-allowed');
+
+        const order = ddic.childrenOf(elements, parentName);
+        const sameParent = from.length === target.parent.length + 1 && startsWith(from, target.parent);
+        if (!sameParent) {
+            if (!order.includes(name)) return problem('not-allowed');
+            const present = (parent.children ?? []).some((child) => ddic.baseName(child.name) === name);
+            if (present && !ddic.repeatable(elements, name)) return problem('too-many');
+        }
+
+        // the siblings before the drop come earlier in the sequence, the ones after it later
+        const rank = order.indexOf(name);
+        if (rank === -1) return null;
+        const own = sameParent ? from[from.length - 1] : -1;
+        const misplaced = (parent.children ?? []).some((child, i) => {
+            if (i === own) return false;
+            const other = order.indexOf(ddic.baseName(child.name));
+            if (other === -1) return false;
+            return i < target.index ? other > rank : other < rank;
+        });
+        return misplaced ? problem('not-allowed') : null;
+    },
+
+    move: function(root, from, target) {
+        const node = nodeAt(root, from);
+        if (!node || !from.length) return null;
+        const path = [...target.parent, target.index];
+        // removing the node first shifts its later siblings, and what they contain
+        const depth = from.length - 1;
+        if (path.length > depth && startsWith(path, from.slice(0, -1)) && from[depth] < path[depth]) {
+            path[depth] -= 1;
+        }
+        if (path.length === from.length && startsWith(path, from)) return null;
+        return {
+            edit: {
+                type: 'group',
+                edits: [
+                    { type: 'remove', path: [...from], node },
+                    { type: 'insert', path, node },
+                ],
+            },
+            path,
+        };
+    },
+};
+
+export default treemoves;
@@ -0,0 +1,88 @@
+// Search of the codebook tree by element name, DDIC title, value or attribute
+// value. Matching ignores case and accents, so "categorie" finds "Catégorie".
+
+import type { SearchExcerpt, SearchField, TextRange, TreeSearch } from '../interfaces/treesearch';
+import { codebook } from './codebook';
+import { ddixml } from './ddixml';
+
+// A text folded for comparison, with the index in the original of each folded character
+const fold = (text: string): { folded: string; origin: number[] } => {
+    let folded = '';
+    const origin: number[] = [];
+    let i = 0;
+    for (const char of text) {
+        const plain = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+        for (let k = 0; k < plain.length; k++) origin.push(i);
+        folded += plain;
+        i += char.length;
+    }
+    origin.push(i);
+    return { folded, origin };
+};
+
+const foldQuery = (query: string): string => fold(query.trim()).folded;
+
+const rangesOf = (text: string, needle: string): TextRange[] => {
+    if (!needle || !text) return [];
+    const { folded, origin } = fold(text);
+    const out: TextRange[] = [];
+    let at = folded.indexOf(needle);
+    while (at >= 0) {
+        out.push({ start: origin[at], end: origin[at + needle.length] });
+        at = folded.indexOf(needle, at + needle.length);
+    }
+    return out;
+};
+
+export const treesearch: TreeSearch = {
+    find: function(root, query, titleOf) {
+        const needle = foldQuery(query);
+        if (!needle) return [];
+        const has = (text: string | undefined) => Boolean(text) && fold(String(text)).folded.includes(needle);
+        const hits: ReturnType<TreeSearch['find']> = [];
+
+        codebook.walk(root, (node, path) => {
+            const fields: SearchField[] = [];
+            const name = node.name || '';
+            if (has(name)) fields.push('name');
+            if (has(titleOf(name))) fields.push('title');
+            const value = ddixml.textOf(node.value);
+            if (has(value)) fields.push('value');
+            const attributes = Object.values(node.attributes ?? {}).map((v) => ddixml.textOf(v));
+            const attribute = attributes.find((v) => has(v));
+            if (attribute !== undefined) fields.push('attribute');
+            if (!fields.length) return;
+
+            let excerpt: SearchExcerpt | null = null;
+            if (!fields.includes('name') && !fields.includes('title')) {
+                excerpt = treesearch.excerpt(fields.includes('value') ? value : String(attribute), query);
+            }
+            hits.push(excerpt ? { path: [...path], fields, excerpt } : { path: [...path], fields });
+        });
+        return hits;
+    },
+
+    ranges: function(text, query) {
+        return rangesOf(text, foldQuery(query));
+    },
+
+    excerpt: function(text, query, width = 40) {
+        // one line of text, as it is shown in the tree
+        const line = text.replace(/\s+/g, ' ').trim();
+        const first = treesearch.ranges(line, query)[0];
+        if (!first) return null;
+        const margin = Math.max(0, Math.floor((width - (first.end - first.start)) / 2));
+        const start = Math.max(0, first.start - margin);
+        const end = Math.min(line.length, Math.max(first.end + margin, start + width));
+        const prefix = start > 0 ? '…' : '';
+        const part = line.slice(start, end);
+        const shown = prefix + part + (end < line.length ? '…' : '');
+        const ranges = treesearch.ranges(part, query).map((r) => ({
+            start: r.start + prefix.length,
+            end: r.end + prefix.length,
+        }));
+        return { text: shown, ranges };
+    },
+};
+
+export default treesearch;
@@ -0,0 +1,140 @@
+// Checks the edited codebook tree against the DDIC element dictionary: element
+// names, parent / child rules, multiplicity, mandatory content and the declared
+// value types. It does not replace the XSD, only reports what the tree editor
+// itself can know about.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { TreePath } from '../interfaces/treehistory';
+import type { Validation, ValidationKind, ValidationProblem } from '../interfaces/validation';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+import { ddixml } from './ddixml';
+
+// YYYY, YYYY-MM or YYYY-MM-DD, optionally with a time
+const PARTIAL_DATE = /^-?\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?)?$/;
+
+const validDay = (value: string): boolean => {
+    const m = value.match(/^-?(\d{4})-(\d{2})-(\d{2})/);
+    if (!m) return true;
+    const days = new Date(Date.UTC(Number(m[1]), Number(m[2]), 0)).getUTCDate();
+    return Number(m[3]) <= days;
+};
+
+// namespace declarations and schema hints are not part of the DDIC
+const isHousekeeping = (key: string) => /^(xmlns(:|$)|xsi:)/.test(key);
+
+export const validation: Validation = {
+    checkValue: function(type, value) {
+        if (!type || value === '') return true;
+        const t = type.replace(/^.*:/, '').toLowerCase();
+        switch (t) {
+            case 'integer':
+            case 'int':
+            case 'long':
+            case 'short':
+                return /^[+-]?\d+$/.test(value);
+            case 'nonnegativeinteger':
+                return /^\+?\d+$/.test(value);
+            case 'positiveinteger':
+                return /^\+?\d+$/.test(value) && Number(value) > 0;
+            case 'decimal':
+            case 'double':
+            case 'float':
+            case 'number':
+                return /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/.test(value);
+            case 'boolean':
+                return /^(true|false|0|1)$/.test(value);
+            case 'date':
+                return /^-?\d{4}-\d{2}-\d{2}$/.test(value) && PARTIAL_DATE.test(value) && validDay(value);
+            case 'gyear':
+                return /^-?\d{4}$/.test(value);
+            case 'gyearmonth':
+                return /^-?\d{4}-(0[1-9]|1[0-2])$/.test(value);
+            case 'datetime':
+            case 'datesimpletype':
+            case 'partialdate':
+                return PARTIAL_DATE.test(value) && validDay(value);
+            case 'anyuri':
+                return !/\s/.test(value);
+            default:
+                return true;
+        }
+    },
+
+    check: function(root, elements) {
+        const problems: ValidationProblem[] = [];
+        const report = (kind: ValidationKind, path: TreePath, element: string, vars: Record<string, string> = {}) => {
+            problems.push({
+                kind,
+                // the dictionary may lag behind the schema, unknown names are only suspicious
+                severity: kind === 'unknown-element' ? 'warning' : 'error',
+                path,
+                element,
+                vars: { element, ...vars },
+            });
+        };
+
+        const visit = (node: NormNode, path: TreePath) => {
+            const name = ddic.baseName(String(node.name));
+            if (!ddic.entry(elements, name)) {
+                report('unknown-element', path, name);
+                return;
+            }
+
+            const text = codebook.text(node);
+            const values = ddic.values(elements, name);
+            const type = ddic.valueType(elements, name);
+            if (text && values.length && !values.includes(text)) {
+                report('invalid-value', path, name, { value: text, expected: values.join(', ') });
+            } else if (text && !validation.checkValue(type, text)) {
+                report('invalid-value', path, name, { value: text, expected: String(type) });
+            }
+
+            const present = Object.entries(node.attributes ?? {})
+                .filter(([, value]) => value !== null && value !== undefined);
+            for (const attr of ddic.attributes(elements, name)) {
+                const wanted = ddixml.attributeName(attr.name);
+                if (isHousekeeping(wanted)) continue;
+                const found = present.find(([key]) => ddixml.attributeName(key) === wanted);
+                if (!found) {
+                    if (attr.required) report('missing-attribute', path, name, { attribute: wanted });
+                    continue;
+                }
+                const value = ddixml.textOf(found[1]);
+                if (attr.values.length && value !== '' && !attr.values.includes(value)) {
+                    report('invalid-attribute', path, name, { attribute: wanted, value, expected: attr.values.join(', ') });
+                } else if (!validation.checkValue(attr.type, value)) {
+                    report('invalid-attribute', path, name, { attribute: wanted, value, expected: String(attr.type) });
+                }
+            }
+
+            const allowed = ddic.childrenOf(elements, name);
+            const counts = new Map<string, number>();
+            (node.children ?? []).forEach((child, index) => {
+                const childName = ddic.baseName(String(child.name));
+                const childPath = [...path, index];
+                const count = (counts.get(childName) ?? 0) + 1;
+                counts.set(childName, count);
+                if (ddic.entry(elements, childName)) {
+                    if (!allowed.includes(childName)) {
+                        report('not-allowed', childPath, childName, { parent: name });
+                    } else if (count === 2 && !ddic.repeatable(elements, childName)) {
+                        report('too-many', childPath, childName, { parent: name });
+                    }
+                }
+                visit(child, childPath);
+            });
+
+            for (const childName of allowed) {
+                if (!counts.has(childName) && ddic.required(elements, childName)) {
+                    report('missing-element', path, name, { child: childName });
+                }
+            }
+        };
+
+        visit(root, []);
+        return problems;
+    },
+};
+
+export default validation;
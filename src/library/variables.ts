@@ -0,0 +1,244 @@
+
+// Variable level metadata (labels, value labels, missing values...) read from
+// the normalized codebook, in the flat shape used by the data file and
+// spreadsheet exchanges.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { VariableMetadata, Variables } from '../interfaces/variables';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+
+// DDI Codebook sequences, used when the DDIC dictionary is not available
+const ORDER: Record<string, string[]> = {
+    codeBook: ['docDscr', 'stdyDscr', 'fileDscr', 'dataDscr', 'otherMat'],
+    var: [
+        'location', 'labl', 'imputation', 'security', 'embargo', 'respUnit', 'anlysUnit', 'qstn',
+        'valrng', 'invalrng', 'undocCod', 'universe', 'TotlResp', 'sumStat', 'txt', 'stdCatgry',
+        'catgryGrp', 'catgry', 'codInstr', 'verStmt', 'concept', 'derivation', 'varFormat',
+        'geomap', 'catLevel', 'notes',
+    ],
+    qstn: ['preQTxt', 'qstnLit', 'postQTxt', 'forward', 'backward', 'ivuInstr'],
+    catgry: ['catValu', 'labl', 'txt', 'catStat', 'mrow'],
+    invalrng: ['item', 'range', 'key', 'notes'],
+};
+
+const FIELDS: (keyof Omit<VariableMetadata, 'name'>)[] = [
+    'label', 'type', 'measurement', 'question', 'universe', 'labels', 'missing', 'missingRange',
+];
+
+// Comparable form of a field value
+const signature = (field: string, value: unknown): string => {
+    if (field === 'missing') return [...(value as string[] ?? [])].sort().join('\u0000');
+    return JSON.stringify(value ?? null);
+};
+
+// Element in the preferred language, else the first one with a text
+const pickIn = (nodes: NormNode[], lang?: string): NormNode | undefined => {
+    const valued = nodes.filter((n) => codebook.text(n));
+    return valued.find((n) => lang && codebook.lang(n) === lang) ?? valued[0];
+};
+
+const textIn = (nodes: NormNode[], lang?: string): string => {
+    const picked = pickIn(nodes, lang);
+    return picked ? codebook.text(picked) : '';
+};
+
+export const variables: Variables = {
+    read: function(variable, lang) {
+        const categories = codebook.children(variable, 'catgry');
+        const labels = categories
+            .map((cat) => ({
+                value: codebook.texts(cat, 'catValu')[0] ?? '',
+                label: textIn(codebook.children(cat, 'labl'), lang),
+            }))
+            .filter((item) => item.value !== '');
+
+        const missing = categories
+            .filter((cat) => (codebook.attr(cat, 'missing') || '').toUpperCase() === 'Y')
+            .map((cat) => codebook.texts(cat, 'catValu')[0] ?? '')
+            .filter(Boolean);
+        let missingRange: [string, string] | null = null;
+        for (const range of codebook.children(variable, 'invalrng')) {
+            for (const item of codebook.children(range, 'item')) {
+                const value = codebook.attr(item, 'VALUE');
+                if (value && !missing.includes(value)) missing.push(value);
+            }
+            const bounds = codebook.children(range, 'range')[0];
+            if (bounds && !missingRange) {
+                missingRange = [
+                    codebook.attr(bounds, 'min') ?? codebook.attr(bounds, 'minExclusive') ?? '',
+                    codebook.attr(bounds, 'max') ?? codebook.attr(bounds, 'maxExclusive') ?? '',
+                ];
+            }
+        }
+
+        // the question text is either in qstnLit or directly in qstn
+        const questions = codebook.children(variable, 'qstn');
+        const question = textIn(codebook.all(variable, 'qstn', 'qstnLit'), lang) || textIn(questions, lang);
+
+        return {
+            name: codebook.attr(variable, 'name') || codebook.attr(variable, 'ID') || '',
+            label: textIn(codebook.children(variable, 'labl'), lang),
+            type: codebook.attr(codebook.child(variable, 'varFormat'), 'type') || '',
+            measurement: codebook.attr(variable, 'intrvl') || '',
+            question,
+            universe: textIn(codebook.children(variable, 'universe'), lang),
+            labels,
+            missing,
+            missingRange,
+        };
+    },
+
+    all: function(root, lang) {
+        return codebook.variables(root).map((v) => variables.read(v, lang));
+    },
+
+    compare: function(root, updates, lang) {
+        const current = new Map(variables.all(root, lang).map((v) => [v.name, v]));
+        const names = new Set(updates.map((u) => u.name));
+        const changes = {
+            added: [] as string[],
+            changed: [] as { name: string; fields: string[] }[],
+            unmatched: [...current.keys()].filter((name) => !names.has(name)),
+        };
+        for (const update of updates) {
+            const existing = current.get(update.name);
+            if (!existing) {
+                changes.added.push(update.name);
+                continue;
+            }
+            const fields = FIELDS.filter((field) => (
+                update[field] !== undefined && signature(field, update[field]) !== signature(field, existing[field])
+            ));
+            if (fields.length) changes.changed.push({ name: update.name, fields });
+        }
+        return changes;
+    },
+
+    apply: function(root, updates, options = {}) {
+        const { lang, elements } = options;
+        const copy = codebook.clone(root);
+        const orderOf = (name: string) => {
+            const fromDDIC = ddic.childrenOf(elements, name);
+            return fromDDIC.length ? fromDDIC : (ORDER[name] ?? []);
+        };
+        const leaf = (name: string, value: string): NormNode => ({ name, value });
+
+        // the element that was read for a text, else a new one (removed when emptied)
+        const setText = (parent: NormNode, name: string, value: string) => {
+            const nodes = codebook.children(parent, name);
+            const target = pickIn(nodes, lang) ?? nodes.find((n) => !codebook.text(n));
+            if (!value) {
+                if (target && !codebook.children(target).length) {
+                    parent.children = (parent.children ?? []).filter((c) => c !== target);
+                }
+                return;
+            }
+            if (target) target.value = value;
+            else codebook.insert(parent, leaf(name, value), orderOf(ddic.baseName(parent.name)));
+        };
+
+        const dataDscrs = codebook.children(copy, 'dataDscr');
+        const byName = new Map(codebook.variables(copy).map((v) => [codebook.attr(v, 'name') || codebook.attr(v, 'ID') || '', v]));
+
+        for (const update of updates) {
+            let v = byName.get(update.name);
+            if (!v) {
+                let dataDscr = dataDscrs[dataDscrs.length - 1];
+                if (!dataDscr) {
+                    dataDscr = { name: 'dataDscr', children: [] };
+                    dataDscrs.push(dataDscr);
+                    codebook.insert(copy, dataDscr, orderOf('codeBook'));
+                }
+                v = { name: 'var', attributes: { ID: update.name, name: update.name }, children: [] };
+                codebook.insert(dataDscr, v, orderOf('dataDscr'));
+                byName.set(update.name, v);
+            }
+            const variable = v;
+            const attrs = (variable.attributes = { ...(variable.attributes ?? {}) });
+
+            if (update.label !== undefined) setText(variable, 'labl', update.label);
+            if (update.universe !== undefined) setText(variable, 'universe', update.universe);
+
+            if (update.measurement !== undefined) {
+                if (update.measurement) attrs.intrvl = update.measurement;
+                else delete attrs.intrvl;
+            }
+
+            if (update.type !== undefined) {
+                let format = codebook.child(variable, 'varFormat');
+                if (!format && update.type) {
+                    format = { name: 'varFormat' };
+                    codebook.insert(variable, format, orderOf('var'));
+                }
+                if (format) {
+                    format.attributes = { ...(format.attributes ?? {}) };
+                    if (update.type) format.attributes.type = update.type;
+                    else delete format.attributes.type;
+                }
+            }
+
+            if (update.question !== undefined) {
+                let qstn = codebook.children(variable, 'qstn')[0];
+                if (qstn && !codebook.children(qstn, 'qstnLit').length && codebook.text(qstn)) {
+                    // question text directly in qstn
+                    qstn.value = update.question;
+                } else if (qstn || update.question) {
+                    if (!qstn) {
+                        qstn = { name: 'qstn', children: [] };
+                        codebook.insert(variable, qstn, orderOf('var'));
+                    }
+                    setText(qstn, 'qstnLit', update.question);
+                }
+            }
+
+            // value labels: kept categories keep their statistics, in the new order
+            const missing = update.missing ?? variables.read(variable, lang).missing;
+            if (update.labels !== undefined) {
+                const existing = codebook.children(variable, 'catgry');
+                const categories = update.labels.map((item) => {
+                    const cat = existing.find((c) => (codebook.texts(c, 'catValu')[0] ?? '') === item.value)
+                        ?? { name: 'catgry', children: [leaf('catValu', item.value)] };
+                    setText(cat, 'labl', item.label);
+                    return cat;
+                });
+                const others = (variable.children ?? []).filter((c) => ddic.baseName(c.name) !== 'catgry');
+                variable.children = others;
+                categories.forEach((cat) => codebook.insert(variable, cat, orderOf('var')));
+            }
+
+            if (update.missing !== undefined || update.missingRange !== undefined || update.labels !== undefined) {
+                for (const cat of codebook.children(variable, 'catgry')) {
+                    const value = codebook.texts(cat, 'catValu')[0] ?? '';
+                    cat.attributes = { ...(cat.attributes ?? {}) };
+                    if (missing.includes(value)) cat.attributes.missing = 'Y';
+                    else delete cat.attributes.missing;
+                }
+            }
+
+            if (update.missing !== undefined || update.missingRange !== undefined) {
+                const labelled = new Set(codebook.children(variable, 'catgry').map((c) => codebook.texts(c, 'catValu')[0] ?? ''));
+                const range = update.missingRange !== undefined
+                    ? update.missingRange
+                    : variables.read(variable, lang).missingRange;
+                const items: NormNode[] = missing
+                    .filter((value) => !labelled.has(value))
+                    .map((value) => ({ name: 'item', attributes: { VALUE: value } }));
+                if (range) {
+                    const bounds: Record<string, string> = {};
+                    if (range[0]) bounds.min = range[0];
+                    if (range[1]) bounds.max = range[1];
+                    items.push({ name: 'range', attributes: bounds });
+                }
+                variable.children = (variable.children ?? []).filter((c) => ddic.baseName(c.name) !== 'invalrng');
+                if (items.length) {
+                    codebook.insert(variable, { name: 'invalrng', children: items }, orderOf('var'));
+                }
+            }
+        }
+
+        return copy;
+    },
+};
+
+export default variables;
@@ -0,0 +1,216 @@
+// The variables of a dataDscr as the rows of a table, one per var element,
+// and the tree edits that set a column for one or several of them.
+// Texts are read and written in the preferred language when there is one.
+
+import type { NormNode } from '../interfaces/codebook';
+import type { TreeEdit, TreePath } from '../interfaces/treehistory';
+import type { VariableColumn, VariableRow, VariableTable, VariableTableOptions } from '../interfaces/variabletable';
+import { codebook } from './codebook';
+import { ddic } from './ddic';
+import { ddixml } from './ddixml';
+
+// used when the DDIC does not enumerate the attribute
+const DEFAULT_CHOICES: Partial<Record<VariableColumn, [string, string, string[]]>> = {
+    format: ['varFormat', 'type', ['numeric', 'character']],
+    measurement: ['var', 'intrvl', ['discrete', 'contin']],
+};
+
+const nodeAt = (root: NormNode, path: TreePath): NormNode | undefined => (
+    path.reduce<NormNode | undefined>((n, i) => n?.children?.[i], root)
+);
+
+// index of the child element read for a text: in the language, else the first with a text
+const readIndex = (parent: NormNode, name: string, lang?: string): number => {
+    const indexes = (parent.children ?? [])
+        .map((child, i) => (ddic.baseName(child.name) === name ? i : -1))
+        .filter((i) => i >= 0);
+    const children = parent.children ?? [];
+    const valued = indexes.filter((i) => codebook.text(children[i]));
+    return valued.find((i) => lang && codebook.lang(children[i]) === lang)
+        ?? valued[0]
+        ?? indexes.find((i) => !children[i].children?.length)
+        ?? -1;
+};
+
+// index of the child element written for a text: only one in the language, -1 when there is
+// none and another is inserted beside the other languages
+const writeIndex = (parent: NormNode, name: string, lang?: string): number => {
+    if (!lang) return readIndex(parent, name);
+    return (parent.children ?? []).findIndex((child) => (
+        ddic.baseName(child.name) === name && codebook.lang(child) === lang
+    ));
+};
+
+const firstIndex = (parent: NormNode, name: string): number => (
+    (parent.children ?? []).findIndex((child) => ddic.baseName(child.name) === name)
+);
+
+const textOf = (parent: NormNode | undefined, name: string, lang?: string): string => {
+    if (!parent) return '';
+    const at = readIndex(parent, name, lang);
+    return at >= 0 ? codebook.text(parent.children?.[at]) : '';
+};
+
+const rawValue = (node: NormNode): string | null | undefined => (
+    node.value === null || node.value === undefined ? node.value : ddixml.textOf(node.value)
+);
+
+// the edit setting the text of a child element, created or removed as needed
+const setText = (
+    parent: NormNode, parentPath: TreePath, name: string, value: string, options: VariableTableOptions,
+): TreeEdit | null => {
+    const at = writeIndex(parent, name, options.lang);
+    const target = at >= 0 ? parent.children?.[at] : undefined;
+    if (!value) {
+        if (!target || target.children?.length) return null;
+        return { type: 'remove', path: parentPath.concat([at]), node: target };
+    }
+    if (target) {
+        if (codebook.text(target) === value) return null;
+        return { type: 'value', path: parentPath.concat([at]), before: rawValue(target), after: value };
+    }
+    const node: NormNode = options.lang
+        ? { name, attributes: { [ddixml.attributeKey('xml:lang')]: options.lang }, value }
+        : { name, value };
+    const order = ddic.childrenOf(options.elements, ddic.baseName(parent.name));
+    return { type: 'insert', path: parentPath.concat([codebook.insertionIndex(parent, name, order)]), node };
+};
+
+const setAttribute = (node: NormNode, nodePath: TreePath, key: string, value: string): TreeEdit | null => {
+    const before = codebook.attr(node, key);
+    if ((before ?? '') === value) return null;
+    return { type: 'attribute', path: nodePath, key, before, after: value || undefined };
+};
+
+// question texts are in qstn/qstnLit, or directly in qstn
+const setQuestion = (
+    variable: NormNode, varPath: TreePath, column: 'question' | 'instructions', value: string, options: VariableTableOptions,
+): TreeEdit | null => {
+    const at = firstIndex(variable, 'qstn');
+    const qstn = at >= 0 ? variable.children?.[at] : undefined;
+    const childName = column === 'question' ? 'qstnLit' : 'ivuInstr';
+    if (!qstn) {
+        if (!value) return null;
+        const order = ddic.childrenOf(options.elements, 'var');
+        const node: NormNode = { name: 'qstn', children: [] };
+        const child = setText(node, [], childName, value, options);
+        if (child?.type === 'insert') node.children = [child.node];
+        return { type: 'insert', path: varPath.concat([codebook.insertionIndex(variable, 'qstn', order)]), node };
+    }
+    const qstnPath = varPath.concat([at]);
+    const direct = !codebook.children(qstn, 'qstnLit').length && codebook.text(qstn);
+    if (column === 'question' && direct) {
+        if (codebook.text(qstn) === value) return null;
+        return { type: 'value', path: qstnPath, before: rawValue(qstn), after: value };
+    }
+    if (direct && value) {
+        // instructions next to a question text held by qstn itself: the text moves to a qstnLit
+        const after = codebook.clone(qstn);
+        delete after.value;
+        const order = ddic.childrenOf(options.elements, 'qstn');
+        codebook.insert(after, { name: 'qstnLit', value: codebook.text(qstn) }, order);
+        const edit = setText(after, [], childName, value, options);
+        if (edit?.type === 'insert') codebook.insert(after, edit.node, order);
+        return { type: 'replace', path: qstnPath, before: qstn, after };
+    }
+    const edit = setText(qstn, qstnPath, childName, value, options);
+    // a question left without content goes as a whole
+    if (edit?.type === 'remove' && qstn.children?.length === 1 && !codebook.text(qstn)) {
+        return { type: 'remove', path: qstnPath, node: qstn };
+    }
+    return edit;
+};
+
+const setColumn = (
+    variable: NormNode, varPath: TreePath, column: VariableColumn, value: string, options: VariableTableOptions,
+): TreeEdit | null => {
+    switch (column) {
+        case 'name':
+            return setAttribute(variable, varPath, 'name', value);
+        case 'measurement':
+            return setAttribute(variable, varPath, 'intrvl', value);
+        case 'label':
+            return setText(variable, varPath, 'labl', value, options);
+        case 'universe':
+            return setText(variable, varPath, 'universe', value, options);
+        case 'question':
+        case 'instructions':
+            return setQuestion(variable, varPath, column, value, options);
+        case 'format': {
+            const at = firstIndex(variable, 'varFormat');
+            const format = at >= 0 ? variable.children?.[at] : undefined;
+            if (format) return setAttribute(format, varPath.concat([at]), 'type', value);
+            if (!value) return null;
+            const order = ddic.childrenOf(options.elements, 'var');
+            return {
+                type: 'insert',
+                path: varPath.concat([codebook.insertionIndex(variable, 'varFormat', order)]),
+                node: { name: 'varFormat', attributes: { type: value } },
+            };
+        }
+    }
+};
+
+export const variabletable: VariableTable = {
+    columns: ['name', 'label', 'question', 'instructions', 'universe', 'format', 'measurement'],
+
+    rows: function(dataDscr, dataDscrPath, lang) {
+        const rows: VariableRow[] = [];
+        (dataDscr.children ?? []).forEach((variable, i) => {
+            if (ddic.baseName(variable.name) !== 'var') return;
+            const qstn = codebook.child(variable, 'qstn');
+            rows.push({
+                path: dataDscrPath.concat([i]),
+                values: {
+                    name: codebook.attr(variable, 'name') || codebook.attr(variable, 'ID') || '',
+                    label: textOf(variable, 'labl', lang),
+                    question: textOf(qstn, 'qstnLit', lang) || (codebook.children(qstn, 'qstnLit').length ? '' : codebook.text(qstn)),
+                    instructions: textOf(qstn, 'ivuInstr', lang),
+                    universe: textOf(variable, 'universe', lang),
+                    format: codebook.attr(codebook.child(variable, 'varFormat'), 'type') || '',
+                    measurement: codebook.attr(variable, 'intrvl') || '',
+                },
+            });
+        });
+        return rows;
+    },
+
+    choices: function(column, elements) {
+        const known = DEFAULT_CHOICES[column];
+        if (!known) return [];
+        const [element, attribute, fallback] = known;
+        const declared = ddic.attributes(elements, element).find((a) => a.name === attribute);
+        return declared?.values.length ? declared.values : fallback;
+    },
+
+    nameProblem: function(root, paths, value) {
+        const name = value.trim();
+        if (!name) return 'empty';
+        // several variables cannot take one name
+        if (paths.length > 1) return 'duplicate';
+        const taken = paths.some((varPath) => {
+            const dataDscr = nodeAt(root, varPath.slice(0, -1));
+            const self = varPath[varPath.length - 1];
+            return (dataDscr?.children ?? []).some((child, i) => (
+                i !== self && ddic.baseName(child.name) === 'var' && codebook.attr(child, 'name') === name
+            ));
+        });
+        return taken ? 'duplicate' : null;
+    },
+
+    edit: function(root, paths, column, value, options = {}) {
+        if (column === 'name' && variabletable.nameProblem(root, paths, value)) return null;
+        const edits: TreeEdit[] = [];
+        for (const varPath of paths) {
+            const variable = nodeAt(root, varPath);
+            if (!variable) continue;
+            // each variable is edited inside its own element, the paths of the others stay valid
+            const edit = setColumn(variable, varPath, column, value.trim(), options);
+            if (edit) edits.push(edit);
+        }
+        if (!edits.length) return null;
+        return edits.length === 1 ? edits[0] : { type: 'group', edits };
+    },
+};
+
+export default variabletable;
@@ -0,0 +1,212 @@
+// Small non-validating XML parser that keeps the line and column of every
+// element and attribute, for the messages of the schema validator. DOCTYPE
+// declarations, comments and processing instructions are skipped.
+
+import type { XmlAttribute, XmlElement, XmlParser } from '../interfaces/xmlparser';
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const NAME_START = /[A-Za-z_:\u00C0-\uFFFF]/;
+const NAME_CHAR = /[-A-Za-z0-9._:\u00B7\u00C0-\uFFFF]/;
+
+class Cursor {
+    pos = 0;
+    line = 1;
+    column = 1;
+
+    constructor(readonly text: string) {}
+
+    get done() {
+        return this.pos >= this.text.length;
+    }
+
+    peek(offset = 0) {
+        return this.text.charAt(this.pos + offset);
+    }
+
+    startsWith(s: string) {
+        return this.text.startsWith(s, this.pos);
+    }
+
+    advance(count = 1) {
+        for (let i = 0; i < count && this.pos < this.text.length; i++) {
+            if (this.text.charAt(this.pos) === '\n') {
+                this.line++;
+                this.column = 1;
+            } else {
+                this.column++;
+            }
+            this.pos++;
+        }
+    }
+
+    // moves past the delimiter, returns what came before it
+    until(delimiter: string): string | null {
+        const end = this.text.indexOf(delimiter, this.pos);
+        if (end < 0) return null;
+        const out = this.text.slice(this.pos, end);
+        this.advance(end - this.pos + delimiter.length);
+        return out;
+    }
+
+    skipSpace() {
+        while (/\s/.test(this.peek()) && !this.done) this.advance();
+    }
+}
+
+const fail = (cursor: Cursor, message: string): never => {
+    throw Object.assign(new Error(message), { line: cursor.line, column: cursor.column });
+};
+
+const decode = (cursor: Cursor, raw: string): string => {
+    return raw.replace(/&(#x[0-9A-Fa-f]+|#\d+|[A-Za-z][A-Za-z0-9]*);|&/g, (match, ref: string | undefined) => {
+        if (!ref) return fail(cursor, 'Unescaped "&"');
+        if (ref.startsWith('#x')) return String.fromCodePoint(parseInt(ref.slice(2), 16));
+        if (ref.startsWith('#')) return String.fromCodePoint(parseInt(ref.slice(1), 10));
+        if (ref in ENTITIES) return ENTITIES[ref];
+        return fail(cursor, `Unknown entity "&${ref};"`);
+    });
+};
+
+const readName = (cursor: Cursor): string => {
+    if (!NAME_START.test(cursor.peek())) fail(cursor, 'Expected a name');
+    let name = '';
+    while (!cursor.done && NAME_CHAR.test(cursor.peek())) {
+        name += cursor.peek();
+        cursor.advance();
+    }
+    return name;
+};
+
+// comments, processing instructions and the DOCTYPE, between the markup
+const skipMisc = (cursor: Cursor): boolean => {
+    if (cursor.startsWith('<!--')) {
+        if (cursor.until('-->') === null) fail(cursor, 'Unterminated comment');
+        return true;
+    }
+    if (cursor.startsWith('<?')) {
+        if (cursor.until('?>') === null) fail(cursor, 'Unterminated processing instruction');
+        return true;
+    }
+    if (cursor.startsWith('<!DOCTYPE')) {
+        // an internal subset may hold ">" inside brackets
+        let depth = 0;
+        while (!cursor.done) {
+            const c = cursor.peek();
+            cursor.advance();
+            if (c === '[') depth++;
+            else if (c === ']') depth--;
+            else if (c === '>' && depth <= 0) return true;
+        }
+        fail(cursor, 'Unterminated DOCTYPE');
+    }
+    return false;
+};
+
+const parseElement = (cursor: Cursor, scope: Record<string, string>): XmlElement => {
+    const line = cursor.line;
+    const column = cursor.column;
+    cursor.advance(); // <
+    const name = readName(cursor);
+    const attributes: XmlAttribute[] = [];
+    const namespaces: Record<string, string> = { ...scope };
+
+    for (;;) {
+        const before = cursor.pos;
+        cursor.skipSpace();
+        if (cursor.startsWith('/>') || cursor.startsWith('>')) break;
+        if (cursor.done) fail(cursor, `Unterminated start tag <${name}>`);
+        if (cursor.pos === before) fail(cursor, 'Expected white space between attributes');
+        const at = { line: cursor.line, column: cursor.column };
+        const key = readName(cursor);
+        cursor.skipSpace();
+        if (cursor.peek() !== '=') fail(cursor, `Expected "=" after attribute ${key}`);
+        cursor.advance();
+        cursor.skipSpace();
+        const quote = cursor.peek();
+        if (quote !== '"' && quote !== "'") fail(cursor, `Expected a quoted value for attribute ${key}`);
+        cursor.advance();
+        const raw = cursor.until(quote);
+        if (raw === null) fail(cursor, `Unterminated value of attribute ${key}`);
+        if (raw!.includes('<')) fail(cursor, `"<" in the value of attribute ${key}`);
+        if (attributes.some((a) => a.name === key)) fail(cursor, `Duplicate attribute ${key}`);
+        // attribute value normalization
+        const value = decode(cursor, raw!.replace(/[\t\n\r]/g, ' '));
+        attributes.push({ name: key, value, ...at });
+        if (key === 'xmlns') namespaces[''] = value;
+        else if (key.startsWith('xmlns:')) namespaces[key.slice(6)] = value;
+    }
+
+    const element: XmlElement = { name, attributes, children: [], text: '', namespaces, line, column };
+    if (cursor.startsWith('/>')) {
+        cursor.advance(2);
+        return element;
+    }
+    cursor.advance(); // >
+
+    for (;;) {
+        if (cursor.done) fail(cursor, `Missing end tag </${name}>`);
+        if (cursor.startsWith('</')) {
+            cursor.advance(2);
+            const closing = readName(cursor);
+            if (closing !== name) fail(cursor, `End tag </${closing}> does not match <${name}>`);
+            cursor.skipSpace();
+            if (cursor.peek() !== '>') fail(cursor, `Unterminated end tag </${name}>`);
+            cursor.advance();
+            return element;
+        }
+        if (cursor.startsWith('<![CDATA[')) {
+            cursor.advance(9);
+            const data = cursor.until(']]>');
+            if (data === null) fail(cursor, 'Unterminated CDATA section');
+            element.text += data;
+            continue;
+        }
+        if (skipMisc(cursor)) continue;
+        if (cursor.peek() === '<') {
+            element.children.push(parseElement(cursor, namespaces));
+            continue;
+        }
+        const end = cursor.text.indexOf('<', cursor.pos);
+        const raw = cursor.text.slice(cursor.pos, end < 0 ? cursor.text.length : end);
+        element.text += decode(cursor, raw);
+        cursor.advance(raw.length);
+    }
+};
+
+export const xmlparser: XmlParser = {
+    parse: function(text) {
+        const cursor = new Cursor(text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n'));
+        try {
+            let root: XmlElement | null = null;
+            for (;;) {
+                cursor.skipSpace();
+                if (cursor.done) break;
+                if (skipMisc(cursor)) continue;
+                if (cursor.peek() !== '<' || root) fail(cursor, root ? 'Content after the root element' : 'Expected the root element');
+                root = parseElement(cursor, { xml: XML_NAMESPACE });
+            }
+            if (!root) fail(cursor, 'No root element');
+            return { root };
+        } catch (e: unknown) {
+            const err = e as Error & { line?: number; column?: number };
+            return {
+                root: null,
+                error: { message: err.message, line: err.line ?? cursor.line, column: err.column ?? cursor.column },
+            };
+        }
+    },
+
+    resolve: function(element, qname, useDefault = true) {
+        const colon = qname.indexOf(':');
+        const prefix = colon < 0 ? '' : qname.slice(0, colon);
+        const local = colon < 0 ? qname : qname.slice(colon + 1);
+        if (!prefix) return { ns: useDefault ? (element.namespaces[''] ?? '') : '', local };
+        const ns = element.namespaces[prefix];
+        return ns === undefined ? null : { ns, local };
+    },
+};
+
+export default xmlparser;
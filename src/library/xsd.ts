@@ -0,0 +1,994 @@
+// Offline W3C XML Schema validator, for checking the exported DDI Codebook
+// against the official XSD bundled with the app. It covers the parts of XML
+// Schema 1.0 the DDI, XHTML and Dublin Core schemas use: named and anonymous
+// types, extension and restriction, model groups with occurrences, wildcards,
+// substitution groups, attribute groups, facets, lists, unions and ID / IDREF.
+// "all" groups are checked as repeated choices, and identity constraints
+// (key / keyref / unique) are not checked.
+
+import type { XmlElement } from '../interfaces/xmlparser';
+import type { Xsd, XsdProblem, XsdProblemCode, XsdSchema } from '../interfaces/xsd';
+import type { TreePath } from '../interfaces/treehistory';
+import { xmlparser } from './xmlparser';
+
+const XS = 'http://www.w3.org/2001/XMLSchema';
+const XSI = 'http://www.w3.org/2001/XMLSchema-instance';
+
+type WhiteSpace = 'preserve' | 'replace' | 'collapse';
+
+interface Facets {
+    length?: number;
+    minLength?: number;
+    maxLength?: number;
+    minInclusive?: number;
+    maxInclusive?: number;
+    minExclusive?: number;
+    maxExclusive?: number;
+    totalDigits?: number;
+    fractionDigits?: number;
+}
+
+interface SimpleType {
+    kind: 'simple';
+    name: string;
+    variety: 'atomic' | 'list' | 'union';
+    whiteSpace: WhiteSpace;
+    // lexical space of the built-in type the type derives from
+    test: (value: string) => boolean;
+    numeric: boolean;
+    id?: 'ID' | 'IDREF';
+    enumeration?: string[];
+    // every derivation step adds one set of alternatives
+    patterns: RegExp[][];
+    facets: Facets;
+    item?: SimpleType;
+    members?: SimpleType[];
+}
+
+interface AttributeUse {
+    name: string;
+    label: string;
+    required: boolean;
+    type: SimpleType;
+    fixed?: string;
+}
+
+interface ComplexType {
+    kind: 'complex';
+    name: string;
+    // xs:anyType, anything goes
+    any: boolean;
+    mixed: boolean;
+    content: Particle | null;
+    simple: SimpleType | null;
+    attributes: Map<string, AttributeUse>;
+    anyAttribute: boolean;
+}
+
+type TypeDef = SimpleType | ComplexType;
+
+interface ElementDecl {
+    name: string;
+    label: string;
+    abstract: boolean;
+    nillable: boolean;
+    fixed?: string;
+    type: () => TypeDef;
+}
+
+interface Wildcard {
+    kind: 'any';
+    // namespaces allowed, or those excluded with ##other
+    namespaces: string[] | null;
+    other: string | null;
+    process: 'strict' | 'lax' | 'skip';
+}
+
+type Term =
+    | { kind: 'element'; decl: ElementDecl }
+    | { kind: 'group'; compositor: 'sequence' | 'choice' | 'all'; particles: Particle[] }
+    | Wildcard;
+
+interface Particle {
+    min: number;
+    max: number;
+    term: Term;
+}
+
+// What a schema document says about its components
+interface SchemaDoc {
+    location: string;
+    tns: string;
+    // included without a target namespace, takes the one of the includer
+    chameleon: boolean;
+    elementQualified: boolean;
+    attributeQualified: boolean;
+}
+
+interface Source {
+    node: XmlElement;
+    doc: SchemaDoc;
+    // the component a redefinition replaces, for references to itself
+    redefines?: Source;
+    name?: string;
+}
+
+interface Registry {
+    types: Map<string, Source>;
+    elements: Map<string, Source>;
+    groups: Map<string, Source>;
+    attributeGroups: Map<string, Source>;
+    attributes: Map<string, Source>;
+    // head of a substitution group -> its members
+    substitutions: Map<string, string[]>;
+}
+
+type Compiled = XsdSchema & {
+    globalElement: (name: string) => ElementDecl | undefined;
+    substitutes: (decl: ElementDecl) => ElementDecl[];
+};
+
+const qn = (ns: string, local: string) => `{${ns}}${local}`;
+
+const localOf = (name: string) => name.slice(name.indexOf('}') + 1);
+
+const nsOf = (name: string) => name.slice(1, name.indexOf('}'));
+
+const localName = (node: XmlElement) => node.name.slice(node.name.indexOf(':') + 1);
+
+const attr = (node: XmlElement, name: string): string | undefined => node.attributes.find((a) => a.name === name)?.value;
+
+const isXs = (node: XmlElement, ...names: string[]) => {
+    const resolved = xmlparser.resolve(node, node.name);
+    return resolved?.ns === XS && (!names.length || names.includes(resolved.local));
+};
+
+const xsChildren = (node: XmlElement, ...names: string[]) => node.children.filter((c) => isXs(c, ...names));
+
+const occurs = (value: string | undefined, fallback: number) => {
+    if (value === undefined) return fallback;
+    return value === 'unbounded' ? Infinity : Number(value);
+};
+
+// location of a referenced schema document, relative to the one referencing it
+const joinLocation = (from: string, location: string): string => {
+    // the network is not used, a remote location is looked up by file name
+    const target = /^[a-z][a-z0-9+.-]*:\/\//i.test(location) ? (location.split('/').pop() || location) : location;
+    const parts = from.split('/').slice(0, -1).concat(target.split('/'));
+    const out: string[] = [];
+    for (const part of parts) {
+        if (part === '..') out.pop();
+        else if (part && part !== '.') out.push(part);
+    }
+    return out.join('/');
+};
+
+// --- Built-in simple types
+
+const NAME = '[A-Za-z_:\\u00C0-\\uFFFF][-\\w.:\\u00B7\\u00C0-\\uFFFF]*';
+const NCNAME = '[A-Za-z_\\u00C0-\\uFFFF][-\\w.\\u00B7\\u00C0-\\uFFFF]*';
+const TZ = '(Z|[+-]\\d{2}:\\d{2})?';
+const DATE = '-?\\d{4,}-(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])';
+const TIME = '([01]\\d|2[0-3]):[0-5]\\d:[0-5]\\d(\\.\\d+)?';
+
+const matches = (pattern: string) => {
+    const regex = new RegExp(`^(?:${pattern})$`);
+    return (value: string) => regex.test(value);
+};
+
+const integerIn = (min: number | null, max: number | null) => (value: string) => {
+    if (!/^[+-]?\d+$/.test(value)) return false;
+    const n = Number(value);
+    return (min === null || n >= min) && (max === null || n <= max);
+};
+
+const BUILTINS: Record<string, { test: (value: string) => boolean; whiteSpace?: WhiteSpace; numeric?: boolean; id?: 'ID' | 'IDREF'; list?: string }> = {
+    anySimpleType: { test: () => true, whiteSpace: 'preserve' },
+    anyAtomicType: { test: () => true, whiteSpace: 'preserve' },
+    string: { test: () => true, whiteSpace: 'preserve' },
+    normalizedString: { test: () => true, whiteSpace: 'replace' },
+    token: { test: () => true },
+    language: { test: matches('[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*') },
+    Name: { test: matches(NAME) },
+    NCName: { test: matches(NCNAME) },
+    NMTOKEN: { test: matches('[-\\w.:\\u00B7\\u00C0-\\uFFFF]+') },
+    NMTOKENS: { test: () => true, list: 'NMTOKEN' },
+    ID: { test: matches(NCNAME), id: 'ID' },
+    IDREF: { test: matches(NCNAME), id: 'IDREF' },
+    IDREFS: { test: () => true, list: 'IDREF' },
+    ENTITY: { test: matches(NCNAME) },
+    ENTITIES: { test: () => true, list: 'ENTITY' },
+    QName: { test: matches(`(${NCNAME}:)?${NCNAME}`) },
+    NOTATION: { test: matches(`(${NCNAME}:)?${NCNAME}`) },
+    anyURI: { test: () => true },
+    boolean: { test: matches('true|false|1|0') },
+    decimal: { test: matches('[+-]?(\\d+(\\.\\d*)?|\\.\\d+)'), numeric: true },
+    integer: { test: integerIn(null, null), numeric: true },
+    nonNegativeInteger: { test: integerIn(0, null), numeric: true },
+    positiveInteger: { test: integerIn(1, null), numeric: true },
+    nonPositiveInteger: { test: integerIn(null, 0), numeric: true },
+    negativeInteger: { test: integerIn(null, -1), numeric: true },
+    long: { test: integerIn(null, null), numeric: true },
+    int: { test: integerIn(-2147483648, 2147483647), numeric: true },
+    short: { test: integerIn(-32768, 32767), numeric: true },
+    byte: { test: integerIn(-128, 127), numeric: true },
+    unsignedLong: { test: integerIn(0, null), numeric: true },
+    unsignedInt: { test: integerIn(0, 4294967295), numeric: true },
+    unsignedShort: { test: integerIn(0, 65535), numeric: true },
+    unsignedByte: { test: integerIn(0, 255), numeric: true },
+    float: { test: matches('[+-]?(\\d+(\\.\\d*)?|\\.\\d+)([eE][+-]?\\d+)?|[+-]?INF|NaN'), numeric: true },
+    double: { test: matches('[+-]?(\\d+(\\.\\d*)?|\\.\\d+)([eE][+-]?\\d+)?|[+-]?INF|NaN'), numeric: true },
+    duration: { test: matches('-?P(?=\\d|T\\d)(\\d+Y)?(\\d+M)?(\\d+D)?(T(?=\\d)(\\d+H)?(\\d+M)?(\\d+(\\.\\d+)?S)?)?') },
+    dateTime: { test: matches(`${DATE}T${TIME}${TZ}`) },
+    date: { test: matches(`${DATE}${TZ}`) },
+    time: { test: matches(`${TIME}${TZ}`) },
+    gYear: { test: matches(`-?\\d{4,}${TZ}`) },
+    gYearMonth: { test: matches(`-?\\d{4,}-(0[1-9]|1[0-2])${TZ}`) },
+    gMonth: { test: matches(`--(0[1-9]|1[0-2])${TZ}`) },
+    gMonthDay: { test: matches(`--(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])${TZ}`) },
+    gDay: { test: matches(`---(0[1-9]|[12]\\d|3[01])${TZ}`) },
+    hexBinary: { test: matches('([0-9a-fA-F]{2})*') },
+    base64Binary: { test: matches('[A-Za-z0-9+/= ]*') },
+};
+
+const builtinTypes = new Map<string, SimpleType>();
+
+const builtin = (local: string): SimpleType | undefined => {
+    const spec = BUILTINS[local];
+    if (!spec) return undefined;
+    let type = builtinTypes.get(local);
+    if (!type) {
+        type = {
+            kind: 'simple',
+            name: `xs:${local}`,
+            variety: spec.list ? 'list' : 'atomic',
+            whiteSpace: spec.whiteSpace ?? 'collapse',
+            test: spec.test,
+            numeric: Boolean(spec.numeric),
+            id: spec.id,
+            patterns: [],
+            facets: spec.list ? { minLength: 1 } : {},
+        };
+        if (spec.list) type.item = builtin(spec.list);
+        builtinTypes.set(local, type);
+    }
+    return type;
+};
+
+const ANY_TYPE: ComplexType = {
+    kind: 'complex',
+    name: 'xs:anyType',
+    any: true,
+    mixed: true,
+    content: null,
+    simple: null,
+    attributes: new Map(),
+    anyAttribute: true,
+};
+
+// XSD regular expressions, as far as JavaScript can express them
+const toRegExp = (pattern: string): RegExp | null => {
+    const source = pattern
+        .replace(/\\i/g, '[A-Za-z_:\\u00C0-\\uFFFF]')
+        .replace(/\\I/g, '[^A-Za-z_:\\u00C0-\\uFFFF]')
+        .replace(/\\c/g, '[-\\w.:\\u00B7\\u00C0-\\uFFFF]')
+        .replace(/\\C/g, '[^-\\w.:\\u00B7\\u00C0-\\uFFFF]');
+    try {
+        return new RegExp(`^(?:${source})$`, 'u');
+    } catch {
+        // e.g. character class subtraction, not checked
+        return null;
+    }
+};
+
+// what a value of the type looks like, for the messages
+const describe = (type: SimpleType): string => {
+    if (type.enumeration) return type.enumeration.map((v) => (v === '' ? '""' : v)).join(', ');
+    if (type.variety === 'union' && type.members?.length) return type.members.map(describe).join(' | ');
+    if (type.variety === 'list' && type.item && type.name.startsWith('anonymous')) return `${describe(type.item)}...`;
+    return type.name;
+};
+
+const normalizeSpace = (value: string, whiteSpace: WhiteSpace) => {
+    if (whiteSpace === 'preserve') return value;
+    const replaced = value.replace(/[\t\n\r]/g, ' ');
+    return whiteSpace === 'replace' ? replaced : replaced.replace(/ +/g, ' ').trim();
+};
+
+// --- Schema compilation
+
+const compile = (entry: string, read: (location: string) => string | null): Compiled => {
+    const registry: Registry = {
+        types: new Map(),
+        elements: new Map(),
+        groups: new Map(),
+        attributeGroups: new Map(),
+        attributes: new Map(),
+        substitutions: new Map(),
+    };
+    const loaded = new Set<string>();
+
+    const register = (map: Map<string, Source>, node: XmlElement, doc: SchemaDoc, redefining: boolean) => {
+        const name = attr(node, 'name');
+        if (!name) return;
+        const key = qn(doc.tns, name);
+        const previous = map.get(key);
+        map.set(key, { node, doc, name: key, redefines: redefining ? previous : undefined });
+    };
+
+    const registerAll = (parent: XmlElement, doc: SchemaDoc, redefining: boolean) => {
+        for (const node of parent.children) {
+            if (!isXs(node)) continue;
+            switch (localName(node)) {
+                case 'simpleType':
+                case 'complexType':
+                    register(registry.types, node, doc, redefining);
+                    break;
+                case 'element': {
+                    register(registry.elements, node, doc, redefining);
+                    const head = attr(node, 'substitutionGroup');
+                    const name = attr(node, 'name');
+                    const resolved = head ? xmlparser.resolve(node, head) : null;
+                    if (resolved && name) {
+                        const key = qn(resolved.ns || (doc.chameleon ? doc.tns : ''), resolved.local);
+                        registry.substitutions.set(key, [...(registry.substitutions.get(key) ?? []), qn(doc.tns, name)]);
+                    }
+                    break;
+                }
+                case 'group':
+                    register(registry.groups, node, doc, redefining);
+                    break;
+                case 'attributeGroup':
+                    register(registry.attributeGroups, node, doc, redefining);
+                    break;
+                case 'attribute':
+                    register(registry.attributes, node, doc, redefining);
+                    break;
+            }
+        }
+    };
+
+    const load = (location: string, includer?: SchemaDoc): SchemaDoc | null => {
+        const key = `${location}|${includer?.tns ?? ''}`;
+        if (loaded.has(key)) return null;
+        loaded.add(key);
+
+        const text = read(location);
+        if (text === null) throw new Error(`Schema document not found: ${location}`);
+        const { root, error } = xmlparser.parse(text);
+        if (!root) throw new Error(`${location}:${error?.line}:${error?.column}: ${error?.message}`);
+        if (!isXs(root, 'schema')) throw new Error(`Not an XML Schema document: ${location}`);
+
+        const own = attr(root, 'targetNamespace');
+        const doc: SchemaDoc = {
+            location,
+            tns: own ?? includer?.tns ?? '',
+            chameleon: own === undefined && Boolean(includer?.tns),
+            elementQualified: attr(root, 'elementFormDefault') === 'qualified',
+            attributeQualified: attr(root, 'attributeFormDefault') === 'qualified',
+        };
+
+        for (const node of xsChildren(root, 'include', 'import', 'redefine')) {
+            const schemaLocation = attr(node, 'schemaLocation');
+            if (!schemaLocation) continue;
+            const target = joinLocation(location, schemaLocation);
+            if (localName(node) === 'import') load(target);
+            else load(target, doc);
+            if (localName(node) === 'redefine') registerAll(node, doc, true);
+        }
+        registerAll(root, doc, false);
+        return doc;
+    };
+
+    const entryDoc = load(entry)!;
+
+    const simpleMemo = new WeakMap<XmlElement, SimpleType>();
+    const complexMemo = new WeakMap<XmlElement, ComplexType>();
+    const elementMemo = new WeakMap<XmlElement, ElementDecl>();
+    const groupMemo = new WeakMap<XmlElement, Term>();
+
+    // a QName used in a schema document, chameleon documents get the includer namespace
+    const reference = (node: XmlElement, value: string, doc: SchemaDoc): string => {
+        const resolved = xmlparser.resolve(node, value);
+        if (!resolved) throw new Error(`${doc.location}: unknown prefix in "${value}"`);
+        const ns = resolved.ns === '' && doc.chameleon ? doc.tns : resolved.ns;
+        return qn(ns, resolved.local);
+    };
+
+    const lookup = (map: Map<string, Source>, name: string, from: Source | null, what: string): Source => {
+        // inside a redefinition, the name refers to the original component
+        if (from?.redefines && from.name === name) return from.redefines;
+        const src = map.get(name);
+        if (!src) throw new Error(`${from?.doc.location ?? entry}: unknown ${what} ${localOf(name)} {${nsOf(name)}}`);
+        return src;
+    };
+
+    const resolveType = (name: string, from: Source): TypeDef => {
+        if (nsOf(name) === XS) {
+            if (localOf(name) === 'anyType') return ANY_TYPE;
+            const type = builtin(localOf(name));
+            if (!type) throw new Error(`${from.doc.location}: unknown built-in type ${localOf(name)}`);
+            return type;
+        }
+        const src = lookup(registry.types, name, from, 'type');
+        return localName(src.node) === 'simpleType' ? compileSimple(src.node, src) : compileComplex(src.node, src);
+    };
+
+    const resolveSimple = (name: string, from: Source): SimpleType => {
+        const type = resolveType(name, from);
+        if (type.kind === 'simple') return type;
+        if (type.simple) return type.simple;
+        return builtin('anySimpleType')!;
+    };
+
+    const restrict = (base: SimpleType, node: XmlElement, name: string): SimpleType => {
+        const type: SimpleType = { ...base, name, patterns: [...base.patterns], facets: { ...base.facets } };
+        const enumeration: string[] = [];
+        const patterns: RegExp[] = [];
+        for (const facet of xsChildren(node)) {
+            const value = attr(facet, 'value');
+            if (value === undefined) continue;
+            const f = localName(facet);
+            if (f === 'enumeration') enumeration.push(value);
+            else if (f === 'pattern') {
+                const regex = toRegExp(value);
+                if (regex) patterns.push(regex);
+            } else if (f === 'whiteSpace') type.whiteSpace = value as WhiteSpace;
+            else if (f in { length: 1, minLength: 1, maxLength: 1, totalDigits: 1, fractionDigits: 1 }
+                || (type.numeric && f in { minInclusive: 1, maxInclusive: 1, minExclusive: 1, maxExclusive: 1 })) {
+                type.facets[f as keyof Facets] = Number(value);
+            }
+        }
+        if (enumeration.length) type.enumeration = enumeration;
+        if (patterns.length) type.patterns.push(patterns);
+        return type;
+    };
+
+    const compileSimple = (node: XmlElement, src: Source): SimpleType => {
+        const memo = simpleMemo.get(node);
+        if (memo) return memo;
+        const name = attr(node, 'name') ?? 'anonymous type';
+        const inline = (parent: XmlElement) => {
+            const child = xsChildren(parent, 'simpleType')[0];
+            return child ? compileSimple(child, src) : builtin('anySimpleType')!;
+        };
+
+        let type: SimpleType = { ...builtin('anySimpleType')!, name };
+        const [restriction] = xsChildren(node, 'restriction');
+        const [list] = xsChildren(node, 'list');
+        const [union] = xsChildren(node, 'union');
+        if (restriction) {
+            const baseName = attr(restriction, 'base');
+            const base = baseName ? resolveSimple(reference(restriction, baseName, src.doc), src) : inline(restriction);
+            // an anonymous restriction is reported with the type it restricts
+            type = restrict(base, restriction, attr(node, 'name') ?? base.name);
+        } else if (list) {
+            const itemName = attr(list, 'itemType');
+            const item = itemName ? resolveSimple(reference(list, itemName, src.doc), src) : inline(list);
+            type = { ...type, variety: 'list', whiteSpace: 'collapse', item };
+        } else if (union) {
+            const members = (attr(union, 'memberTypes') ?? '').split(/\s+/).filter(Boolean)
+                .map((m) => resolveSimple(reference(union, m, src.doc), src));
+            for (const child of xsChildren(union, 'simpleType')) members.push(compileSimple(child, src));
+            type = { ...type, variety: 'union', members };
+        }
+        simpleMemo.set(node, type);
+        return type;
+    };
+
+    const attributeUse = (node: XmlElement, src: Source): AttributeUse => {
+        const ref = attr(node, 'ref');
+        let decl = node;
+        let declSrc = src;
+        let name: string;
+        if (ref) {
+            name = reference(node, ref, src.doc);
+            if (nsOf(name) === 'http://www.w3.org/XML/1998/namespace' && !registry.attributes.has(name)) {
+                // xml:lang and friends, when xml.xsd is not imported
+                return { name, label: `xml:${localOf(name)}`, required: attr(node, 'use') === 'required', type: builtin('string')! };
+            }
+            declSrc = lookup(registry.attributes, name, src, 'attribute');
+            decl = declSrc.node;
+        } else {
+            const qualified = (attr(node, 'form') ?? (src.doc.attributeQualified ? 'qualified' : 'unqualified')) === 'qualified';
+            name = qn(qualified ? src.doc.tns : '', attr(node, 'name') ?? '');
+        }
+        const typeName = attr(decl, 'type');
+        const [inline] = xsChildren(decl, 'simpleType');
+        const type = typeName
+            ? resolveSimple(reference(decl, typeName, declSrc.doc), declSrc)
+            : (inline ? compileSimple(inline, declSrc) : builtin('anySimpleType')!);
+        const prefix = nsOf(name) === 'http://www.w3.org/XML/1998/namespace' ? 'xml:' : '';
+        return {
+            name,
+            label: prefix + localOf(name),
+            required: attr(node, 'use') === 'required',
+            type,
+            fixed: attr(node, 'fixed') ?? attr(decl, 'fixed'),
+        };
+    };
+
+    const addAttributes = (target: ComplexType, parent: XmlElement, src: Source, seen = new Set<XmlElement>()) => {
+        for (const node of xsChildren(parent, 'attribute', 'attributeGroup', 'anyAttribute')) {
+            const kind = localName(node);
+            if (kind === 'anyAttribute') {
+                target.anyAttribute = true;
+            } else if (kind === 'attributeGroup') {
+                const ref = attr(node, 'ref');
+                if (!ref) continue;
+                const group = lookup(registry.attributeGroups, reference(node, ref, src.doc), src, 'attribute group');
+                if (seen.has(group.node)) continue;
+                seen.add(group.node);
+                addAttributes(target, group.node, group, seen);
+            } else if (attr(node, 'use') === 'prohibited') {
+                const ref = attr(node, 'ref');
+                target.attributes.delete(ref ? reference(node, ref, src.doc) : qn('', attr(node, 'name') ?? ''));
+            } else {
+                const use = attributeUse(node, src);
+                target.attributes.set(use.name, use);
+            }
+        }
+    };
+
+    const elementDecl = (node: XmlElement, src: Source, global: boolean): ElementDecl => {
+        const memo = elementMemo.get(node);
+        if (memo) return memo;
+        const local = attr(node, 'name') ?? '';
+        const qualified = global || (attr(node, 'form') ?? (src.doc.elementQualified ? 'qualified' : 'unqualified')) === 'qualified';
+        let resolved: TypeDef | null = null;
+        const decl: ElementDecl = {
+            name: qn(qualified ? src.doc.tns : '', local),
+            label: local,
+            abstract: attr(node, 'abstract') === 'true',
+            nillable: attr(node, 'nillable') === 'true',
+            fixed: attr(node, 'fixed'),
+            // resolved on first use, types may refer back to their own elements
+            type: () => {
+                if (resolved) return resolved;
+                const typeName = attr(node, 'type');
+                const [simple] = xsChildren(node, 'simpleType');
+                const [complex] = xsChildren(node, 'complexType');
+                const head = attr(node, 'substitutionGroup');
+                if (typeName) resolved = resolveType(reference(node, typeName, src.doc), src);
+                else if (simple) resolved = compileSimple(simple, src);
+                else if (complex) resolved = compileComplex(complex, src);
+                else if (head) resolved = globalElement(reference(node, head, src.doc), src).type();
+                else resolved = ANY_TYPE;
+                return resolved;
+            },
+        };
+        elementMemo.set(node, decl);
+        return decl;
+    };
+
+    const globalElement = (name: string, from: Source | null): ElementDecl => {
+        const src = lookup(registry.elements, name, from, 'element');
+        return elementDecl(src.node, src, true);
+    };
+
+    const particle = (node: XmlElement, src: Source): Particle | null => {
+        const min = occurs(attr(node, 'minOccurs'), 1);
+        const max = occurs(attr(node, 'maxOccurs'), 1);
+        if (max === 0) return null;
+        const term = termOf(node, src);
+        return term ? { min, max, term } : null;
+    };
+
+    const termOf = (node: XmlElement, src: Source): Term | null => {
+        const kind = localName(node);
+        if (kind === 'element') {
+            const ref = attr(node, 'ref');
+            const decl = ref ? globalElement(reference(node, ref, src.doc), src) : elementDecl(node, src, false);
+            return { kind: 'element', decl };
+        }
+        if (kind === 'any') {
+            const namespace = attr(node, 'namespace') ?? '##any';
+            const process = (attr(node, 'processContents') ?? 'strict') as Wildcard['process'];
+            if (namespace === '##any') return { kind: 'any', namespaces: null, other: null, process };
+            if (namespace === '##other') return { kind: 'any', namespaces: null, other: src.doc.tns, process };
+            const namespaces = namespace.split(/\s+/).filter(Boolean).map((n) => {
+                if (n === '##targetNamespace') return src.doc.tns;
+                return n === '##local' ? '' : n;
+            });
+            return { kind: 'any', namespaces, other: null, process };
+        }
+        if (kind === 'group') {
+            const ref = attr(node, 'ref');
+            if (!ref) return null;
+            const group = lookup(registry.groups, reference(node, ref, src.doc), src, 'group');
+            const memo = groupMemo.get(group.node);
+            if (memo) return memo;
+            const [model] = xsChildren(group.node, 'sequence', 'choice', 'all');
+            const term = model ? termOf(model, group) : null;
+            if (term) groupMemo.set(group.node, term);
+            return term;
+        }
+        if (kind === 'sequence' || kind === 'choice' || kind === 'all') {
+            const particles = xsChildren(node, 'element', 'group', 'sequence', 'choice', 'any')
+                .map((child) => particle(child, src))
+                .filter((p): p is Particle => p !== null);
+            return { kind: 'group', compositor: kind, particles };
+        }
+        return null;
+    };
+
+    const compileComplex = (node: XmlElement, src: Source): ComplexType => {
+        const memo = complexMemo.get(node);
+        if (memo) return memo;
+        const type: ComplexType = {
+            kind: 'complex',
+            name: attr(node, 'name') ?? 'anonymous type',
+            any: false,
+            mixed: attr(node, 'mixed') === 'true',
+            content: null,
+            simple: null,
+            attributes: new Map(),
+            anyAttribute: false,
+        };
+        complexMemo.set(node, type);
+
+        const [simpleContent] = xsChildren(node, 'simpleContent');
+        const [complexContent] = xsChildren(node, 'complexContent');
+        if (simpleContent) {
+            const [derivation] = xsChildren(simpleContent, 'extension', 'restriction');
+            const baseName = derivation && attr(derivation, 'base');
+            if (derivation && baseName) {
+                const base = resolveType(reference(derivation, baseName, src.doc), src);
+                const simple = base.kind === 'simple' ? base : (base.simple ?? builtin('string')!);
+                if (base.kind === 'complex') {
+                    base.attributes.forEach((use, key) => type.attributes.set(key, use));
+                    type.anyAttribute = base.anyAttribute;
+                }
+                type.simple = localName(derivation) === 'restriction' ? restrict(simple, derivation, simple.name) : simple;
+                addAttributes(type, derivation, src);
+            }
+        } else if (complexContent) {
+            if (attr(complexContent, 'mixed') !== undefined) type.mixed = attr(complexContent, 'mixed') === 'true';
+            const [derivation] = xsChildren(complexContent, 'extension', 'restriction');
+            const baseName = derivation && attr(derivation, 'base');
+            if (derivation && baseName) {
+                const base = resolveType(reference(derivation, baseName, src.doc), src);
+                const [model] = xsChildren(derivation, 'sequence', 'choice', 'all', 'group');
+                const own = model ? particle(model, src) : null;
+                if (localName(derivation) === 'extension' && base.kind === 'complex' && !base.any) {
+                    base.attributes.forEach((use, key) => type.attributes.set(key, use));
+                    type.anyAttribute = base.anyAttribute;
+                    type.content = base.content && own
+                        ? { min: 1, max: 1, term: { kind: 'group', compositor: 'sequence', particles: [base.content, own] } }
+                        : (base.content ?? own);
+                } else {
+                    if (base.kind === 'complex' && !base.any) {
+                        base.attributes.forEach((use, key) => type.attributes.set(key, use));
+                        type.anyAttribute = base.anyAttribute;
+                    }
+                    type.content = own;
+                }
+                addAttributes(type, derivation, src);
+            }
+        } else {
+            const [model] = xsChildren(node, 'sequence', 'choice', 'all', 'group');
+            type.content = model ? particle(model, src) : null;
+            addAttributes(type, node, src);
+        }
+        return type;
+    };
+
+    const substitutionMemo = new Map<string, ElementDecl[]>();
+    const substitutes = (decl: ElementDecl): ElementDecl[] => {
+        const memo = substitutionMemo.get(decl.name);
+        if (memo) return memo;
+        const out: ElementDecl[] = [];
+        const visit = (head: string) => {
+            for (const member of registry.substitutions.get(head) ?? []) {
+                if (out.some((d) => d.name === member)) continue;
+                out.push(globalElement(member, null));
+                visit(member);
+            }
+        };
+        visit(decl.name);
+        substitutionMemo.set(decl.name, out);
+        return out;
+    };
+
+    return {
+        targetNamespace: entryDoc.tns,
+        elements: [...registry.elements.keys()],
+        globalElement: (name) => (registry.elements.has(name) ? globalElement(name, null) : undefined),
+        substitutes,
+    };
+};
+
+// --- Instance validation
+
+interface MatchState {
+    // end positions of the children reached, for the error position
+    furthest: number;
+    // element names tried at each child position
+    expected: Map<number, Set<string>>;
+    // declaration (or wildcard) each child matched
+    matched: Map<number, ElementDecl | Wildcard>;
+}
+
+interface Child {
+    name: string;
+    node: XmlElement;
+}
+
+const validate = (schema: Compiled, xml: string): XsdProblem[] => {
+    const problems: XsdProblem[] = [];
+    const { root, error } = xmlparser.parse(xml);
+    if (!root) {
+        return [{
+            code: 'syntax',
+            line: error?.line ?? 1,
+            column: error?.column ?? 1,
+            path: null,
+            vars: { message: error?.message ?? '' },
+        }];
+    }
+
+    const report = (code: XsdProblemCode, at: { line: number; column: number }, path: TreePath, vars: Record<string, string>) => {
+        problems.push({ code, line: at.line, column: at.column, path: [...path], vars });
+    };
+
+    const ids = new Set<string>();
+    const idrefs: { value: string; line: number; column: number; path: TreePath; element: string }[] = [];
+
+    const qualify = (node: XmlElement): string => {
+        const resolved = xmlparser.resolve(node, node.name);
+        return resolved ? qn(resolved.ns, resolved.local) : qn('', node.name);
+    };
+
+    // null when valid, otherwise what was expected
+    const checkSimple = (type: SimpleType, raw: string): string | null => {
+        const value = normalizeSpace(raw, type.whiteSpace);
+        const expected = describe(type);
+        if (type.variety === 'list') {
+            const items = value.split(' ').filter(Boolean);
+            if (type.item && items.some((item) => checkSimple(type.item!, item) !== null)) return expected;
+            const { length, minLength, maxLength } = type.facets;
+            if (length !== undefined && items.length !== length) return expected;
+            if (minLength !== undefined && items.length < minLength) return expected;
+            if (maxLength !== undefined && items.length > maxLength) return expected;
+        } else if (type.variety === 'union') {
+            if (type.members && type.members.length && !type.members.some((m) => checkSimple(m, raw) === null)) return expected;
+        } else {
+            if (!type.test(value)) return expected;
+            const { length, minLength, maxLength } = type.facets;
+            const size = [...value].length;
+            if (length !== undefined && size !== length) return expected;
+            if (minLength !== undefined && size < minLength) return expected;
+            if (maxLength !== undefined && size > maxLength) return expected;
+            if (type.numeric) {
+                const n = Number(value);
+                const f = type.facets;
+                if ((f.minInclusive !== undefined && n < f.minInclusive)
+                    || (f.maxInclusive !== undefined && n > f.maxInclusive)
+                    || (f.minExclusive !== undefined && n <= f.minExclusive)
+                    || (f.maxExclusive !== undefined && n >= f.maxExclusive)) {
+                    return expected;
+                }
+                if (f.totalDigits !== undefined && value.replace(/[^0-9]/g, '').replace(/^0+/, '').length > f.totalDigits) return expected;
+                if (f.fractionDigits !== undefined && (value.split('.')[1] ?? '').replace(/0+$/, '').length > f.fractionDigits) return expected;
+            }
+        }
+        if (type.patterns.some((alternatives) => !alternatives.some((regex) => regex.test(value)))) return expected;
+        if (type.enumeration && !type.enumeration.includes(value)) return expected;
+        return null;
+    };
+
+    const trackIds = (type: SimpleType, raw: string, at: { line: number; column: number }, path: TreePath, element: string) => {
+        const value = normalizeSpace(raw, 'collapse');
+        const id = type.id ?? type.item?.id;
+        if (id === 'ID') {
+            if (ids.has(value)) report('duplicate-id', at, path, { element, value });
+            ids.add(value);
+        } else if (id === 'IDREF') {
+            for (const ref of value.split(' ').filter(Boolean)) idrefs.push({ value: ref, ...at, path: [...path], element });
+        }
+    };
+
+    const allows = (wildcard: Wildcard, name: string) => {
+        const ns = nsOf(name);
+        if (wildcard.other !== null) return ns !== wildcard.other && ns !== '';
+        return wildcard.namespaces === null || wildcard.namespaces.includes(ns);
+    };
+
+    const matchDecl = (decl: ElementDecl, name: string): ElementDecl | null => {
+        if (decl.name === name) return decl;
+        return schema.substitutes(decl).find((d) => d.name === name) ?? null;
+    };
+
+    // positions reached after matching the particle from each of the starts
+    const matchParticle = (p: Particle, starts: Set<number>, kids: Child[], state: MatchState): Set<number> => {
+        const out = new Set<number>(p.min === 0 ? starts : []);
+        const seen = new Set<number>(starts);
+        let current = starts;
+        for (let k = 1; k <= p.max && current.size; k++) {
+            const next = matchTerm(p.term, current, kids, state);
+            if (k < p.min) {
+                current = next;
+                continue;
+            }
+            next.forEach((pos) => out.add(pos));
+            // once the minimum is reached, an earlier arrival covers a later one
+            current = new Set([...next].filter((pos) => !seen.has(pos)));
+            current.forEach((pos) => seen.add(pos));
+        }
+        return out;
+    };
+
+    const matchTerm = (term: Term, starts: Set<number>, kids: Child[], state: MatchState): Set<number> => {
+        const out = new Set<number>();
+        if (term.kind === 'element' || term.kind === 'any') {
+            for (const pos of starts) {
+                const label = term.kind === 'element' ? term.decl.label : '*';
+                if (!state.expected.has(pos)) state.expected.set(pos, new Set());
+                state.expected.get(pos)!.add(label);
+                if (pos >= kids.length) continue;
+                const matched = term.kind === 'element' ? matchDecl(term.decl, kids[pos].name) : (allows(term, kids[pos].name) ? term : null);
+                if (!matched) continue;
+                state.matched.set(pos, matched);
+                out.add(pos + 1);
+                state.furthest = Math.max(state.furthest, pos + 1);
+            }
+            return out;
+        }
+        if (term.compositor === 'sequence') {
+            let current = starts;
+            for (const p of term.particles) {
+                current = matchParticle(p, current, kids, state);
+                if (!current.size) break;
+            }
+            return current;
+        }
+        // choice, and "all" as a choice repeated once per member
+        const choice = (from: Set<number>) => {
+            const reached = new Set<number>();
+            for (const p of term.particles) matchParticle(p, from, kids, state).forEach((pos) => reached.add(pos));
+            return reached;
+        };
+        if (term.compositor === 'choice') return choice(starts);
+        return matchParticle({ min: 0, max: term.particles.length, term: { kind: 'group', compositor: 'choice', particles: term.particles } }, starts, kids, state);
+    };
+
+    // a child the content model does not account for, looked up by name
+    const findDecl = (particle: Particle | null, name: string): ElementDecl | null => {
+        if (!particle) return null;
+        const term = particle.term;
+        if (term.kind === 'element') return matchDecl(term.decl, name);
+        if (term.kind === 'any') return null;
+        for (const p of term.particles) {
+            const found = findDecl(p, name);
+            if (found) return found;
+        }
+        return null;
+    };
+
+    const validateElement = (node: XmlElement, decl: ElementDecl, path: TreePath) => {
+        const label = decl.label;
+        if (decl.abstract) report('abstract-element', node, path, { element: label });
+        const type = decl.type();
+        const nil = node.attributes.some((a) => xmlparser.resolve(node, a.name, false)?.ns === XSI
+            && a.name.endsWith(':nil') && a.value.trim() === 'true');
+
+        // attributes
+        const declared = type.kind === 'complex' ? type.attributes : new Map<string, AttributeUse>();
+        const present = new Set<string>();
+        for (const a of node.attributes) {
+            if (a.name === 'xmlns' || a.name.startsWith('xmlns:')) continue;
+            const resolved = xmlparser.resolve(node, a.name, false);
+            if (!resolved) {
+                report('unknown-attribute', a, path, { element: label, attribute: a.name });
+                continue;
+            }
+            if (resolved.ns === XSI) continue;
+            const name = qn(resolved.ns, resolved.local);
+            present.add(name);
+            const use = declared.get(name);
+            if (!use) {
+                if (type.kind === 'complex' && type.anyAttribute) continue;
+                report('unknown-attribute', a, path, { element: label, attribute: a.name });
+                continue;
+            }
+            const expected = checkSimple(use.type, a.value);
+            if (expected !== null || (use.fixed !== undefined && normalizeSpace(a.value, use.type.whiteSpace) !== use.fixed)) {
+                report('invalid-attribute', a, path, { element: label, attribute: a.name, value: a.value, expected: expected ?? use.fixed ?? '' });
+            } else {
+                trackIds(use.type, a.value, a, path, label);
+            }
+        }
+        declared.forEach((use, name) => {
+            if (use.required && !present.has(name)) report('missing-attribute', node, path, { element: label, attribute: use.label });
+        });
+        if (nil && decl.nillable) return;
+
+        const kids: Child[] = node.children.map((child) => ({ name: qualify(child), node: child }));
+        const simple = type.kind === 'simple' ? type : type.simple;
+        if (simple || (type.kind === 'complex' && !type.any && !type.content)) {
+            if (kids.length) {
+                report('unexpected-element', kids[0].node, [...path, 0], { element: localOf(kids[0].name), expected: '' });
+                return;
+            }
+            if (simple) {
+                const expected = checkSimple(simple, node.text);
+                if (expected !== null) report('invalid-value', node, path, { element: label, value: node.text.trim(), expected });
+                else if (decl.fixed !== undefined && normalizeSpace(node.text, simple.whiteSpace) !== decl.fixed) {
+                    report('invalid-value', node, path, { element: label, value: node.text.trim(), expected: decl.fixed });
+                } else {
+                    trackIds(simple, node.text, node, path, label);
+                }
+            } else if (type.kind === 'complex' && !type.mixed && node.text.trim()) {
+                report('text-not-allowed', node, path, { element: label });
+            }
+            return;
+        }
+        if (type.kind === 'complex' && type.any) {
+            kids.forEach((kid, index) => {
+                const global = schema.globalElement(kid.name);
+                if (global) validateElement(kid.node, global, [...path, index]);
+            });
+            return;
+        }
+
+        const complex = type as ComplexType;
+        if (!complex.mixed && node.text.trim()) report('text-not-allowed', node, path, { element: label });
+
+        const state: MatchState = { furthest: 0, expected: new Map(), matched: new Map() };
+        const ends = matchParticle(complex.content!, new Set([0]), kids, state);
+        if (!ends.has(kids.length)) {
+            const at = state.furthest;
+            const expected = [...(state.expected.get(at) ?? [])].join(', ');
+            if (at < kids.length) {
+                report('unexpected-element', kids[at].node, [...path, at], { element: localOf(kids[at].name), expected });
+            } else {
+                report('missing-element', node, path, { element: label, expected });
+            }
+        }
+
+        kids.forEach((kid, index) => {
+            const matched = state.matched.get(index);
+            const childPath = [...path, index];
+            if (matched && 'kind' in matched) {
+                // wildcard
+                if (matched.process === 'skip') return;
+                const global = schema.globalElement(kid.name);
+                if (global) validateElement(kid.node, global, childPath);
+                else if (matched.process === 'strict') report('unexpected-element', kid.node, childPath, { element: localOf(kid.name), expected: '' });
+                return;
+            }
+            const childDecl = matched ?? findDecl(complex.content, kid.name) ?? schema.globalElement(kid.name);
+            if (childDecl) validateElement(kid.node, childDecl, childPath);
+        });
+    };
+
+    const rootName = qualify(root);
+    const rootDecl = schema.globalElement(rootName);
+    if (!rootDecl) {
+        report('unknown-root', root, [], { element: localOf(rootName) });
+        return problems;
+    }
+    validateElement(root, rootDecl, []);
+
+    for (const ref of idrefs) {
+        if (!ids.has(ref.value)) report('unknown-idref', ref, ref.path, { element: ref.element, value: ref.value });
+    }
+    return problems.sort((a, b) => a.line - b.line || a.column - b.column);
+};
+
+export const xsd: Xsd = {
+    compile: function(entry, read) {
+        return compile(entry, read);
+    },
+
+    validate: function(schema, xml) {
+        return validate(schema as Compiled, xml);
+    },
+
+    message: function(problem, t) {
+        const text = t(`xsd.${problem.code}`, problem.vars);
+        return problem.vars.expected ? t('xsd.expected', { message: text, expected: problem.vars.expected }) : text;
+    },
+};
+
+export default xsd;
@@ -6,20 +6,39 @@ import type { MenuItemConstructorOptions } from 'electron';
 import * as path from 'path';
 import * as fs from "fs";
 import * as os from "os";
+import { createHash } from 'crypto';
 import { execFile } from 'child_process';
 import { WebR } from "webr";
 import { ungzip } from "pako";
 import { i18n } from './i18n';
 import { utils } from './library/utils';
 import { settings } from './modules/settings';
+import { pdfcodebook } from './modules/pdfcodebook';
 import { MountArgs } from './interfaces/main';
 import { getOrBuildDDITree, JsonValue, DDIBundle } from './modules/dditree';
+import { ddixml } from './library/ddixml';
+import { ddiversions } from './library/ddiversions';
+import { ddilifecycle } from './library/ddilifecycle';
+import { jsonld } from './library/jsonld';
+import { datacite } from './library/datacite';
+import { variables } from './library/variables';
+import { spreadsheet } from './library/spreadsheet';
+import { setupfiles } from './library/setupfiles';
+import type { SetupLanguage } from './interfaces/setupfiles';
+import { dublincore } from './library/dublincore';
+import { project, ProjectDecodeError } from './library/project';
+import { xsd } from './library/xsd';
+import type { XsdProblem, XsdSchema } from './interfaces/xsd';
+import type { ProjectFile, ProjectSource, ProjectUiState } from './interfaces/project';
+import type { NormNode } from './interfaces/codebook';
+import type { DDIVersion, IssueAction } from './interfaces/ddiversions';
+import type { DDILVersion } from './interfaces/ddilifecycle';
 import { NativeRWorker, NativeWorkerInitError } from './modules/nativeWorker';
 
 app.setName('MetadataPublisher');
 
 const SUPPORTED_CODEBOOK_EXTENSIONS = [
-    'xml', 'sav', 'por', 'dta', 'rds', 'sas7bdat', 'xls', 'xlsx'
+    project.extension, 'xml', 'sav', 'por', 'dta', 'rds', 'sas7bdat', 'xls', 'xlsx'
 ];
 
 const getExtension = (filePath: string): string => {
@@ -33,6 +52,14 @@ const isSupportedCodebookFile = (filePath: string): boolean => {
     );
 };
 
+// Formats a dataset can be written back to, with the edited metadata
+const DATA_FILE_FORMATS: { key: string; extensions: string[] }[] = [
+    { key: 'spss', extensions: ['sav'] },
+    { key: 'stata', extensions: ['dta'] },
+    { key: 'r', extensions: ['rds'] },
+    { key: 'sas', extensions: ['sas7bdat'] },
+];
+
 type BackendMode = 'native' | 'webr';
 type NativeInitResult = 'ready' | 'fallback' | 'refused';
 
@@ -46,12 +73,38 @@ let ddielements: any | null = null;
 // Mutable currently loaded codebook (from user XML or dataset)
 let loadedCodebook: JsonValue | null = null;
 
+// Original file the codebook was loaded from (null for dropped file contents)
+let loadedSourcePath: string | null = null;
+
+// XML file the codebook is saved to by File > Save
+let codebookSavePath: string | null = null;
+
+// Data file behind the codebook, when not an XML; a dropped dataset is a copy
+// in the drop folder, kept until another one is dropped or the app quits
+let loadedDatasetPath: string | null = null;
+let keptDropPath: string | null = null;
+
+// Project file of the codebook, and the user notes saved with it
+let projectSavePath: string | null = null;
+let projectNotes = '';
+
+// The edited tree differs from the last loaded or saved one (told by the renderer)
+let codebookDirty = false;
+// The user already answered the unsaved changes prompt for closing the window
+let closeConfirmed = false;
+
 let mainWindow: BrowserWindow;
 const webR = new WebR({ interactive: false });
 
 let booting = true; // Block UI until R is ready and initial data loaded
 let nativeRscriptPath: string | null = null;
 const nativeRLibraryDir = path.join(__dirname, '../src/library/R');
+// DDI Codebook XML schemas, one folder per version with codebook.xsd on top,
+// copied next to the locales in a packaged app
+const schemasDir = app.isPackaged
+    ? path.join(process.resourcesPath, 'schemas')
+    : path.join(__dirname, '../src/library/schemas');
+const compiledSchemas = new Map<DDIVersion, XsdSchema>();
 const nativeRWorker = new NativeRWorker();
 let nativeRInitialized = false;
 let webRInitPromise: Promise<void> | null = null;
@@ -75,12 +128,19 @@ const sanitizeFilename = (name: string): string => name.replace(/[<>:"/\\|?*\u00
 const writeDroppedFile = async (name: string, data: Buffer): Promise<string> => {
     await ensureDropDir();
     const cleanName = sanitizeFilename(name) || 'dropped-file';
-    const dropPath = path.join(DROP_TEMP_DIR, cleanName);
-    // Overwrite any previous temp file with the same name
+    // a folder per drop, a file of the same name can still be the loaded dataset
+    const dropDir = await fs.promises.mkdtemp(path.join(DROP_TEMP_DIR, 'drop-'));
+    const dropPath = path.join(dropDir, cleanName);
     await fs.promises.writeFile(dropPath, data);
     return dropPath;
 };
 
+const removeDroppedFile = async (dropPath: string) => {
+    try {
+        await fs.promises.rm(path.dirname(dropPath), { recursive: true, force: true });
+    } catch { /* noop */ }
+};
+
 type FallbackChoice = 'once' | 'default';
 
 async function notifyNoNativeR(): Promise<void> {
@@ -154,7 +214,7 @@ const writeDiagnosticFile = async (label: string, text: string): Promise<string>
     return dumpPath;
 };
 
-async function loadCodebookFile(hostFilePath: string) {
+async function loadCodebookFile(hostFilePath: string, sourcePath: string | null = hostFilePath) {
     if (!isSupportedCodebookFile(hostFilePath)) {
         dialog.showErrorBox(
             i18n.t('messages.load.failed'),
@@ -163,6 +223,13 @@ async function loadCodebookFile(hostFilePath: string) {
         return;
     }
 
+    if ((await confirmUnsavedChanges()) === 'cancelled') return;
+
+    if (getExtension(hostFilePath) === project.extension) {
+        await openProject(hostFilePath, sourcePath);
+        return;
+    }
+
     // Send message to renderer to start loader (include filename)
     if (mainWindow && !mainWindow.isDestroyed()) {
         try {
@@ -174,6 +241,8 @@ async function loadCodebookFile(hostFilePath: string) {
         }
     }
 
+    // The whole codebook is read, dataDscr included: saving writes the tree back over
+    // the DDI XML file, and a tree read without its variables would save without them.
     try {
         const backendMode = settings.get('backendMode');
         let nativeInitResult = '';
@@ -188,7 +257,7 @@ async function loadCodebookFile(hostFilePath: string) {
                 console.log('[Main] loading codebook via native R', hostFilePath);
 
                 await nativeRWorker.evalRVoid(
-                    `codeBook <- getCodebook("${utils.escapeForR(hostFilePath)}", ignore = "dataDscr", dataset = TRUE)`
+                    `codeBook <- getCodebook("${utils.escapeForR(hostFilePath)}", dataset = TRUE)`
                 );
 
                 const response = await nativeRWorker.evalRString(
@@ -219,7 +288,7 @@ async function loadCodebookFile(hostFilePath: string) {
                 const rPath = `/hostfile/${filename}`;
 
                 await webR.evalRVoid(
-                    `codeBook <- getCodebook("${utils.escapeForR(rPath)}", ignore = "dataDscr", dataset = TRUE)`
+                    `codeBook <- getCodebook("${utils.escapeForR(rPath)}", dataset = TRUE)`
                 );
 
                 const responseWB = await webR.evalRString(
@@ -249,7 +318,7 @@ async function loadCodebookFile(hostFilePath: string) {
 
             const rPath = `/hostfile/${filename}`;
             await webR.evalRVoid(
-                `codeBook <- getCodebook("${utils.escapeForR(rPath)}", ignore = "dataDscr", dataset = TRUE)`
+                `codeBook <- getCodebook("${utils.escapeForR(rPath)}", dataset = TRUE)`
             );
 
             const response = await webR.evalRString(
@@ -259,6 +328,14 @@ async function loadCodebookFile(hostFilePath: string) {
             loadedCodebook = JSON.parse(response) as JsonValue;
         }
 
+        loadedSourcePath = sourcePath;
+        loadedDatasetPath = getExtension(hostFilePath) === 'xml' ? null : hostFilePath;
+        codebookSavePath = (sourcePath && getExtension(sourcePath) === 'xml') ? sourcePath : null;
+        projectSavePath = null;
+        projectNotes = '';
+        Menu.setApplicationMenu(Menu.buildFromTemplate(buildMainMenuTemplate()));
+        updateWindowTitle();
+
         if (mainWindow && !mainWindow.isDestroyed()) {
             mainWindow.webContents.send('xmlcodebook', loadedCodebook);
         }
@@ -272,6 +349,821 @@ async function loadCodebookFile(hostFilePath: string) {
 }
 
 
+// Pending requests sent to the renderer, answered through 'rendererResponse'
+const pendingRequests = new Map<number, (payload: unknown) => void>();
+let nextRequestId = 1;
+
+// Ask the main window for something, optionally giving up after a delay
+function requestRenderer<T>(channel: string, payload?: unknown, timeoutMs = 0): Promise<T> {
+    if (!mainWindow || mainWindow.isDestroyed()) {
+        return Promise.reject(new Error('The main window is not available'));
+    }
+    const id = nextRequestId++;
+    return new Promise((resolve, reject) => {
+        const timer = timeoutMs > 0 ? setTimeout(() => {
+            pendingRequests.delete(id);
+            reject(new Error('The editor did not respond in time'));
+        }, timeoutMs) : null;
+        pendingRequests.set(id, (response) => {
+            if (timer) clearTimeout(timer);
+            resolve(response as T);
+        });
+        mainWindow.webContents.send(channel, id, payload);
+    });
+}
+
+// The renderer edits its own copy of the codebook, ask for the current state;
+// position is the undo history step the copy was taken at, to mark it saved
+async function collectCodebook(): Promise<{ codebook: NormNode | null; position?: number }> {
+    if (!mainWindow || mainWindow.isDestroyed()) {
+        return { codebook: loadedCodebook as NormNode | null };
+    }
+    const collected = await requestRenderer<{ codebook: NormNode | null; position: number } | null>('collectCodebook', undefined, 10000);
+    return collected ?? { codebook: null };
+}
+
+async function requestEditedCodebook(): Promise<NormNode | null> {
+    return (await collectCodebook()).codebook;
+}
+
+// File name of the codebook in the window title, marked while it has unsaved edits
+function updateWindowTitle() {
+    if (!mainWindow || mainWindow.isDestroyed()) return;
+    const current = projectSavePath ?? codebookSavePath ?? loadedSourcePath;
+    const name = current ? `${path.basename(current)} - ${app.getName()}` : app.getName();
+    mainWindow.setTitle(codebookDirty ? `* ${name}` : name);
+    if (process.platform === 'darwin') mainWindow.setDocumentEdited(codebookDirty);
+}
+
+// edits made while the file was written stay unsaved, the renderer reports them
+function markCodebookSaved(position?: number) {
+    codebookDirty = false;
+    mainWindow?.webContents.send('codebookSaved', position);
+    updateWindowTitle();
+}
+
+// Offer to save the unsaved edits before they are lost
+async function confirmUnsavedChanges(): Promise<'clean' | 'saved' | 'discarded' | 'cancelled'> {
+    if (!codebookDirty || !loadedCodebook) return 'clean';
+
+    const res = await dialog.showMessageBox(mainWindow, {
+        type: 'warning',
+        buttons: [
+            i18n.t('messages.unsaved.save'),
+            i18n.t('messages.unsaved.discard'),
+            i18n.t('messages.unsaved.cancel'),
+        ],
+        defaultId: 0,
+        cancelId: 2,
+        message: i18n.t('messages.unsaved.message'),
+        detail: i18n.t('messages.unsaved.detail'),
+    });
+
+    if (res.response === 1) return 'discarded';
+    if (res.response !== 0) return 'cancelled';
+    try {
+        const saved = projectSavePath ? await saveProject() : await saveCodebook();
+        return saved ? 'saved' : 'cancelled';
+    } catch (e: unknown) {
+        dialog.showErrorBox(
+            i18n.t('messages.save.failed'),
+            String((e && (e as Error).message) ? (e as Error).message : e)
+        );
+        return 'cancelled';
+    }
+}
+
+async function promptText(title: string, message: string, value = '', multiline = false): Promise<string | null> {
+    const answer = await requestRenderer<string | null>('promptText', { title, message, value, multiline });
+    return typeof answer === 'string' ? answer.trim() : null;
+}
+
+async function saveCodebookAs(): Promise<boolean> {
+    const fallbackName = loadedSourcePath
+        ? `${path.basename(loadedSourcePath, path.extname(loadedSourcePath))}.xml`
+        : 'codebook.xml';
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: i18n.t('menu.file.savetitle'),
+        defaultPath: codebookSavePath ?? fallbackName,
+        filters: [
+            { name: i18n.t('menu.file.savefilter'), extensions: ['xml'] },
+        ],
+    });
+    if (canceled || !filePath) return false;
+    return saveCodebook(filePath);
+}
+
+async function saveCodebook(filePath?: string | null): Promise<boolean> {
+    const target = filePath ?? codebookSavePath;
+    if (!target) return saveCodebookAs();
+
+    const { codebook: tree, position } = await collectCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.save.failed'), i18n.t('messages.save.nocodebook'));
+        return false;
+    }
+
+    const xml = ddixml.serialize(tree);
+    if (!(await confirmSchemaValid(xml, ddiversions.detect(tree) ?? '2.5', true))) return false;
+    await fs.promises.writeFile(target, xml, 'utf8');
+    console.log('[Main] codebook saved to', target);
+
+    loadedCodebook = tree as unknown as JsonValue;
+    codebookSavePath = target;
+    markCodebookSaved(position);
+    return true;
+}
+
+// The bundled schema of a DDI Codebook version, null when this copy has none
+function codebookSchema(version: DDIVersion): XsdSchema | null {
+    const cached = compiledSchemas.get(version);
+    if (cached) return cached;
+    const dir = path.join(schemasDir, version);
+    if (!fs.existsSync(path.join(dir, 'codebook.xsd'))) return null;
+    const schema = xsd.compile('codebook.xsd', (location) => {
+        try {
+            return fs.readFileSync(path.join(dir, location), 'utf8');
+        } catch {
+            return null;
+        }
+    });
+    compiledSchemas.set(version, schema);
+    return schema;
+}
+
+const schemaMessage = (problem: XsdProblem) => i18n.t('messages.schema.position', {
+    line: String(problem.line),
+    column: String(problem.column),
+    message: xsd.message(problem, (key, vars) => i18n.t(key, vars)),
+});
+
+// Edit > Validate Against XML Schema, the problems are listed in the editor
+async function validateAgainstSchema(): Promise<void> {
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.schema.title'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+    const version = ddiversions.detect(tree) ?? '2.5';
+    const schema = codebookSchema(version);
+    if (!schema) {
+        dialog.showErrorBox(i18n.t('messages.schema.title'), i18n.t('messages.schema.missing', { version }));
+        return;
+    }
+    const problems = xsd.validate(schema, ddixml.serialize(tree));
+    mainWindow?.webContents.send('schemaProblems', { version, problems });
+}
+
+// Checked before the XML is written, the user may still save an invalid codebook,
+// or one that could not be checked
+async function confirmSchemaValid(xml: string, version: DDIVersion, showInTree: boolean): Promise<boolean> {
+    let problems: XsdProblem[] = [];
+    let unchecked: string | null = null;
+    try {
+        const schema = codebookSchema(version);
+        if (schema) problems = xsd.validate(schema, xml);
+        else unchecked = i18n.t('messages.schema.missing', { version });
+    } catch (e: unknown) {
+        unchecked = i18n.t('messages.schema.failed', { message: String((e && (e as Error).message) ? (e as Error).message : e) });
+    }
+    if (unchecked) {
+        const res = await dialog.showMessageBox(mainWindow, {
+            type: 'warning',
+            buttons: [i18n.t('messages.schema.saveanyway'), i18n.t('messages.schema.cancel')],
+            defaultId: 1,
+            cancelId: 1,
+            message: i18n.t('messages.schema.unchecked', { version }),
+            detail: unchecked,
+        });
+        return res.response === 0;
+    }
+    if (!problems.length) return true;
+
+    const lines = problems.slice(0, 10).map(schemaMessage);
+    if (problems.length > 10) lines.push(i18n.t('messages.schema.more', { count: String(problems.length - 10) }));
+    const buttons = showInTree
+        ? [i18n.t('messages.schema.saveanyway'), i18n.t('messages.schema.show'), i18n.t('messages.schema.cancel')]
+        : [i18n.t('messages.schema.saveanyway'), i18n.t('messages.schema.cancel')];
+    const res = await dialog.showMessageBox(mainWindow, {
+        type: 'warning',
+        buttons,
+        defaultId: 1,
+        cancelId: buttons.length - 1,
+        message: i18n.t('messages.schema.invalid', { count: String(problems.length), version }),
+        detail: lines.join('\n'),
+    });
+    if (res.response === 0) return true;
+    if (showInTree && res.response === 1) mainWindow?.webContents.send('schemaProblems', { version, problems });
+    return false;
+}
+
+const hashFile = (filePath: string): Promise<string> => new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    fs.createReadStream(filePath)
+        .on('error', reject)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')));
+});
+
+// Link to the file the codebook came from, with a hash to notice later changes
+async function describeSource(): Promise<ProjectSource | null> {
+    if (!loadedSourcePath) return null;
+    const dataset = getExtension(loadedSourcePath) !== 'xml';
+    try {
+        const stats = await fs.promises.stat(loadedSourcePath);
+        return { path: loadedSourcePath, size: stats.size, sha256: await hashFile(loadedSourcePath), dataset };
+    } catch {
+        // moved or deleted since, keep the link only
+        return { path: loadedSourcePath, size: 0, sha256: '', dataset };
+    }
+}
+
+async function saveProjectAs(): Promise<boolean> {
+    const fallbackName = loadedSourcePath
+        ? `${path.basename(loadedSourcePath, path.extname(loadedSourcePath))}.${project.extension}`
+        : `codebook.${project.extension}`;
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: i18n.t('menu.file.saveprojecttitle'),
+        defaultPath: projectSavePath ?? fallbackName,
+        filters: [
+            { name: i18n.t('menu.file.projectfilter'), extensions: [project.extension] },
+        ],
+    });
+    if (canceled || !filePath) return false;
+    return saveProject(filePath);
+}
+
+async function saveProject(filePath?: string | null): Promise<boolean> {
+    const target = filePath ?? projectSavePath;
+    if (!target) return saveProjectAs();
+
+    const editor = await requestRenderer<{ codebook: NormNode | null; ui: ProjectUiState; position: number } | null>(
+        'collectProjectState', undefined, 10000
+    );
+    if (!editor?.codebook) {
+        dialog.showErrorBox(i18n.t('messages.save.failed'), i18n.t('messages.save.nocodebook'));
+        return false;
+    }
+
+    const file = project.create({
+        codebook: editor.codebook,
+        source: await describeSource(),
+        xmlPath: codebookSavePath,
+        ui: editor.ui,
+        notes: projectNotes,
+    });
+    await fs.promises.writeFile(target, project.encode(file));
+    console.log('[Main] project saved to', target);
+
+    loadedCodebook = editor.codebook as unknown as JsonValue;
+    projectSavePath = target;
+    markCodebookSaved(editor.position);
+    return true;
+}
+
+// Reopen a project file directly, the codebook is already normalized
+async function openProject(filePath: string, sourcePath: string | null): Promise<void> {
+    let file: ProjectFile;
+    try {
+        file = project.decode(await fs.promises.readFile(filePath));
+    } catch (e: unknown) {
+        if (e instanceof ProjectDecodeError) throw new Error(i18n.t(`messages.project.${e.kind}`, e.vars));
+        throw e;
+    }
+
+    let sourceProblem: string | null = null;
+    if (file.source) {
+        if (!fs.existsSync(file.source.path)) {
+            sourceProblem = 'messages.project.sourcemissing';
+        } else if (file.source.sha256 && (await hashFile(file.source.path)) !== file.source.sha256) {
+            sourceProblem = 'messages.project.sourcechanged';
+        }
+    }
+
+    loadedCodebook = file.codebook as unknown as JsonValue;
+    loadedSourcePath = file.source?.path ?? null;
+    loadedDatasetPath = (file.source?.dataset && sourceProblem !== 'messages.project.sourcemissing')
+        ? file.source.path
+        : null;
+    codebookSavePath = file.xmlPath;
+    projectSavePath = sourcePath ? filePath : null;
+    projectNotes = file.notes;
+    try { settings.set('treeLabelMode', file.ui.labelMode); } catch { /* noop */ }
+    Menu.setApplicationMenu(Menu.buildFromTemplate(buildMainMenuTemplate()));
+    codebookDirty = false;
+    updateWindowTitle();
+
+    if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('restoreProject', { codebook: file.codebook, ui: file.ui });
+    }
+    console.log('[Main] project opened', filePath);
+
+    if (sourceProblem && file.source) {
+        await dialog.showMessageBox(mainWindow, {
+            type: 'warning',
+            message: i18n.t(sourceProblem, { file: file.source.path }),
+        });
+    }
+}
+
+async function editProjectNotes(): Promise<void> {
+    const notes = await promptText(
+        i18n.t('messages.project.notestitle'),
+        i18n.t('messages.project.notes'),
+        projectNotes,
+        true
+    );
+    if (notes !== null) projectNotes = notes;
+}
+
+// Ask whether to drop or map the content the target version does not have
+async function resolveVersionIssues(tree: NormNode, version: DDIVersion): Promise<IssueAction | null> {
+    const issues = ddiversions.incompatibilities(tree, version, ddielements);
+    if (!issues.length) return 'drop';
+
+    const MAX_LISTED = 15;
+    const lines = issues.slice(0, MAX_LISTED).map((issue) => {
+        const where = issue.namePath.join(' / ');
+        return issue.attribute ? `${where} @${issue.attribute}` : where;
+    });
+    if (issues.length > MAX_LISTED) {
+        lines.push(i18n.t('messages.export.version.more', { count: String(issues.length - MAX_LISTED) }));
+    }
+
+    const res = await dialog.showMessageBox(mainWindow, {
+        type: 'warning',
+        buttons: [
+            i18n.t('messages.export.version.map'),
+            i18n.t('messages.export.version.drop'),
+            i18n.t('messages.export.cancel'),
+        ],
+        defaultId: 0,
+        cancelId: 2,
+        message: i18n.t('messages.export.version.incompatible', { count: String(issues.length), version }),
+        detail: `${lines.join('\n')}\n\n${i18n.t('messages.export.version.mapdetail')}`,
+        normalizeAccessKeys: true,
+    });
+    if (res.response === 2) return null;
+    return res.response === 0 ? 'map' : 'drop';
+}
+
+async function exportDDIVersion(version: DDIVersion): Promise<void> {
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const action = await resolveVersionIssues(tree, version);
+    if (!action) return;
+
+    const baseName = loadedSourcePath
+        ? path.basename(loadedSourcePath, path.extname(loadedSourcePath))
+        : 'codebook';
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: i18n.t('menu.file.export.ddititle', { version }),
+        defaultPath: `${baseName}_DDI-C_${version.replace('.', '_')}.xml`,
+        filters: [
+            { name: i18n.t('menu.file.savefilter'), extensions: ['xml'] },
+        ],
+    });
+    if (canceled || !filePath) return;
+
+    const converted = ddiversions.convert(tree, version, action, ddielements);
+    const xml = ddixml.serialize(converted);
+    // the converted tree differs from the edited one, the problems cannot be shown on it
+    if (!(await confirmSchemaValid(xml, version, false))) return;
+    await fs.promises.writeFile(filePath, xml, 'utf8');
+    console.log('[Main] codebook exported as DDI-C', version, 'to', filePath);
+}
+
+// DDI agency identifier used in the URNs of DDI Lifecycle exports
+async function ensureAgencyId(forcePrompt = false): Promise<string | null> {
+    const saved = String(settings.get('ddiAgencyId') ?? '');
+    if (!forcePrompt && ddilifecycle.isValidAgency(saved)) return saved;
+
+    const agency = await promptText(
+        i18n.t('settings.agency.title'),
+        i18n.t('settings.agency.message'),
+        saved
+    );
+    if (agency === null) return null;
+    if (!ddilifecycle.isValidAgency(agency)) {
+        dialog.showErrorBox(i18n.t('settings.agency.title'), i18n.t('settings.agency.invalid', { agency }));
+        return null;
+    }
+    try { settings.set('ddiAgencyId', agency); } catch { /* noop */ }
+    return agency;
+}
+
+async function exportLifecycle(version: DDILVersion): Promise<void> {
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const agency = await ensureAgencyId();
+    if (!agency) return;
+
+    const baseName = loadedSourcePath
+        ? path.basename(loadedSourcePath, path.extname(loadedSourcePath))
+        : 'codebook';
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: i18n.t('menu.file.export.ddiltitle', { version }),
+        defaultPath: `${baseName}_DDI-L_${version.replace('.', '_')}.xml`,
+        filters: [
+            { name: i18n.t('menu.file.export.ddilfilter'), extensions: ['xml'] },
+        ],
+    });
+    if (canceled || !filePath) return;
+
+    await fs.promises.writeFile(filePath, ddilifecycle.serialize(tree, { agency, version }), 'utf8');
+    console.log('[Main] codebook exported as DDI-L', version, 'to', filePath);
+}
+
+// Show a generated export in the renderer, then save it where the user chooses
+async function previewAndSave(options: {
+    title: string;
+    message?: string;
+    text: string;
+    defaultPath: string;
+    filters: { name: string; extensions: string[] }[];
+}): Promise<boolean> {
+    const save = await requestRenderer<boolean>('exportPreview', {
+        title: options.title,
+        message: options.message,
+        text: options.text,
+    });
+    if (!save) return false;
+
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: options.title,
+        defaultPath: options.defaultPath,
+        filters: options.filters,
+    });
+    if (canceled || !filePath) return false;
+
+    await fs.promises.writeFile(filePath, options.text, 'utf8');
+    console.log('[Main] export saved to', filePath);
+    return true;
+}
+
+async function exportJsonLd(): Promise<void> {
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const baseName = loadedSourcePath
+        ? path.basename(loadedSourcePath, path.extname(loadedSourcePath))
+        : 'codebook';
+    await previewAndSave({
+        title: i18n.t('menu.file.export.jsonldtitle'),
+        message: i18n.t('menu.file.export.jsonldpreview'),
+        text: jsonld.serialize(tree),
+        defaultPath: `${baseName}.jsonld`,
+        filters: [
+            { name: i18n.t('menu.file.export.jsonldfilter'), extensions: ['jsonld', 'json'] },
+        ],
+    });
+}
+
+async function exportSetupFile(language: SetupLanguage): Promise<void> {
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const { script, warnings } = setupfiles.generate(tree, language);
+    const message = warnings.length
+        ? [i18n.t('messages.export.setup.warnings'), ...warnings.map((w) => `  ${w}`)].join('\n')
+        : i18n.t('messages.export.setup.complete');
+
+    const baseName = loadedSourcePath
+        ? path.basename(loadedSourcePath, path.extname(loadedSourcePath))
+        : 'codebook';
+    const extension = setupfiles.extension(language);
+    await previewAndSave({
+        title: i18n.t('menu.file.export.setuptitle'),
+        message,
+        text: script,
+        defaultPath: `${baseName}.${extension}`,
+        filters: [
+            { name: i18n.t(`menu.file.export.setupfilter.${language}`), extensions: [extension] },
+        ],
+    });
+}
+
+async function exportDataCite(): Promise<void> {
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const { xml, missing } = datacite.serialize(tree);
+    const message = missing.length
+        ? [
+            i18n.t('messages.export.datacite.missing', { count: String(missing.length) }),
+            ...missing.map((m) => i18n.t('messages.export.datacite.property', { property: m.property, source: m.source })),
+        ].join('\n')
+        : i18n.t('messages.export.datacite.complete', { version: datacite.schemaVersion });
+
+    const baseName = loadedSourcePath
+        ? path.basename(loadedSourcePath, path.extname(loadedSourcePath))
+        : 'codebook';
+    await previewAndSave({
+        title: i18n.t('menu.file.export.datacitetitle', { version: datacite.schemaVersion }),
+        message,
+        text: xml,
+        defaultPath: `${baseName}_DataCite.xml`,
+        filters: [
+            { name: i18n.t('menu.file.export.datacitefilter'), extensions: ['xml'] },
+        ],
+    });
+}
+
+async function exportDublinCore(variant: 'oai_dc' | 'dcterms'): Promise<void> {
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const baseName = loadedSourcePath
+        ? path.basename(loadedSourcePath, path.extname(loadedSourcePath))
+        : 'codebook';
+    const rdf = variant === 'dcterms';
+    await previewAndSave({
+        title: i18n.t(rdf ? 'menu.file.export.dctermstitle' : 'menu.file.export.oaidctitle'),
+        text: rdf ? dublincore.serializeRdf(tree) : dublincore.serializeOaiDC(tree),
+        defaultPath: rdf ? `${baseName}_DCTERMS.rdf` : `${baseName}_oai_dc.xml`,
+        filters: [
+            rdf
+                ? { name: i18n.t('menu.file.export.dctermsfilter'), extensions: ['rdf', 'xml'] }
+                : { name: i18n.t('menu.file.export.oaidcfilter'), extensions: ['xml'] },
+        ],
+    });
+}
+
+async function exportHtmlCodebook(): Promise<void> {
+    // rendered by the editor, which has the element titles in the UI language
+    const html = await requestRenderer<string | null>('renderHtmlCodebook', undefined, 30000);
+    if (!html) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const baseName = loadedSourcePath
+        ? path.basename(loadedSourcePath, path.extname(loadedSourcePath))
+        : 'codebook';
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: i18n.t('menu.file.export.htmltitle'),
+        defaultPath: `${baseName}_codebook.html`,
+        filters: [
+            { name: i18n.t('menu.file.export.htmlfilter'), extensions: ['html', 'htm'] },
+        ],
+    });
+    if (canceled || !filePath) return;
+
+    await fs.promises.writeFile(filePath, html, 'utf8');
+    console.log('[Main] HTML codebook exported to', filePath);
+}
+
+async function exportPdfCodebook(): Promise<void> {
+    const baseName = loadedSourcePath
+        ? path.basename(loadedSourcePath, path.extname(loadedSourcePath))
+        : 'codebook';
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: i18n.t('menu.file.export.pdftitle'),
+        defaultPath: `${baseName}_codebook.pdf`,
+        filters: [
+            { name: i18n.t('menu.file.export.pdffilter'), extensions: ['pdf'] },
+        ],
+    });
+    if (canceled || !filePath) return;
+
+    const html = await requestRenderer<string | null>('renderHtmlCodebook', { print: true }, 30000);
+    if (!html) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    mainWindow?.webContents.send('addCover', i18n.t('messages.export.pdf.progress'));
+    try {
+        const pdf = await pdfcodebook.print(html);
+        await fs.promises.writeFile(filePath, pdf);
+        console.log('[Main] PDF codebook exported to', filePath);
+    } finally {
+        if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('removeCover');
+        }
+    }
+}
+
+// Run R code on host files, with the native backend when it is selected,
+// else in WebR with the directories of the files mounted. The code receives
+// the paths as R sees them, already escaped for a double quoted R string.
+async function evalRWithFiles(
+    hostPaths: string[],
+    code: (rPaths: string[]) => string,
+    returnsString = false
+): Promise<string> {
+    const useNative = settings.get('backendMode') === 'native'
+        && (await ensureNativeRInitialized()) === 'ready'
+        && Boolean(nativeRscriptPath);
+
+    if (useNative) {
+        const rCode = code(hostPaths.map((p) => utils.escapeForR(p)));
+        if (returnsString) return nativeRWorker.evalRString(rCode);
+        await nativeRWorker.evalRVoid(rCode);
+        return '';
+    }
+
+    await ensureWebRInitialized();
+    const dirs = [...new Set(hostPaths.map((p) => path.dirname(p)))];
+    for (const [idx, dir] of dirs.entries()) {
+        await mount({ what: dir, where: `/hostio${idx + 1}` });
+    }
+    const rCode = code(hostPaths.map((p) => (
+        utils.escapeForR(`/hostio${dirs.indexOf(path.dirname(p)) + 1}/${path.basename(p)}`)
+    )));
+    if (returnsString) return webR.evalRString(rCode);
+    await webR.evalRVoid(rCode);
+    return '';
+}
+
+// Write the dataset again, with the edited variable metadata, through DDIwR
+async function exportDataFile(): Promise<void> {
+    const source = loadedDatasetPath;
+    if (!source) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.export.data.nodataset'));
+        return;
+    }
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const sourceExt = getExtension(source);
+    const defaultFormat = DATA_FILE_FORMATS.find((f) => f.extensions.includes(sourceExt)) ?? DATA_FILE_FORMATS[0];
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: i18n.t('menu.file.export.datatitle'),
+        defaultPath: `${path.basename(source, path.extname(source))}_edited.${defaultFormat.extensions[0]}`,
+        filters: [defaultFormat, ...DATA_FILE_FORMATS.filter((f) => f !== defaultFormat)].map((f) => ({
+            name: i18n.t(`menu.file.export.data.${f.key}`),
+            extensions: f.extensions,
+        })),
+    });
+    if (canceled || !filePath) return;
+
+    const targetExt = getExtension(filePath);
+    if (!DATA_FILE_FORMATS.some((f) => f.extensions.includes(targetExt))) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.export.data.format', { ext: targetExt }));
+        return;
+    }
+
+    // the metadata goes to R through a file, R code strings would be too long
+    await ensureDropDir();
+    const metadataPath = path.join(DROP_TEMP_DIR, `${Date.now()}-variable-metadata.json`);
+    await fs.promises.writeFile(metadataPath, JSON.stringify(variables.all(tree)), 'utf8');
+
+    mainWindow?.webContents.send('addCover', i18n.t('messages.export.data.progress'));
+    try {
+        await evalRWithFiles(
+            [source, metadataPath, filePath],
+            ([rSource, rMetadata, rTarget]) => `write_dataset_metadata("${rSource}", "${rMetadata}", "${rTarget}")`
+        );
+        console.log('[Main] data file with metadata written to', filePath);
+    } finally {
+        fs.promises.rm(metadataPath, { force: true }).catch(() => undefined);
+        if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('removeCover');
+        }
+    }
+}
+
+async function exportVariableSheet(): Promise<void> {
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.export.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const baseName = loadedSourcePath
+        ? path.basename(loadedSourcePath, path.extname(loadedSourcePath))
+        : 'codebook';
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        title: i18n.t('menu.file.export.sheettitle'),
+        defaultPath: `${baseName}_variables.xlsx`,
+        filters: [
+            { name: i18n.t('menu.file.sheet.xlsx'), extensions: ['xlsx'] },
+            { name: i18n.t('menu.file.sheet.csv'), extensions: ['csv'] },
+        ],
+    });
+    if (canceled || !filePath) return;
+
+    const rows = spreadsheet.toRows(variables.all(tree));
+    if (getExtension(filePath) === 'csv') {
+        await fs.promises.writeFile(filePath, spreadsheet.toCSV(rows), 'utf8');
+    } else {
+        await ensureDropDir();
+        const rowsPath = path.join(DROP_TEMP_DIR, `${Date.now()}-variable-rows.json`);
+        await fs.promises.writeFile(rowsPath, JSON.stringify(rows), 'utf8');
+        try {
+            await evalRWithFiles(
+                [rowsPath, filePath],
+                ([rRows, rTarget]) => `write_metadata_xlsx(readLines("${rRows}", warn = FALSE, encoding = "UTF-8"), "${rTarget}")`
+            );
+        } finally {
+            fs.promises.rm(rowsPath, { force: true }).catch(() => undefined);
+        }
+    }
+    console.log('[Main] variable metadata exported to', filePath);
+}
+
+// Merge an edited variable metadata spreadsheet into the codebook, after
+// showing what would be added and changed
+async function importVariableSheet(): Promise<void> {
+    const tree = await requestEditedCodebook();
+    if (!tree) {
+        dialog.showErrorBox(i18n.t('messages.import.failed'), i18n.t('messages.save.nocodebook'));
+        return;
+    }
+
+    const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+        title: i18n.t('menu.file.import.sheettitle'),
+        filters: [
+            { name: i18n.t('menu.file.sheet.any'), extensions: ['xlsx', 'xls', 'csv'] },
+        ],
+        properties: ['openFile'],
+    });
+    if (canceled || !filePaths.length) return;
+    const filePath = filePaths[0];
+
+    let rows: unknown[][];
+    if (getExtension(filePath) === 'csv') {
+        rows = spreadsheet.parseCSV(await fs.promises.readFile(filePath, 'utf8'));
+    } else {
+        const json = await evalRWithFiles([filePath], ([rPath]) => `read_metadata_xlsx("${rPath}")`, true);
+        rows = JSON.parse(json) as unknown[][];
+    }
+
+    const { variables: updates, problems: found } = spreadsheet.fromRows(rows);
+    const problems = found.map((p) => i18n.t(`messages.import.sheet.problem.${p.kind}`, p.vars));
+    if (!updates.length) {
+        dialog.showErrorBox(i18n.t('messages.import.failed'), problems.join('\n') || i18n.t('messages.import.sheet.empty'));
+        return;
+    }
+
+    const changes = variables.compare(tree, updates);
+    const MAX_LISTED = 20;
+    const section = (title: string, lines: string[]) => {
+        if (!lines.length) return [];
+        const listed = lines.slice(0, MAX_LISTED);
+        if (lines.length > MAX_LISTED) {
+            listed.push(i18n.t('messages.export.version.more', { count: String(lines.length - MAX_LISTED) }));
+        }
+        return [title, ...listed.map((line) => `  ${line}`), ''];
+    };
+    const detail = [
+        ...section(i18n.t('messages.import.sheet.added', { count: String(changes.added.length) }), changes.added),
+        ...section(
+            i18n.t('messages.import.sheet.changed', { count: String(changes.changed.length) }),
+            changes.changed.map((c) => `${c.name}: ${c.fields.join(', ')}`)
+        ),
+        ...section(i18n.t('messages.import.sheet.unmatched', { count: String(changes.unmatched.length) }), changes.unmatched),
+        ...section(i18n.t('messages.import.sheet.problems', { count: String(problems.length) }), problems),
+    ].join('\n').trim();
+
+    if (!changes.added.length && !changes.changed.length) {
+        await dialog.showMessageBox(mainWindow, {
+            type: 'info',
+            message: i18n.t('messages.import.sheet.nochanges'),
+            detail,
+        });
+        return;
+    }
+
+    const res = await dialog.showMessageBox(mainWindow, {
+        type: 'question',
+        buttons: [i18n.t('messages.import.sheet.apply'), i18n.t('messages.export.cancel')],
+        defaultId: 0,
+        cancelId: 1,
+        message: i18n.t('messages.import.sheet.review', { file: path.basename(filePath) }),
+        detail,
+    });
+    if (res.response !== 0) return;
+
+    // an edit like any other, undoable and unsaved until File > Save
+    const merged = variables.apply(tree, updates, { elements: ddielements });
+    mainWindow?.webContents.send('replaceCodebook', merged);
+}
+
 async function mount(obj: MountArgs) {
 
     try {
@@ -470,6 +1362,17 @@ function createMainWindow() {
         setTimeout(() => mainWindow.focus(), 300);
     }
 
+    // Ask before closing (and quitting) with unsaved edits
+    mainWindow.on('close', (event) => {
+        if (!codebookDirty || closeConfirmed) return;
+        event.preventDefault();
+        confirmUnsavedChanges().then((choice) => {
+            if (choice === 'cancelled') return;
+            closeConfirmed = true;
+            mainWindow.close();
+        }).catch(() => undefined);
+    });
+
     windowid.mainWindow = mainWindow.id;
 }
 
@@ -495,6 +1398,22 @@ function setupIPC() {
                 return;
             }
 
+            if (channel === 'dirtyChanged') {
+                codebookDirty = Boolean(args[0]);
+                updateWindowTitle();
+                return;
+            }
+
+            if (channel === 'rendererResponse') {
+                const id = Number(args[0]);
+                const resolve = pendingRequests.get(id);
+                if (resolve) {
+                    pendingRequests.delete(id);
+                    resolve(args[1] ?? null);
+                }
+                return;
+            }
+
             if (channel === 'loadFile') {
                 const filePath = String(args[0] ?? '');
                 if (filePath) {
@@ -545,10 +1464,21 @@ function setupIPC() {
             } catch { /* noop */ }
             const filePath = await writeDroppedFile(name, payload);
             try {
-                await loadCodebookFile(filePath);
+                await loadCodebookFile(filePath, null);
+            } catch (e: unknown) {
+                dialog.showErrorBox(
+                    i18n.t('messages.load.failed'),
+                    String((e && (e as Error).message) ? (e as Error).message : e)
+                );
             } finally {
-                // Cleanup temp file immediately after reading
-                try { await fs.promises.unlink(filePath); } catch { /* noop */ }
+                // a dataset now behind the codebook is read again by the data export,
+                // anything else goes right after reading
+                if (loadedDatasetPath === filePath) {
+                    if (keptDropPath && keptDropPath !== filePath) await removeDroppedFile(keptDropPath);
+                    keptDropPath = filePath;
+                } else {
+                    await removeDroppedFile(filePath);
+                }
                 try { mainWindow?.webContents.send('removeCover'); } catch { /* noop */ }
             }
             return filePath;
@@ -556,6 +1486,70 @@ function setupIPC() {
     } catch { /* noop: handler may already be registered in some hot-reload flows */ }
 }
 
+function buildExportSubmenu(): MenuItemConstructorOptions[] {
+    const reportFailure = (e: unknown) => {
+        dialog.showErrorBox(
+            i18n.t('messages.export.failed'),
+            String((e && (e as Error).message) ? (e as Error).message : e)
+        );
+    };
+
+    return [
+        ...ddiversions.versions.map((version) => ({
+            label: i18n.t('menu.file.export.ddi', { version }),
+            click: () => { exportDDIVersion(version).catch(reportFailure); },
+        })),
+        { type: 'separator' },
+        ...ddilifecycle.versions.map((version) => ({
+            label: i18n.t('menu.file.export.ddil', { version }),
+            click: () => { exportLifecycle(version).catch(reportFailure); },
+        })),
+        { type: 'separator' },
+        {
+            label: i18n.t('menu.file.export.html'),
+            click: () => { exportHtmlCodebook().catch(reportFailure); },
+        },
+        {
+            label: i18n.t('menu.file.export.pdf'),
+            click: () => { exportPdfCodebook().catch(reportFailure); },
+        },
+        { type: 'separator' },
+        {
+            label: i18n.t('menu.file.export.data'),
+            enabled: Boolean(loadedDatasetPath),
+            click: () => { exportDataFile().catch(reportFailure); },
+        },
+        {
+            label: i18n.t('menu.file.export.sheet'),
+            click: () => { exportVariableSheet().catch(reportFailure); },
+        },
+        {
+            label: i18n.t('menu.file.export.setup'),
+            submenu: setupfiles.languages.map((language) => ({
+                label: i18n.t(`menu.file.export.setup.${language}`),
+                click: () => { exportSetupFile(language).catch(reportFailure); },
+            })),
+        },
+        { type: 'separator' },
+        {
+            label: i18n.t('menu.file.export.jsonld'),
+            click: () => { exportJsonLd().catch(reportFailure); },
+        },
+        {
+            label: i18n.t('menu.file.export.datacite'),
+            click: () => { exportDataCite().catch(reportFailure); },
+        },
+        {
+            label: i18n.t('menu.file.export.oaidc'),
+            click: () => { exportDublinCore('oai_dc').catch(reportFailure); },
+        },
+        {
+            label: i18n.t('menu.file.export.dcterms'),
+            click: () => { exportDublinCore('dcterms').catch(reportFailure); },
+        },
+    ];
+}
+
 function buildMainMenuTemplate(): MenuItemConstructorOptions[] {
     const fileSubmenu: MenuItemConstructorOptions[] = [
         { // Load
@@ -584,14 +1578,160 @@ function buildMainMenuTemplate(): MenuItemConstructorOptions[] {
                 }
             }
         },
+        { type: 'separator' },
+        { // Save
+            label: i18n.t('menu.file.save'),
+            accelerator: 'CommandOrControl+S',
+            enabled: Boolean(loadedCodebook),
+            click: () => {
+                saveCodebook().catch((e: unknown) => {
+                    dialog.showErrorBox(
+                        i18n.t('messages.save.failed'),
+                        String((e && (e as Error).message) ? (e as Error).message : e)
+                    );
+                });
+            }
+        },
+        { // Save As
+            label: i18n.t('menu.file.saveas'),
+            accelerator: 'CommandOrControl+Shift+S',
+            enabled: Boolean(loadedCodebook),
+            click: () => {
+                saveCodebookAs().catch((e: unknown) => {
+                    dialog.showErrorBox(
+                        i18n.t('messages.save.failed'),
+                        String((e && (e as Error).message) ? (e as Error).message : e)
+                    );
+                });
+            }
+        },
+        { type: 'separator' },
+        {
+            label: i18n.t('menu.file.saveproject'),
+            enabled: Boolean(loadedCodebook),
+            click: () => {
+                saveProject().catch((e: unknown) => {
+                    dialog.showErrorBox(
+                        i18n.t('messages.save.failed'),
+                        String((e && (e as Error).message) ? (e as Error).message : e)
+                    );
+                });
+            }
+        },
+        {
+            label: i18n.t('menu.file.saveprojectas'),
+            enabled: Boolean(loadedCodebook),
+            click: () => {
+                saveProjectAs().catch((e: unknown) => {
+                    dialog.showErrorBox(
+                        i18n.t('messages.save.failed'),
+                        String((e && (e as Error).message) ? (e as Error).message : e)
+                    );
+                });
+            }
+        },
+        {
+            label: i18n.t('menu.file.projectnotes'),
+            enabled: Boolean(loadedCodebook),
+            click: () => { editProjectNotes().catch(() => undefined); }
+        },
+        { type: 'separator' },
+        {
+            label: i18n.t('menu.file.export'),
+            enabled: Boolean(loadedCodebook),
+            submenu: buildExportSubmenu(),
+        },
+        {
+            label: i18n.t('menu.file.import.sheet'),
+            enabled: Boolean(loadedCodebook),
+            click: () => {
+                importVariableSheet().catch((e: unknown) => {
+                    dialog.showErrorBox(
+                        i18n.t('messages.import.failed'),
+                        String((e && (e as Error).message) ? (e as Error).message : e)
+                    );
+                });
+            }
+        },
+        { type: 'separator' },
         { role: 'quit', label: i18n.t('menu.quit') },
     ];
 
     const editMenu: MenuItemConstructorOptions = {
         label: i18n.t('menu.edit'),
         submenu: [
-        { role: 'undo', label: i18n.t('menu.edit.undo') },
-        { role: 'redo', label: i18n.t('menu.edit.redo') },
+        // the renderer undoes tree edits, or the typing in a text field
+        {
+            label: i18n.t('menu.edit.undo'),
+            accelerator: 'CommandOrControl+Z',
+            click: () => { mainWindow?.webContents.send('editUndo'); },
+        },
+        {
+            label: i18n.t('menu.edit.redo'),
+            accelerator: Windows_OS ? 'Control+Y' : 'CommandOrControl+Shift+Z',
+            click: () => { mainWindow?.webContents.send('editRedo'); },
+        },
+        { type: 'separator' },
+        // the search box above the tree, and its matches one after the other
+        {
+            label: i18n.t('menu.edit.find'),
+            accelerator: 'CommandOrControl+F',
+            enabled: Boolean(loadedCodebook),
+            click: () => { mainWindow?.webContents.send('findInTree'); },
+        },
+        {
+            label: i18n.t('menu.edit.findnext'),
+            accelerator: 'F3',
+            enabled: Boolean(loadedCodebook),
+            click: () => { mainWindow?.webContents.send('findNext'); },
+        },
+        {
+            label: i18n.t('menu.edit.findprevious'),
+            accelerator: 'Shift+F3',
+            enabled: Boolean(loadedCodebook),
+            click: () => { mainWindow?.webContents.send('findPrevious'); },
+        },
+        {
+            label: i18n.t('menu.edit.replace'),
+            // Command+H hides the application on macOS
+            accelerator: process.platform === 'darwin' ? 'Command+Alt+F' : 'Control+H',
+            enabled: Boolean(loadedCodebook),
+            click: () => { mainWindow?.webContents.send('findReplace'); },
+        },
+        { type: 'separator' },
+        // the renderer checks the tree against the DDIC and lists the problems
+        {
+            label: i18n.t('menu.edit.validate'),
+            accelerator: 'F7',
+            enabled: Boolean(loadedCodebook),
+            click: () => { mainWindow?.webContents.send('validateCodebook'); },
+        },
+        {
+            label: i18n.t('menu.edit.validateschema'),
+            accelerator: 'Shift+F7',
+            enabled: Boolean(loadedCodebook),
+            click: () => {
+                validateAgainstSchema().catch((e: unknown) => {
+                    dialog.showErrorBox(
+                        i18n.t('messages.schema.title'),
+                        i18n.t('messages.schema.failed', { message: String((e && (e as Error).message) ? (e as Error).message : e) })
+                    );
+                });
+            },
+        },
+        { type: 'separator' },
+        // language variants side by side, and the elements lacking a translation
+        {
+            label: i18n.t('menu.edit.multilingual'),
+            accelerator: 'CmdOrCtrl+Shift+L',
+            enabled: Boolean(loadedCodebook),
+            click: () => { mainWindow?.webContents.send('openMultilingual'); },
+        },
+        {
+            label: i18n.t('menu.edit.translations'),
+            enabled: Boolean(loadedCodebook),
+            click: () => { mainWindow?.webContents.send('translationReport'); },
+        },
         { type: 'separator' },
         { role: 'cut', label: i18n.t('menu.edit.cut') },
         { role: 'copy', label: i18n.t('menu.edit.copy') },
@@ -654,7 +1794,17 @@ function buildMainMenuTemplate(): MenuItemConstructorOptions[] {
     ];
 
     const currentBackendMode = settings.get('backendMode');
-    const setBackend = (mode: BackendMode) => {
+    const setBackend = async (mode: BackendMode) => {
+        const unsaved = await confirmUnsavedChanges();
+        if (unsaved === 'cancelled') {
+            // put the radio check mark back
+            Menu.setApplicationMenu(Menu.buildFromTemplate(buildMainMenuTemplate()));
+            return;
+        }
+        if (unsaved === 'discarded' && mainWindow && !mainWindow.isDestroyed()) {
+            // back to the codebook as last loaded or saved
+            mainWindow.webContents.send('xmlcodebook', loadedCodebook);
+        }
         try { settings.set('backendMode', mode); } catch { /* noop */ }
         const mainMenu = Menu.buildFromTemplate(buildMainMenuTemplate());
         Menu.setApplicationMenu(mainMenu);
@@ -671,13 +1821,13 @@ function buildMainMenuTemplate(): MenuItemConstructorOptions[] {
             label: i18n.t('settings.backend.native'),
             type: 'radio',
             checked: currentBackendMode === 'native',
-            click: () => setBackend('native')
+            click: () => { setBackend('native').catch(() => undefined); }
         },
         {
             label: i18n.t('settings.backend.webr'),
             type: 'radio',
             checked: currentBackendMode === 'webr',
-            click: () => setBackend('webr')
+            click: () => { setBackend('webr').catch(() => undefined); }
         },
     ];
 
@@ -691,6 +1841,11 @@ function buildMainMenuTemplate(): MenuItemConstructorOptions[] {
             label: i18n.t('settings.backend'),
             submenu: backendSubmenu
         },
+        { type: 'separator' },
+        {
+            label: i18n.t('settings.agency'),
+            click: () => { ensureAgencyId(true).catch(() => { /* noop */ }); }
+        },
     ];
 
     template.push({
@@ -770,3 +1925,10 @@ app.whenReady().then(async () => {
 app.on('window-all-closed', () => {
     app.quit();
 });
+
+app.on('will-quit', () => {
+    if (!keptDropPath) return;
+    try {
+        fs.rmSync(path.dirname(keptDropPath), { recursive: true, force: true });
+    } catch { /* noop */ }
+});
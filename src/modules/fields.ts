@@ -0,0 +1,213 @@
+import { i18n } from '../i18n';
+import * as path from 'path';
+import type { FieldKind, Fields } from '../interfaces/fields';
+import { ddixml } from '../library/ddixml';
+import { renderutils } from '../library/renderutils';
+import { validation } from '../library/validation';
+
+// Editor controls chosen from the DDIC datatype of a value. A value that does not
+// parse keeps its text, so that nothing is lost while typing, and gets an error tooltip.
+
+const NONNEGATIVE_TYPES = ['nonnegativeinteger', 'positiveinteger'];
+const INTEGER_TYPES = ['integer', 'int', 'long', 'short'];
+const DECIMAL_TYPES = ['decimal', 'double', 'float', 'number'];
+
+// ISO 8601 forms accepted by each date type, partial dates included
+const DATE_FORMATS: Record<string, string> = {
+    date: 'YYYY-MM-DD',
+    gyear: 'YYYY',
+    gyearmonth: 'YYYY-MM',
+    datetime: 'YYYY[-MM[-DD[Thh:mm[:ss]]]]',
+    datesimpletype: 'YYYY[-MM[-DD]]',
+    partialdate: 'YYYY[-MM[-DD]]',
+};
+
+// part of a picked YYYY-MM-DD kept by the types narrower than a date
+const PICKED_LENGTH: Record<string, number> = { gyear: 4, gyearmonth: 7 };
+
+// enumerations that read as yes / no, on value first
+const TOGGLE_PAIRS = [['y', 'n'], ['yes', 'no'], ['true', 'false']];
+
+const baseType = (type?: string): string => String(type ?? '').replace(/^.*:/, '').toLowerCase();
+
+const togglePair = (type: string | undefined, values: string[]): [string, string] | null => {
+    if (!values.length) return baseType(type) === 'boolean' ? ['true', 'false'] : null;
+    if (values.length !== 2) return null;
+    for (const [on, off] of TOGGLE_PAIRS) {
+        const yes = values.find((v) => v.toLowerCase() === on);
+        const no = values.find((v) => v.toLowerCase() === off);
+        if (yes !== undefined && no !== undefined) return [yes, no];
+    }
+    return null;
+};
+
+const t = (key: string, vars?: Record<string, string>) => i18n.t(key, vars, path.resolve(__dirname));
+
+// message for a value that does not fit its control, null when it does
+const problemOf = (kind: FieldKind, type: string | undefined, choices: string[], value: string): string | null => {
+    if (value === '') return null;
+    if (kind === 'choice') {
+        return choices.includes(value) ? null : t('fields.invalid.choice', { value, values: choices.join(', ') });
+    }
+    if (validation.checkValue(type, value)) return null;
+    switch (kind) {
+        case 'integer':
+        case 'signed-integer':
+            return t('fields.invalid.integer', { value });
+        case 'decimal':
+            return t('fields.invalid.decimal', { value });
+        case 'date':
+            return t('fields.invalid.date', { value, format: DATE_FORMATS[baseType(type)] });
+        default:
+            return t('fields.invalid.type', { value, type: String(type) });
+    }
+};
+
+export const fields: Fields = {
+
+    kind: (type, values, value) => {
+        const pair = togglePair(type, values);
+        if (pair && pair.includes(value)) return 'toggle';
+        if (values.length || pair) return 'choice';
+        const base = baseType(type);
+        if (NONNEGATIVE_TYPES.includes(base)) return 'integer';
+        if (INTEGER_TYPES.includes(base)) return 'signed-integer';
+        if (DECIMAL_TYPES.includes(base)) return 'decimal';
+        if (base in DATE_FORMATS) return 'date';
+        return 'text';
+    },
+
+    create: (options) => {
+        const values = options.values ?? [];
+        const kind = fields.kind(options.type, values, options.value);
+        const pair = togglePair(options.type, values);
+
+        if (kind === 'toggle' && pair) {
+            const toggle = document.createElement('label');
+            toggle.className = 'field-toggle';
+            const box = document.createElement('input');
+            box.type = 'checkbox';
+            box.setAttribute('role', 'switch');
+            if (options.id) box.id = options.id;
+            box.checked = options.value === pair[0];
+            const text = document.createElement('span');
+            text.className = 'field-toggle__text';
+            const show = () => { text.textContent = t(box.checked ? 'fields.yes' : 'fields.no'); };
+            show();
+            box.addEventListener('change', () => {
+                show();
+                options.onChange(box.checked ? pair[0] : pair[1]);
+            });
+            toggle.appendChild(box);
+            toggle.appendChild(text);
+            return toggle;
+        }
+
+        const choices = values.length ? values : (pair ?? []);
+        let control: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+        if (kind === 'choice') {
+            const select = document.createElement('select');
+            // a value outside the list is kept, so that opening the element does not change it
+            const listed = choices.includes(options.value) ? choices : [options.value, ...choices];
+            for (const value of listed) {
+                const option = document.createElement('option');
+                option.value = value;
+                option.textContent = value;
+                select.appendChild(option);
+            }
+            select.value = options.value;
+            control = select;
+        } else if (kind === 'text' && options.multiline) {
+            const area = document.createElement('textarea');
+            area.rows = 7;
+            area.defaultValue = options.value;
+            control = area;
+        } else {
+            const input = document.createElement('input');
+            input.type = 'text';
+            input.defaultValue = options.value;
+            control = input;
+        }
+        control.className = 'form-control';
+        if (options.id) control.id = options.id;
+        control.setAttribute('aria-required', String(Boolean(options.required)));
+
+        const check = (): boolean => {
+            const message = problemOf(kind, options.type, choices, control.value.trim());
+            if (message) {
+                // the tooltip renders HTML, the value is the user's text
+                renderutils.addTooltip(control, ddixml.escapeText(message));
+                renderutils.addHighlight(control);
+                control.setAttribute('aria-invalid', 'true');
+            } else {
+                renderutils.clearTooltip(control);
+                renderutils.clearHighlight(control);
+                control.removeAttribute('aria-invalid');
+            }
+            return !message;
+        };
+
+        control.addEventListener('change', () => {
+            if (!(control instanceof HTMLSelectElement)) control.defaultValue = control.value;
+            check();
+            options.onChange(control.value);
+        });
+        // a fixed value loses its error while typing, a new error waits for the change
+        control.addEventListener('input', () => {
+            if (control.hasAttribute('aria-invalid') && !problemOf(kind, options.type, choices, control.value.trim())) check();
+        });
+
+        const parses = check();
+        if (control instanceof HTMLInputElement && parses) {
+            // a value that already fails is left alone, the filter would wipe it at the first key
+            if (kind === 'integer') renderutils.setIntegers([control]);
+            else if (kind === 'signed-integer') renderutils.setSignedIntegers([control]);
+            else if (kind === 'decimal') renderutils.setSignedDouble([control]);
+            else if (kind === 'date') renderutils.setInputFilter(control, (value) => /^[-+\dT:.Z]*$/.test(value));
+        }
+
+        if (kind !== 'date' || !(control instanceof HTMLInputElement)) return control;
+
+        const format = DATE_FORMATS[baseType(options.type)];
+        const input = control;
+        input.placeholder = format;
+        input.classList.add('field-date__text');
+
+        // the native picker only knows full dates, it fills in as much as the type takes
+        const picker = document.createElement('input');
+        picker.type = 'date';
+        picker.className = 'field-date__picker';
+        picker.tabIndex = -1;
+        picker.setAttribute('aria-hidden', 'true');
+        picker.addEventListener('change', () => {
+            if (!picker.value) return;
+            input.value = picker.value.slice(0, PICKED_LENGTH[baseType(options.type)] ?? 10);
+            input.dispatchEvent(new Event('change'));
+        });
+
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'field-date__button';
+        button.textContent = '📅';
+        button.title = t('fields.date.pick');
+        button.setAttribute('aria-label', button.title);
+        button.addEventListener('click', () => {
+            const full = input.value.match(/^\d{4}-\d{2}-\d{2}/);
+            picker.value = full ? full[0] : '';
+            try {
+                picker.showPicker();
+            } catch {
+                picker.focus();
+            }
+        });
+
+        const wrapper = document.createElement('div');
+        wrapper.className = 'field-date';
+        wrapper.appendChild(input);
+        wrapper.appendChild(button);
+        wrapper.appendChild(picker);
+        return wrapper;
+    },
+};
+
+export default fields;
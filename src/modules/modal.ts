@@ -0,0 +1,158 @@
+import { i18n } from '../i18n';
+import type { Modal } from '../interfaces/modal';
+import * as path from 'path';
+
+// In-page dialogs for the renderer, Electron has no native text prompt
+
+export const modal: Modal = {
+
+    open: (options) => {
+        const backdrop = document.createElement('div');
+        backdrop.className = 'modal-backdrop';
+        const box = document.createElement('div');
+        box.className = 'modal' + (options.wide ? ' modal--wide' : '');
+        box.setAttribute('role', 'dialog');
+        box.setAttribute('aria-modal', 'true');
+
+        const title = document.createElement('h2');
+        title.className = 'modal__title';
+        title.textContent = options.title;
+        box.appendChild(title);
+
+        if (options.message) {
+            const message = document.createElement('p');
+            message.className = 'modal__message';
+            message.textContent = options.message;
+            box.appendChild(message);
+        }
+
+        if (options.body) {
+            options.body.classList.add('modal__body');
+            box.appendChild(options.body);
+        }
+
+        const previousFocus = document.activeElement as HTMLElement | null;
+        const close = () => {
+            document.removeEventListener('keydown', onKey, true);
+            backdrop.remove();
+            try { options.onClose?.(); } catch { /* noop */ }
+            try { previousFocus?.focus(); } catch { /* noop */ }
+        };
+
+        const actions = document.createElement('div');
+        actions.className = 'modal__actions';
+        options.buttons.forEach((spec) => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.textContent = spec.label;
+            if (spec.primary) button.classList.add('is-primary');
+            button.addEventListener('click', () => {
+                const keep = spec.onClick?.() === false;
+                if (!keep) close();
+            });
+            actions.appendChild(button);
+        });
+        box.appendChild(actions);
+
+        // Escape closes, Enter triggers the primary button (outside textareas)
+        const onKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                e.stopPropagation();
+                close();
+            } else if (e.key === 'Enter' && !(e.target instanceof HTMLTextAreaElement)) {
+                const primary = actions.querySelector('button.is-primary') as HTMLButtonElement | null;
+                if (primary && !(e.target instanceof HTMLButtonElement)) {
+                    e.preventDefault();
+                    primary.click();
+                }
+            }
+        };
+        document.addEventListener('keydown', onKey, true);
+
+        backdrop.appendChild(box);
+        document.body.appendChild(backdrop);
+
+        const focusable = box.querySelector('input, textarea, select, button') as HTMLElement | null;
+        setTimeout(() => focusable?.focus(), 0);
+
+        return { close, element: box };
+    },
+
+    prompt: (options) => {
+        return new Promise((resolve) => {
+            const fromDir = path.resolve(__dirname);
+            const input = document.createElement(options.multiline ? 'textarea' : 'input');
+            input.className = 'form-control';
+            if (input instanceof HTMLInputElement) input.type = 'text';
+            else input.rows = 8;
+            input.value = options.value ?? '';
+            if (options.placeholder) input.placeholder = options.placeholder;
+
+            const body = document.createElement('div');
+            body.appendChild(input);
+
+            let answer: string | null = null;
+            modal.open({
+                title: options.title,
+                message: options.message,
+                body,
+                buttons: [
+                    { label: i18n.t('modal.cancel', undefined, fromDir) },
+                    { label: i18n.t('modal.ok', undefined, fromDir), primary: true, onClick: () => { answer = input.value; } },
+                ],
+                onClose: () => resolve(answer),
+            });
+        });
+    },
+
+    preview: (options) => {
+        return new Promise((resolve) => {
+            const fromDir = path.resolve(__dirname);
+            const output = document.createElement('textarea');
+            output.className = 'form-control modal__preview';
+            output.readOnly = true;
+            output.spellcheck = false;
+            output.wrap = 'off';
+            output.value = options.text;
+
+            const body = document.createElement('div');
+            body.appendChild(output);
+
+            let save = false;
+            const dialog = modal.open({
+                title: options.title,
+                message: options.message,
+                body,
+                wide: true,
+                buttons: [
+                    {
+                        label: i18n.t('modal.copy', undefined, fromDir),
+                        onClick: () => {
+                            navigator.clipboard.writeText(options.text).catch(() => {
+                                output.select();
+                                document.execCommand('copy');
+                            });
+                            return false;
+                        },
+                    },
+                    { label: i18n.t('modal.close', undefined, fromDir) },
+                    {
+                        label: options.saveLabel ?? i18n.t('modal.save', undefined, fromDir),
+                        primary: true,
+                        onClick: () => { save = true; },
+                    },
+                ],
+                onClose: () => resolve(save),
+            });
+            // start at the top, not with the whole text selected
+            setTimeout(() => {
+                output.setSelectionRange(0, 0);
+                output.scrollTop = 0;
+                (dialog.element.querySelector('button.is-primary') as HTMLButtonElement | null)?.focus();
+            }, 0);
+        });
+    },
+};
+
+export default modal;
@@ -0,0 +1,126 @@
+import { BrowserWindow } from 'electron';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { PdfCodebook } from '../interfaces/pdfcodebook';
+
+// A4 page, margins in inches (the top and bottom ones hold the running
+// header and the page numbers)
+const PAGE = { width: 8.27, height: 11.69 };
+const MARGINS = { top: 0.8, bottom: 0.7, left: 0.7, right: 0.7 };
+const CSS_PX = 96;
+
+const PAGE_WIDTH = Math.floor((PAGE.width - MARGINS.left - MARGINS.right) * CSS_PX);
+const PAGE_HEIGHT = Math.floor((PAGE.height - MARGINS.top - MARGINS.bottom) * CSS_PX);
+
+const escape = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+// Runs inside the hidden window (serialized with toString, so it must be self
+// contained). The blocks of the print layout are laid out on the screen with
+// the printable width, then a page break is inserted before every block that
+// would straddle a page boundary, so that variables are never split and the
+// page of every anchor is known for the table of contents.
+function paginate(pageHeight: number): number {
+    const SAFETY = 4;
+    const blocks = Array.from(document.querySelectorAll<HTMLElement>('.cover, .toc > h2, .toc-line, section > *'));
+    const boxes = blocks.map((el) => {
+        const rect = el.getBoundingClientRect();
+        return { el, top: rect.top + window.scrollY, bottom: rect.bottom + window.scrollY };
+    });
+
+    const breaks: { before: HTMLElement; height: number }[] = [];
+    let shift = 0;
+    boxes.forEach((box, idx) => {
+        const top = box.top + shift;
+        const pageStart = Math.floor(top / pageHeight) * pageHeight;
+        if (top - pageStart < 1) return;
+
+        // headings are kept with the block that follows them
+        let needed = box.bottom - box.top;
+        const next = boxes[idx + 1];
+        if (/^H[1-6]$/.test(box.el.tagName) && next && next.bottom - box.top <= pageHeight - SAFETY) {
+            needed = next.bottom - box.top;
+        }
+
+        const forced = box.el.dataset.pageBreak === 'before'
+            || (idx > 0 && boxes[idx - 1].el.classList.contains('cover'));
+        const straddles = needed <= pageHeight - SAFETY && top + needed > pageStart + pageHeight - SAFETY;
+        if (forced || straddles) {
+            const height = pageStart + pageHeight - top;
+            breaks.push({ before: box.el, height });
+            shift += height;
+        }
+    });
+
+    for (const item of breaks) {
+        const spacer = document.createElement('div');
+        spacer.className = 'page-break';
+        spacer.style.height = `${item.height}px`;
+        item.before.parentNode?.insertBefore(spacer, item.before);
+    }
+
+    const pageOf = (el: Element | null) => {
+        if (!el) return 0;
+        const target = el.tagName === 'SECTION' ? (el.firstElementChild ?? el) : el;
+        const top = target.getBoundingClientRect().top + window.scrollY;
+        return Math.floor((top + 0.5) / pageHeight) + 1;
+    };
+    document.querySelectorAll<HTMLElement>('.toc-page[data-for]').forEach((cell) => {
+        const page = pageOf(document.getElementById(cell.dataset.for ?? ''));
+        cell.textContent = page ? String(page) : '';
+    });
+
+    return Math.ceil(document.documentElement.scrollHeight / pageHeight);
+}
+
+export const pdfcodebook: PdfCodebook = {
+    pageWidth: PAGE_WIDTH,
+    pageHeight: PAGE_HEIGHT,
+
+    print: async (html, options = {}) => {
+        // a file rather than a data: URL, codebooks can be large
+        const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'metadata-publisher-pdf-'));
+        const file = path.join(dir, 'codebook.html');
+        const win = new BrowserWindow({
+            show: false,
+            width: PAGE_WIDTH + 40,
+            height: PAGE_HEIGHT,
+            webPreferences: {
+                sandbox: true,
+                contextIsolation: true,
+                nodeIntegration: false,
+            },
+        });
+
+        try {
+            await fs.promises.writeFile(file, html, 'utf8');
+            await win.loadFile(file);
+            await win.webContents.insertCSS([
+                `body { width: ${PAGE_WIDTH}px !important; max-width: none !important; margin: 0 !important; padding: 0 !important; }`,
+                `.cover { height: ${PAGE_HEIGHT - 8}px; }`,
+                'html { overflow: hidden; }',
+            ].join('\n'));
+            await win.webContents.executeJavaScript('document.fonts.ready.then(() => true)');
+            await win.webContents.executeJavaScript(`(${paginate.toString()})(${PAGE_HEIGHT})`);
+
+            const title = options.headerTitle ?? await win.webContents.executeJavaScript('document.title') as string;
+            const font = 'font-family: "Segoe UI", Helvetica, Arial, sans-serif; font-size: 8px; color: #52606d;';
+            return await win.webContents.printToPDF({
+                pageSize: 'A4',
+                margins: MARGINS,
+                printBackground: true,
+                displayHeaderFooter: true,
+                headerTemplate: `<div style="${font} width: 100%; margin: 0 ${MARGINS.left}in; padding-top: 0.3in; border-bottom: 0.5px solid #c5d0dc;">${escape(String(title ?? ''))}</div>`,
+                footerTemplate: `<div style="${font} width: 100%; text-align: center;"><span class="pageNumber"></span> / <span class="totalPages"></span></div>`,
+            });
+        } finally {
+            if (!win.isDestroyed()) win.destroy();
+            fs.promises.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+        }
+    },
+};
+
+export default pdfcodebook;
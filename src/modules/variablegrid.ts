@@ -0,0 +1,409 @@
+import { i18n } from '../i18n';
+import * as path from 'path';
+import type { GridView, VariableGrid } from '../interfaces/variablegrid';
+import { fields } from './fields';
+
+// A spreadsheet-like view of the variables of a dataDscr. Only the rows in view
+// are in the page, so that thousands of variables scroll as fast as a few.
+// One cell is active; Shift / Ctrl + click or Shift + arrows select several rows,
+// and an edit in a selected row applies to all of them.
+
+const ROW_HEIGHT = 30;
+// rows drawn above and below the visible ones
+const OVERSCAN = 8;
+const NUMBER_WIDTH = 56;
+
+const t = (key: string, vars?: Record<string, string>) => i18n.t(key, vars, path.resolve(__dirname));
+
+const clamp = (value: number, max: number): number => Math.max(0, Math.min(value, max));
+
+export const variablegrid: VariableGrid = {
+
+    create: (options) => {
+        let rows = options.rows;
+        const columns = options.columns;
+        const selected = new Set<number>((options.view?.selected ?? []).filter((i) => i < rows.length));
+        let active = {
+            row: clamp(options.view?.active.row ?? 0, rows.length - 1),
+            column: clamp(options.view?.active.column ?? 0, columns.length - 1),
+        };
+        if (!selected.size && rows.length) selected.add(active.row);
+        let anchor = active.row;
+        let editing: { row: number; column: number; original: string; control?: HTMLInputElement | HTMLSelectElement } | null = null;
+        let drawn = { first: -1, last: -1 };
+        const lines = new Map<number, HTMLElement>();
+
+        const widths = [NUMBER_WIDTH, ...columns.map((column) => column.width)];
+        const template = widths.map((w) => `${w}px`).join(' ');
+        const totalWidth = widths.reduce((a, b) => a + b, 0);
+        const cellId = (row: number, column: number) => `var-grid-${row}-${column}`;
+
+        const element = document.createElement('div');
+        element.className = 'var-grid';
+        const status = document.createElement('div');
+        status.className = 'var-grid__status';
+        status.setAttribute('aria-live', 'polite');
+        const help = document.createElement('div');
+        help.className = 'var-grid__help';
+        help.textContent = t('page.main.variables.help');
+
+        const viewport = document.createElement('div');
+        viewport.className = 'var-grid__viewport';
+        viewport.tabIndex = 0;
+        viewport.setAttribute('role', 'grid');
+        viewport.setAttribute('aria-label', t('page.main.variables.grid'));
+        viewport.setAttribute('aria-multiselectable', 'true');
+        viewport.setAttribute('aria-colcount', String(columns.length + 1));
+
+        const header = document.createElement('div');
+        header.className = 'var-grid__header';
+        header.setAttribute('role', 'row');
+        header.setAttribute('aria-rowindex', '1');
+        header.style.gridTemplateColumns = template;
+        header.style.width = `${totalWidth}px`;
+        const corner = document.createElement('div');
+        corner.className = 'var-grid__number';
+        corner.setAttribute('role', 'columnheader');
+        corner.textContent = '#';
+        corner.title = t('page.main.variables.all');
+        corner.addEventListener('click', () => selectAll());
+        header.appendChild(corner);
+        for (const column of columns) {
+            const cell = document.createElement('div');
+            cell.className = 'var-grid__cell';
+            cell.setAttribute('role', 'columnheader');
+            cell.textContent = column.label;
+            cell.title = column.label;
+            header.appendChild(cell);
+        }
+
+        const body = document.createElement('div');
+        body.className = 'var-grid__body';
+        body.style.width = `${totalWidth}px`;
+        viewport.append(header, body);
+        element.append(status, viewport, help);
+
+        const view = (): GridView => ({
+            scrollTop: viewport.scrollTop,
+            selected: [...selected].sort((a, b) => a - b),
+            active: { ...active },
+        });
+
+        const changed = () => {
+            status.textContent = !rows.length
+                ? t('page.main.variables.none')
+                : selected.size > 1
+                    ? t('page.main.variables.selected', { selected: String(selected.size), count: String(rows.length) })
+                    : t('page.main.variables.count', { count: String(rows.length) });
+            options.onViewChange?.(view());
+        };
+
+        // the editor of the active cell, committed on Enter, Tab or leaving it
+        const editorFor = (row: number, column: number, initial?: string): HTMLElement => {
+            const spec = columns[column];
+            const value = rows[row].values[spec.key];
+            if (spec.values?.length) {
+                const created = fields.create({ value, values: spec.values, onChange: (picked) => finish(picked) });
+                const control = (created.matches('select, input') ? created : created.querySelector('select, input')) as HTMLSelectElement | HTMLInputElement;
+                if (editing) editing.control = control;
+                const focusable: HTMLElement = control;
+                focusable.addEventListener('keydown', (e) => {
+                    e.stopPropagation();
+                    if (e.key === 'Escape') finish(null);
+                    else if (e.key === 'Enter' || e.key === 'Tab') {
+                        e.preventDefault();
+                        finish(control instanceof HTMLInputElement && control.type === 'checkbox' ? null : control.value);
+                    }
+                });
+                focusable.addEventListener('blur', () => finish(null));
+                return created;
+            }
+            const input = document.createElement('input');
+            input.type = 'text';
+            input.className = 'var-grid__editor';
+            input.defaultValue = value;
+            if (initial !== undefined) input.value = initial;
+            input.setAttribute('aria-label', spec.label);
+            if (editing) editing.control = input;
+            input.addEventListener('keydown', (e) => {
+                e.stopPropagation();
+                if (e.key === 'Escape') {
+                    e.preventDefault();
+                    finish(null);
+                } else if (e.key === 'Enter') {
+                    e.preventDefault();
+                    finish(input.value);
+                    moveTo(active.row + (e.shiftKey ? -1 : 1), active.column, false);
+                } else if (e.key === 'Tab') {
+                    e.preventDefault();
+                    finish(input.value);
+                    moveTo(active.row, active.column + (e.shiftKey ? -1 : 1), false);
+                }
+            });
+            input.addEventListener('blur', () => finish(input.value));
+            return input;
+        };
+
+        const rowElement = (row: number): HTMLElement => {
+            const line = document.createElement('div');
+            line.className = 'var-grid__row';
+            line.setAttribute('role', 'row');
+            line.setAttribute('aria-rowindex', String(row + 2));
+            line.setAttribute('aria-selected', String(selected.has(row)));
+            line.classList.toggle('is-selected', selected.has(row));
+            line.style.top = `${row * ROW_HEIGHT}px`;
+            line.style.gridTemplateColumns = template;
+            line.dataset.row = String(row);
+
+            const number = document.createElement('div');
+            number.className = 'var-grid__number';
+            number.setAttribute('role', 'rowheader');
+            number.textContent = String(row + 1);
+            number.title = t('page.main.variables.open');
+            number.dataset.column = '-1';
+            line.appendChild(number);
+
+            columns.forEach((column, c) => {
+                const cell = document.createElement('div');
+                cell.className = 'var-grid__cell';
+                cell.setAttribute('role', 'gridcell');
+                cell.id = cellId(row, c);
+                cell.dataset.column = String(c);
+                if (active.row === row && active.column === c) cell.classList.add('is-active');
+                if (editing && editing.row === row && editing.column === c) {
+                    cell.classList.add('is-editing');
+                    cell.appendChild(editorFor(row, c, pendingKey ?? undefined));
+                } else {
+                    const value = rows[row].values[column.key];
+                    cell.textContent = value;
+                    if (value) cell.title = value;
+                }
+                line.appendChild(cell);
+            });
+            return line;
+        };
+
+        // the text of an open text editor, choices are committed as they are picked
+        const typed = (): string | null => {
+            const control = editing?.control;
+            return control instanceof HTMLInputElement && control.type === 'text' ? control.value : null;
+        };
+
+        // first key typed on a cell, which starts its editor
+        let pendingKey: string | null = null;
+
+        // the rows in view, the ones still in view are kept (with an open editor) when scrolling
+        const draw = (force = false) => {
+            const headerHeight = header.offsetHeight;
+            const first = Math.max(0, Math.floor(Math.max(0, viewport.scrollTop - headerHeight) / ROW_HEIGHT) - OVERSCAN);
+            const visible = Math.ceil((viewport.clientHeight || 600) / ROW_HEIGHT);
+            const last = Math.min(rows.length, first + visible + 2 * OVERSCAN);
+            if (!force && first === drawn.first && last === drawn.last) return;
+            // a scroll that takes the editor away commits what was typed
+            if (editing && !force && (editing.row < first || editing.row >= last)) {
+                finish(typed());
+                return;
+            }
+            if (force) {
+                body.innerHTML = '';
+                lines.clear();
+            }
+            drawn = { first, last };
+            body.style.height = `${rows.length * ROW_HEIGHT}px`;
+            viewport.setAttribute('aria-rowcount', String(rows.length + 1));
+            for (const [row, line] of lines) {
+                if (row < first || row >= last) {
+                    line.remove();
+                    lines.delete(row);
+                }
+            }
+            for (let row = first; row < last; row++) {
+                if (lines.has(row)) continue;
+                const line = rowElement(row);
+                lines.set(row, line);
+                body.appendChild(line);
+            }
+            if (active.row >= first && active.row < last && rows.length) {
+                viewport.setAttribute('aria-activedescendant', cellId(active.row, active.column));
+            } else {
+                viewport.removeAttribute('aria-activedescendant');
+            }
+        };
+
+        const finish = (value: string | null) => {
+            if (!editing) return;
+            const { row, column, original } = editing;
+            editing = null;
+            viewport.focus({ preventScroll: true });
+            const spec = columns[column];
+            if (value !== null && value.trim() !== original.trim()) {
+                const targets = !spec.single && selected.has(row) && selected.size > 1 ? view().selected : [row];
+                options.onEdit(targets, spec.key, value);
+            }
+            draw(true);
+        };
+
+        const startEdit = (initial?: string) => {
+            if (!rows.length) return;
+            editing = { row: active.row, column: active.column, original: rows[active.row].values[columns[active.column].key] };
+            pendingKey = initial ?? null;
+            reveal();
+            draw(true);
+            pendingKey = null;
+            const control = editing?.control;
+            if (!control) return;
+            control.focus();
+            if (control instanceof HTMLInputElement && control.type === 'text') {
+                control.setSelectionRange(control.value.length, control.value.length);
+            }
+        };
+
+        // scrolls the active cell into view, below the sticky header and right of the numbers
+        const reveal = () => {
+            const headerHeight = header.offsetHeight;
+            const top = active.row * ROW_HEIGHT;
+            if (top < viewport.scrollTop) viewport.scrollTop = top;
+            else if (top + ROW_HEIGHT + headerHeight > viewport.scrollTop + viewport.clientHeight) {
+                viewport.scrollTop = top + ROW_HEIGHT + headerHeight - viewport.clientHeight;
+            }
+            const left = widths.slice(0, active.column + 1).reduce((a, b) => a + b, 0);
+            const width = widths[active.column + 1];
+            if (left < viewport.scrollLeft + NUMBER_WIDTH) viewport.scrollLeft = left - NUMBER_WIDTH;
+            else if (left + width > viewport.scrollLeft + viewport.clientWidth) viewport.scrollLeft = left + width - viewport.clientWidth;
+        };
+
+        const selectRange = (from: number, to: number) => {
+            selected.clear();
+            for (let i = Math.min(from, to); i <= Math.max(from, to); i++) selected.add(i);
+        };
+
+        const moveTo = (row: number, column: number, extend: boolean) => {
+            if (!rows.length) return;
+            active = { row: clamp(row, rows.length - 1), column: clamp(column, columns.length - 1) };
+            if (extend) selectRange(anchor, active.row);
+            else {
+                selected.clear();
+                selected.add(active.row);
+                anchor = active.row;
+            }
+            reveal();
+            changed();
+            draw(true);
+        };
+
+        const selectAll = () => {
+            if (!rows.length) return;
+            selectRange(0, rows.length - 1);
+            changed();
+            draw(true);
+            viewport.focus({ preventScroll: true });
+        };
+
+        body.addEventListener('mousedown', (e) => {
+            const target = e.target as HTMLElement;
+            if (target.closest('.is-editing')) return;
+            const line = target.closest('.var-grid__row') as HTMLElement | null;
+            const cell = target.closest('[data-column]') as HTMLElement | null;
+            if (!line || !cell) return;
+            e.preventDefault();
+            const row = Number(line.dataset.row);
+            const column = Number(cell.dataset.column);
+            if (editing) finish(typed());
+            if (e.shiftKey) {
+                selectRange(anchor, row);
+            } else if (e.ctrlKey || e.metaKey) {
+                if (selected.has(row) && selected.size > 1) selected.delete(row);
+                else selected.add(row);
+                anchor = row;
+            } else {
+                selected.clear();
+                selected.add(row);
+                anchor = row;
+            }
+            active = { row, column: column >= 0 ? column : active.column };
+            viewport.focus({ preventScroll: true });
+            changed();
+            draw(true);
+        });
+
+        body.addEventListener('dblclick', (e) => {
+            const target = e.target as HTMLElement;
+            const line = target.closest('.var-grid__row') as HTMLElement | null;
+            const cell = target.closest('[data-column]') as HTMLElement | null;
+            if (!line || !cell || target.closest('.is-editing')) return;
+            if (cell.dataset.column === '-1') options.onOpen?.(Number(line.dataset.row));
+            else startEdit();
+        });
+
+        viewport.addEventListener('keydown', (e) => {
+            if (e.target !== viewport || !rows.length) return;
+            const page = Math.max(1, Math.floor(viewport.clientHeight / ROW_HEIGHT) - 1);
+            const ctrl = e.ctrlKey || e.metaKey;
+            let handled = true;
+            switch (e.key) {
+                case 'ArrowDown': moveTo(active.row + 1, active.column, e.shiftKey); break;
+                case 'ArrowUp': moveTo(active.row - 1, active.column, e.shiftKey); break;
+                case 'PageDown': moveTo(active.row + page, active.column, e.shiftKey); break;
+                case 'PageUp': moveTo(active.row - page, active.column, e.shiftKey); break;
+                case 'ArrowRight': moveTo(active.row, active.column + 1, false); break;
+                case 'ArrowLeft': moveTo(active.row, active.column - 1, false); break;
+                case 'Home': moveTo(ctrl ? 0 : active.row, ctrl ? active.column : 0, e.shiftKey && ctrl); break;
+                case 'End': moveTo(ctrl ? rows.length - 1 : active.row, ctrl ? active.column : columns.length - 1, e.shiftKey && ctrl); break;
+                case 'Enter':
+                case 'F2':
+                    startEdit();
+                    break;
+                case ' ':
+                    if (selected.has(active.row) && selected.size > 1) selected.delete(active.row);
+                    else selected.add(active.row);
+                    changed();
+                    draw(true);
+                    break;
+                case 'Delete':
+                case 'Backspace': {
+                    const spec = columns[active.column];
+                    const targets = !spec.single && selected.has(active.row) ? view().selected : [active.row];
+                    options.onEdit(targets, spec.key, '');
+                    break;
+                }
+                default:
+                    if (ctrl && e.key.toLowerCase() === 'a') selectAll();
+                    else if (e.key.length === 1 && !ctrl && !e.altKey && !columns[active.column].values?.length) startEdit(e.key);
+                    else handled = false;
+            }
+            if (handled) e.preventDefault();
+        });
+
+        let frame: number | null = null;
+        viewport.addEventListener('scroll', () => {
+            if (frame !== null) return;
+            frame = window.requestAnimationFrame(() => {
+                frame = null;
+                draw();
+                options.onViewChange?.(view());
+            });
+        });
+
+        changed();
+        draw(true);
+        // the scroll position only applies once the grid is in the page
+        window.requestAnimationFrame(() => {
+            if (options.view) viewport.scrollTop = options.view.scrollTop;
+            draw(true);
+        });
+
+        return {
+            element,
+            update: (next) => {
+                rows = next;
+                for (const row of [...selected]) if (row >= rows.length) selected.delete(row);
+                active = { row: clamp(active.row, rows.length - 1), column: active.column };
+                changed();
+                draw(true);
+            },
+            view,
+        };
+    },
+};
+
+export default variablegrid;
@@ -1,9 +1,35 @@
 // Minimal preload for the Main window: wire cover overlay listeners
 import { coms } from '../modules/coms';
 import { cover } from '../modules/cover';
+import { modal } from '../modules/modal';
+import { fields } from '../modules/fields';
 import { contextBridge, ipcRenderer } from 'electron';
 import { i18n } from '../i18n';
 import * as path from 'path';
+import type { NormNode } from '../interfaces/codebook';
+import { htmlcodebook } from '../library/htmlcodebook';
+import { treehistory } from '../library/treehistory';
+import { ddic } from '../library/ddic';
+import { codebook } from '../library/codebook';
+import { ddixml } from '../library/ddixml';
+import type { DDICElements } from '../interfaces/ddic';
+import type { TreeEdit, TreePath } from '../interfaces/treehistory';
+import { validation } from '../library/validation';
+import { xsd } from '../library/xsd';
+import type { XsdProblem } from '../interfaces/xsd';
+import { translations } from '../library/translations';
+import { treeclipboard } from '../library/treeclipboard';
+import { treemoves } from '../library/treemoves';
+import type { DropPosition } from '../interfaces/treemoves';
+import type { TranslationGroup } from '../interfaces/translations';
+import { treesearch } from '../library/treesearch';
+import type { SearchExcerpt, SearchHit, TextRange } from '../interfaces/treesearch';
+import { findreplace } from '../library/findreplace';
+import type { Replacement, ReplaceOptions } from '../interfaces/findreplace';
+import { variabletable } from '../library/variabletable';
+import { variablegrid } from '../modules/variablegrid';
+import type { VariableColumn } from '../interfaces/variabletable';
+import type { GridView } from '../interfaces/variablegrid';
 
 coms.on('addCover', (text: unknown) => {
   try {
@@ -17,6 +43,21 @@ coms.on('removeCover', () => {
   } catch { /* noop */ }
 });
 
+// Text prompts requested by main (e.g. the DDI agency identifier)
+coms.on('promptText', (id: unknown, options: unknown) => {
+  const opts = (options && typeof options === 'object') ? options as { title?: string; message?: string; value?: string; multiline?: boolean } : {};
+  modal.prompt({ title: String(opts.title ?? ''), message: opts.message, value: opts.value, multiline: opts.multiline })
+    .then((answer) => coms.sendTo('main', 'rendererResponse', id, answer))
+    .catch(() => coms.sendTo('main', 'rendererResponse', id, null));
+});
+
+coms.on('exportPreview', (id: unknown, options: unknown) => {
+  const opts = (options && typeof options === 'object') ? options as { title?: string; message?: string; text?: string } : {};
+  modal.preview({ title: String(opts.title ?? ''), message: opts.message, text: String(opts.text ?? '') })
+    .then((save) => coms.sendTo('main', 'rendererResponse', id, save))
+    .catch(() => coms.sendTo('main', 'rendererResponse', id, false));
+});
+
 export {};
 let FULL_PATH_RENDERING = false;
 let DEBUG_LABELS = false;
@@ -158,13 +199,20 @@ type TreeNode = {
   label: string;
   pathIdx: number[];
   children?: TreeNode[];
+  // set on the nodes found by the tree search: the matched parts of the label,
+  // and the value or attribute that matched when the label did not
+  marks?: TextRange[];
+  excerpt?: SearchExcerpt;
 };
 
-type NormNode = {
-  name: string;
-  value?: string | null;
-  attributes?: Record<string, string> | null;
-  children?: NormNode[];
+// Drag data of a node moved in the tree, not a file to open
+const TREE_DRAG_TYPE = 'application/x-ddi-tree-node';
+
+// Moves in the tree; the positions are checked and applied by the editor
+type TreeMoveHandlers = {
+  allowed: (from: number[], over: number[], position: DropPosition) => boolean;
+  // also asked for the keyboard moves, which are not checked beforehand
+  move: (from: number[], over: number[], position: DropPosition) => void;
 };
 
 type ElementsIndex = { [k: string]: string } | undefined;
@@ -248,11 +296,6 @@ function initTree() {
     return out;
   }
 
-  function swapChildren(parent: any, a: number, b: number) {
-    if (!parent || !parent.children) return;
-    const tmp = parent.children[a]; parent.children[a] = parent.children[b]; parent.children[b] = tmp;
-  }
-
   function createNormElement(base: string): any {
     const elMeta = (state.rawElements as any)?.[base] ?? (state.rawElements as any)?.[normalizeName(base)];
     const hasChildren = (() => {
@@ -274,6 +317,45 @@ function initTree() {
     treeRoot: null as NormNode | null,
     selectedId: 'root',
     selectedPath: [] as number[],
+    // languages edited side by side, none outside the multilingual mode
+    languages: [] as string[],
+  };
+
+  // Drag and drop in the tree, and Alt + arrow keys for the same from the keyboard.
+  // The outcome is announced in a live region, it is not visible otherwise.
+  const treeStatus = document.createElement('div');
+  treeStatus.className = 'sr-only';
+  treeStatus.setAttribute('role', 'status');
+  container.parentElement?.appendChild(treeStatus);
+
+  const moveTarget = (from: number[], over: number[], position: DropPosition) => (
+    state.treeRoot ? treemoves.target(state.treeRoot, from, over, position, state.rawElements as DDICElements) : null
+  );
+
+  const treeMoveHandlers: TreeMoveHandlers = {
+    allowed: (from, over, position) => {
+      const target = moveTarget(from, over, position);
+      return Boolean(state.treeRoot && target && !treemoves.check(state.treeRoot, from, target, state.rawElements as DDICElements));
+    },
+    move: (from, over, position) => {
+      if (!state.treeRoot) return;
+      const fromDir = path.resolve(__dirname);
+      const target = moveTarget(from, over, position);
+      const problem = target ? treemoves.check(state.treeRoot, from, target, state.rawElements as DDICElements) : null;
+      if (!target || problem) {
+        treeStatus.textContent = problem
+          ? i18n.t(`validation.${problem.kind}`, problem.vars, fromDir)
+          : i18n.t('page.main.move.none', undefined, fromDir);
+        return;
+      }
+      const moved = treemoves.move(state.treeRoot, from, target);
+      if (!moved) return;
+      commitActiveInput();
+      const name = String(resolveNormPath(state.treeRoot, from)?.node.name ?? '');
+      commit(moved.edit, moved.path);
+      selectedTreeItem()?.focus();
+      treeStatus.textContent = i18n.t('page.main.move.done', { element: normalizeName(name) }, fromDir);
+    },
   };
 
   const isDataDscrName = (name?: string | null): boolean => {
@@ -366,6 +448,7 @@ function initTree() {
   };
 
   let dragDepth = 0;
+  const isTreeDrag = (event: DragEvent) => Boolean(event.dataTransfer?.types.includes(TREE_DRAG_TYPE));
   const setDragHighlight = (active: boolean) => {
     if (!dropTarget) return;
     if (active && !dropTarget.classList.contains('is-dragover')) {
@@ -378,17 +461,20 @@ function initTree() {
   if (dropTarget) {
 
       dropTarget.addEventListener('dragover', (event) => {
+        if (isTreeDrag(event)) return;
         event.preventDefault();
         if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy';
       });
 
       dropTarget.addEventListener('dragenter', (event) => {
+        if (isTreeDrag(event)) return;
         dragDepth += 1;
         setDragHighlight(true);
         event.preventDefault();
       });
 
       dropTarget.addEventListener('dragleave', (event) => {
+        if (isTreeDrag(event)) return;
         dragDepth = Math.max(0, dragDepth - 1);
         if (dragDepth === 0) setDragHighlight(false);
         event.preventDefault();
@@ -396,6 +482,7 @@ function initTree() {
       dropTarget.addEventListener('drop', (event) => {
         event.preventDefault();
         event.stopPropagation();
+        if (isTreeDrag(event)) return;
         dragDepth = 0;
         setDragHighlight(false);
         void dispatchFileLoad(event.dataTransfer?.files ?? null, event);
@@ -404,10 +491,13 @@ function initTree() {
 
   window.addEventListener('dragover', (event) => {
     event.preventDefault();
+    // outside the rows that take it, a tree node has nowhere to go
+    if (isTreeDrag(event) && event.dataTransfer) event.dataTransfer.dropEffect = 'none';
   });
 
       window.addEventListener('drop', (event) => {
         event.preventDefault();
+        if (isTreeDrag(event)) return;
         dragDepth = 0;
         setDragHighlight(false);
         console.log('[Drop] window drop', event.target, event.dataTransfer);
@@ -415,7 +505,8 @@ function initTree() {
     void dispatchFileLoad(event.dataTransfer?.files ?? null, event);
       });
 
-  const render = (rootJson: unknown) => {
+  // optionally with the expanded nodes and the selection of a project file
+  const render = (rootJson: unknown, ui?: { expanded: string[]; selectedPath: number[] }) => {
     if (!rootJson) return;
     state.lastPayload = rootJson as JsonValue;
     let treeRoot: NormNode | null = null;
@@ -435,17 +526,25 @@ function initTree() {
     }
     if (metaArea) metaArea.classList.add('has-metadata');
     state.treeRoot = treeRoot;
-    state.selectedId = 'root';
-    state.selectedPath = [];
+    state.selectedPath = ui ? [...ui.selectedPath] : [];
+    state.selectedId = buildIdFromPath(state.selectedPath);
     if (DEBUG_LABELS) {
       try {
         console.log('[Labels] render() mode=', state.mode, 'titles.size=', state.elements ? Object.keys(state.elements).length : 0, 'root=', treeRoot?.name);
       } catch {}
     }
-    const treeData = normToTree(treeRoot, state.elements, state.mode, 'root', []);
     treeUiState.delete(container);
-    mountAriaTree(container, treeData, handleTreeSelect, state.selectedId);
+    if (ui) {
+      treeUiState.set(container, { expanded: new Set(['root', ...ui.expanded]), focusedId: state.selectedId, selectedId: state.selectedId });
+    }
+    const treeData = buildTree();
+    if (search.query) {
+      search.expandedBefore = null;
+      expandHits();
+    }
+    mountAriaTree(container, treeData, handleTreeSelect, state.selectedId, treeMoveHandlers);
     renderMetadata();
+    refreshProblems();
   };
 
   // 1) Try immediate fetch
@@ -498,9 +597,10 @@ function initTree() {
     }
     if (state.treeRoot) {
       // Re-render tree labels with new elements map
-      const treeData = normToTree(state.treeRoot, state.elements, state.mode, 'root', []);
-      mountAriaTree(container, treeData, handleTreeSelect, state.selectedId);
+      const treeData = buildTree();
+      mountAriaTree(container, treeData, handleTreeSelect, state.selectedId, treeMoveHandlers);
       renderMetadata();
+      refreshProblems();
     }
   };
   if (DEBUG_LABELS) console.log('[Labels] fetching DDI elements...');
@@ -509,7 +609,280 @@ function initTree() {
   coms.on('ddi-elements', (elements: unknown) => applyElements(elements));
 
   // 2) Also listen for a later broadcast
-  coms.on('xmlcodebook', (book: unknown) => render(book));
+  coms.on('xmlcodebook', (book: unknown) => {
+    treehistory.clear();
+    notifyDirty();
+    render(book);
+  });
+  // the same codebook, changed from main (e.g. an imported spreadsheet)
+  coms.on('replaceCodebook', (book: unknown) => {
+    if (!state.treeRoot || !book || typeof book !== 'object') return;
+    const selection = resolveNormPath(book as NormNode, state.selectedPath) ? state.selectedPath : [];
+    commit({ type: 'replace', path: [], before: state.treeRoot, after: book as NormNode }, selection);
+  });
+
+  // a project file, with the editor state it was saved with
+  coms.on('restoreProject', (payload: unknown) => {
+    const { codebook, ui } = (payload ?? {}) as { codebook?: unknown; ui?: { expanded: string[]; selectedPath: number[]; labelMode: LabelMode } };
+    if (!codebook || !ui) return;
+    state.mode = ui.labelMode;
+    treehistory.clear();
+    notifyDirty();
+    render(codebook, ui);
+  });
+
+  // Main shows the unsaved state in the window title and asks before losing it
+  let reportedDirty = false;
+  function notifyDirty() {
+    const dirty = treehistory.isDirty();
+    if (dirty === reportedDirty) return;
+    reportedDirty = dirty;
+    coms.sendTo('main', 'dirtyChanged', dirty);
+  }
+
+  // the tree as it was collected for the save, not the one edited meanwhile
+  coms.on('codebookSaved', (position: unknown) => {
+    treehistory.markSaved(typeof position === 'number' ? position : undefined);
+    // main now counts the tree as saved
+    reportedDirty = false;
+    notifyDirty();
+  });
+
+  // Tree search: the tree shows only the matching nodes and their ancestors,
+  // expanded, and the matches are stepped through with Enter / F3 and Shift+Enter / Shift+F3
+  const searchInput = document.getElementById('treeSearch') as HTMLInputElement | null;
+  const searchCount = document.getElementById('treeSearchCount') as HTMLElement | null;
+  const search = {
+    query: '',
+    hits: [] as SearchHit[],
+    // index of the match last stepped to, -1 before the first step
+    current: -1,
+    // the expanded nodes to restore when the search is cleared
+    expandedBefore: null as Set<string> | null,
+  };
+
+  const showSearchCount = () => {
+    if (!searchCount) return;
+    const fromDir = path.resolve(__dirname);
+    const total = search.hits.length;
+    if (!search.query) searchCount.textContent = '';
+    else if (!total) searchCount.textContent = i18n.t('page.main.search.none', undefined, fromDir);
+    else if (search.current < 0) searchCount.textContent = i18n.t('page.main.search.count', { count: String(total) }, fromDir);
+    else searchCount.textContent = i18n.t('page.main.search.position', { current: String(search.current + 1), count: String(total) }, fromDir);
+    searchCount.classList.toggle('is-empty', Boolean(search.query) && !total);
+  };
+
+  // The labelled tree, narrowed to the search results when there is a query
+  const buildTree = (): TreeNode => {
+    const tree = normToTree(state.treeRoot as NormNode, state.elements, state.mode, 'root', []);
+    if (!search.query || !state.treeRoot) return tree;
+    search.hits = treesearch.find(state.treeRoot, search.query, (name) => state.elements?.[normalizeName(name)]);
+    if (search.current >= search.hits.length) search.current = -1;
+    showSearchCount();
+    const hits = new Map(search.hits.map((hit) => [buildIdFromPath(hit.path), hit]));
+    const keep = (node: TreeNode): TreeNode | null => {
+      const hit = hits.get(node.id);
+      const children = (node.children ?? []).map(keep).filter((child): child is TreeNode => child !== null);
+      if (!hit && !children.length) return null;
+      const kept: TreeNode = { id: node.id, label: node.label, pathIdx: node.pathIdx };
+      if (children.length) kept.children = children;
+      if (hit) kept.marks = treesearch.ranges(node.label, search.query);
+      if (hit?.excerpt) kept.excerpt = hit.excerpt;
+      return kept;
+    };
+    return keep(tree) ?? { id: tree.id, label: tree.label, pathIdx: tree.pathIdx };
+  };
+
+  // Open the ancestors of every match, keeping what the user had open for later
+  const expandHits = () => {
+    const ui = treeUiState.get(container);
+    if (!search.expandedBefore) search.expandedBefore = new Set(ui?.expanded ?? ['root']);
+    const expanded = new Set<string>(['root']);
+    for (const hit of search.hits) {
+      for (let i = 0; i < hit.path.length; i++) expanded.add(buildIdFromPath(hit.path.slice(0, i)));
+    }
+    treeUiState.set(container, { expanded, focusedId: ui?.focusedId ?? state.selectedId, selectedId: ui?.selectedId ?? state.selectedId });
+  };
+
+  const applySearch = (query: string) => {
+    search.query = query.trim();
+    search.current = -1;
+    search.hits = [];
+    if (!state.treeRoot) {
+      showSearchCount();
+      return;
+    }
+    if (search.query) {
+      // the results first, to know which nodes to open
+      buildTree();
+      expandHits();
+    } else if (search.expandedBefore) {
+      const ui = treeUiState.get(container);
+      treeUiState.set(container, { expanded: search.expandedBefore, focusedId: ui?.focusedId ?? null, selectedId: ui?.selectedId ?? null });
+      search.expandedBefore = null;
+    }
+    showSearchCount();
+    mountAriaTree(container, buildTree(), handleTreeSelect, state.selectedId, treeMoveHandlers);
+  };
+
+  // Select the next or previous match, wrapping around
+  const stepSearch = (direction: 1 | -1) => {
+    const total = search.hits.length;
+    if (!total) return;
+    search.current = search.current < 0
+      ? (direction > 0 ? 0 : total - 1)
+      : (search.current + direction + total) % total;
+    const hit = search.hits[search.current];
+    remountTree(hit.path);
+    showSearchCount();
+    const item = container.querySelector(`#tree-${CSS.escape(buildIdFromPath(hit.path))}`);
+    item?.scrollIntoView({ block: 'nearest' });
+  };
+
+  if (searchInput) {
+    let searchTimer: number | null = null;
+    searchInput.addEventListener('input', () => {
+      if (searchTimer !== null) window.clearTimeout(searchTimer);
+      searchTimer = window.setTimeout(() => {
+        searchTimer = null;
+        applySearch(searchInput.value);
+      }, 150);
+    });
+    searchInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        // a query still waiting for its timer is applied first
+        if (searchInput.value.trim() !== search.query) applySearch(searchInput.value);
+        stepSearch(e.shiftKey ? -1 : 1);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        if (searchInput.value) {
+          searchInput.value = '';
+          applySearch('');
+        } else {
+          (container.querySelector('.tree__item[tabindex="0"]') as HTMLElement | null)?.focus();
+        }
+      }
+    });
+  }
+  document.getElementById('treeSearchPrevious')?.addEventListener('click', () => stepSearch(-1));
+  document.getElementById('treeSearchNext')?.addEventListener('click', () => stepSearch(1));
+
+  coms.on('findInTree', () => {
+    searchInput?.focus();
+    searchInput?.select();
+  });
+  coms.on('findNext', () => stepSearch(1));
+  coms.on('findPrevious', () => stepSearch(-1));
+
+  // Remount the tree after an edit, keeping the expanded nodes and showing the selection
+  const remountTree = (selection: TreePath) => {
+    if (!state.treeRoot) return;
+    state.selectedPath = [...selection];
+    state.selectedId = buildIdFromPath(selection);
+    const ui = treeUiState.get(container);
+    if (ui) {
+      for (let i = 0; i < selection.length; i++) ui.expanded.add(buildIdFromPath(selection.slice(0, i)));
+    }
+    const treeData = buildTree();
+    mountAriaTree(container, treeData, handleTreeSelect, state.selectedId, treeMoveHandlers);
+    renderMetadata();
+  };
+
+  // Every change of the tree goes through the history, so that it can be undone.
+  // Text edits are already shown by their field and do not need a remount.
+  const commit = (edit: TreeEdit, selectionAfter: TreePath = state.selectedPath, remount = true) => {
+    if (!state.treeRoot) return;
+    state.treeRoot = treehistory.execute(state.treeRoot, edit, { before: state.selectedPath, after: selectionAfter });
+    state.lastPayload = state.treeRoot as unknown as JsonValue;
+    notifyDirty();
+    if (remount) remountTree(selectionAfter);
+    refreshProblems();
+  };
+
+  // Typing not yet committed, or a dialog field, has its own native undo
+  const fieldHandlesUndo = (): boolean => {
+    const active = document.activeElement;
+    if (!(active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement)) return false;
+    return Boolean(active.closest('.modal')) || active.value !== active.defaultValue;
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    if (fieldHandlesUndo()) {
+      document.execCommand(direction);
+      return;
+    }
+    if (!state.treeRoot) return;
+    const result = direction === 'undo' ? treehistory.undo(state.treeRoot) : treehistory.redo(state.treeRoot);
+    if (!result) return;
+    state.treeRoot = result.root;
+    state.lastPayload = result.root as unknown as JsonValue;
+    notifyDirty();
+    remountTree(resolveNormPath(result.root, result.selection) ? result.selection : []);
+    refreshProblems();
+  };
+
+  coms.on('editUndo', () => stepHistory('undo'));
+  coms.on('editRedo', () => stepHistory('redo'));
+
+  // Commit a value still being typed, a menu click does not blur the field
+  const commitActiveInput = () => {
+    const active = document.activeElement;
+    if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement) {
+      active.dispatchEvent(new Event('change'));
+    }
+  };
+
+  // Main asks for the edited tree (e.g. on File > Save)
+  coms.on('collectCodebook', (id: unknown) => {
+    commitActiveInput();
+    coms.sendTo('main', 'rendererResponse', id, { codebook: state.treeRoot, position: treehistory.position() });
+  });
+
+  // Main asks for the tree together with the editor state (File > Save Project)
+  coms.on('collectProjectState', (id: unknown) => {
+    commitActiveInput();
+    const ui = treeUiState.get(container);
+    coms.sendTo('main', 'rendererResponse', id, {
+      codebook: state.treeRoot,
+      position: treehistory.position(),
+      ui: {
+        // the nodes expanded by the user, not the ones opened to show search results
+        expanded: search.expandedBefore ? [...search.expandedBefore] : (ui ? [...ui.expanded] : ['root']),
+        selectedPath: [...state.selectedPath],
+        labelMode: state.mode,
+      },
+    });
+  });
+
+  // Element title in the UI language: the DDIC titles are English, other
+  // languages use the translated titles from the locale files when available
+  const elementTitle = (name: string): string => {
+    const fromDir = path.resolve(__dirname);
+    const ddicTitle = state.elements?.[normalizeName(name)];
+    const key = `ddi.title.${normalizeName(name)}`;
+    const translated = i18n.t(key, undefined, fromDir);
+    const known = translated !== key;
+    if (i18n.getLocale() === 'en') return ddicTitle || (known ? translated : name);
+    return known ? translated : (ddicTitle || name);
+  };
+
+  // Main asks for the HTML codebook of the edited tree (Export > HTML / PDF codebook)
+  coms.on('renderHtmlCodebook', (id: unknown, options: unknown) => {
+    commitActiveInput();
+    if (!state.treeRoot) {
+      coms.sendTo('main', 'rendererResponse', id, null);
+      return;
+    }
+    const fromDir = path.resolve(__dirname);
+    const html = htmlcodebook.render(state.treeRoot, {
+      title: elementTitle,
+      t: (key, vars) => i18n.t(key, vars, fromDir),
+      lang: i18n.getLocale(),
+      print: Boolean(options && typeof options === 'object' && (options as { print?: boolean }).print),
+    });
+    coms.sendTo('main', 'rendererResponse', id, html);
+  });
 
   // React to Tree Label Mode changes from Settings menu
   coms.on('treeLabelModeChanged', (mode: unknown) => {
@@ -521,6 +894,847 @@ function initTree() {
     }
   });
 
+  // Children the DDIC allows under a node, in schema order; the ones that
+  // reached their maximum occurrences are shown but cannot be picked
+  const openChildPicker = (node: NormNode, nodePath: TreePath) => {
+    const fromDir = path.resolve(__dirname);
+    const elements = state.rawElements as DDICElements;
+    const list = document.createElement('ul');
+    list.className = 'child-picker';
+    list.setAttribute('role', 'listbox');
+
+    let dialog: { close: () => void } | null = null;
+    for (const option of ddic.childOptions(elements, node)) {
+      const item = document.createElement('li');
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'child-picker__item';
+      button.setAttribute('role', 'option');
+      button.disabled = !option.available;
+      const title = document.createElement('span');
+      title.className = 'child-picker__title';
+      title.textContent = elementTitle(option.name);
+      const name = document.createElement('span');
+      name.className = 'child-picker__name';
+      name.textContent = option.name;
+      const count = document.createElement('span');
+      count.className = 'child-picker__count';
+      count.textContent = option.max === Infinity
+        ? i18n.t('page.main.insertchild.repeatable', { count: String(option.count) }, fromDir)
+        : i18n.t('page.main.insertchild.count', { count: String(option.count), max: String(option.max) }, fromDir);
+      button.append(title, name, count);
+      button.addEventListener('click', () => {
+        const order = ddic.childrenOf(elements, ddic.baseName(node.name));
+        const childPath = nodePath.concat([codebook.insertionIndex(node, option.name, order)]);
+        dialog?.close();
+        commit({ type: 'insert', path: childPath, node: createNormElement(option.name) }, childPath);
+      });
+      item.appendChild(button);
+      list.appendChild(item);
+    }
+
+    dialog = modal.open({
+      title: i18n.t('page.main.insertchild.title', { element: elementTitle(node.name) }, fromDir),
+      body: list,
+      buttons: [{ label: i18n.t('modal.close', undefined, fromDir) }],
+    });
+    (list.querySelector('button:not(:disabled)') as HTMLButtonElement | null)?.focus();
+  };
+
+  // Removes a node, the selection goes to a sibling or else to the parent
+  const removeAt = (nodePath: TreePath) => {
+    const resolved = state.treeRoot ? resolveNormPath(state.treeRoot, nodePath) : null;
+    if (!resolved?.parent) return;
+    const { parent, index, node } = resolved;
+    const childCount = (parent.children?.length ?? 0) - 1;
+    const nextPath = childCount === 0
+      ? nodePath.slice(0, -1)
+      : nodePath.slice(0, -1).concat([Math.min(index, childCount - 1)]);
+    commit({ type: 'remove', path: [...nodePath], node }, nextPath);
+  };
+
+  // Subtree clipboard: the selected element with everything it contains, as a
+  // DDI XML fragment and as JSON. The Edit menu and the toolbar both end up in
+  // the copy / cut / paste events of the tree.
+  const selectedTreeItem = (): HTMLElement | null => (
+    container.querySelector(`#tree-${CSS.escape(state.selectedId)}`) as HTMLElement | null
+  );
+
+  const notice = (title: string, message: string) => {
+    modal.open({
+      title,
+      message,
+      buttons: [{ label: i18n.t('modal.ok', undefined, path.resolve(__dirname)), primary: true }],
+    });
+  };
+
+  const copySelected = (data: DataTransfer): boolean => {
+    const node = state.treeRoot ? resolveNormPath(state.treeRoot, state.selectedPath)?.node : undefined;
+    if (!node) return false;
+    const content = treeclipboard.encode(node);
+    data.setData('text/plain', content.xml);
+    data.setData(treeclipboard.jsonType, content.json);
+    return true;
+  };
+
+  const pasteSubtree = (text: string) => {
+    if (!state.treeRoot) return;
+    const fromDir = path.resolve(__dirname);
+    const t = (key: string, vars?: Record<string, string>) => i18n.t(key, vars, fromDir);
+    const title = t('page.main.clipboard.title');
+    const decoded = treeclipboard.decode(text);
+    if ('error' in decoded) {
+      notice(title, t(`page.main.clipboard.${decoded.error}`, { message: decoded.message }));
+      return;
+    }
+    const elements = state.rawElements as DDICElements;
+    if (!elements) {
+      notice(title, t('page.main.problems.noelements'));
+      return;
+    }
+    const placement = treeclipboard.place(state.treeRoot, state.selectedPath, decoded.node, elements);
+    if ('problem' in placement) {
+      const reason = t(`validation.${placement.problem.kind}`, placement.problem.vars);
+      notice(title, t('page.main.clipboard.refused', { reason }));
+      return;
+    }
+    // a copy pasted next to its original would repeat its IDs
+    commit({ type: 'insert', path: placement.path, node: treeclipboard.uniqueIds(state.treeRoot, decoded.node) }, placement.path);
+    selectedTreeItem()?.focus();
+  };
+
+  container.addEventListener('copy', (e: ClipboardEvent) => {
+    if (e.clipboardData && copySelected(e.clipboardData)) e.preventDefault();
+  });
+
+  container.addEventListener('cut', (e: ClipboardEvent) => {
+    // the root stays, it can only be copied
+    if (!e.clipboardData || !state.selectedPath.length) return;
+    if (!copySelected(e.clipboardData)) return;
+    e.preventDefault();
+    removeAt(state.selectedPath);
+    selectedTreeItem()?.focus();
+  });
+
+  container.addEventListener('paste', (e: ClipboardEvent) => {
+    if (!e.clipboardData) return;
+    e.preventDefault();
+    commitActiveInput();
+    pasteSubtree(e.clipboardData.getData(treeclipboard.jsonType) || e.clipboardData.getData('text/plain'));
+  });
+
+  // the toolbar copies through the tree, so that the JSON goes along with the XML
+  const clipboardCommand = (command: 'copy' | 'cut') => {
+    selectedTreeItem()?.focus();
+    document.execCommand(command);
+  };
+
+  // Problems panel: the DDIC checks of the whole tree, or the XML schema problems
+  // sent by main; each entry selects its node. The DDIC checks follow the edits.
+  const problemsPanel = document.getElementById('problemsPanel') as HTMLElement | null;
+  // runs the shown check again after an edit, null for a static snapshot
+  let problemsRefresh: (() => void) | null = null;
+
+  type ProblemEntry = { severity: 'error' | 'warning'; message: string; position?: string; path: TreePath | null };
+
+  const problemEntry = (problem: ProblemEntry): HTMLElement => {
+    const item = document.createElement('li');
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `problem problem--${problem.severity}`;
+    const message = document.createElement('span');
+    message.className = 'problem__message';
+    message.textContent = problem.message;
+    const location = document.createElement('span');
+    location.className = 'problem__location';
+    const resolved = state.treeRoot && problem.path ? resolveNormPath(state.treeRoot, problem.path) : null;
+    const names = (resolved?.namePath ?? []).map((name) => ddic.baseName(name)).join(' / ');
+    location.textContent = [problem.position, names].filter(Boolean).join(' \u00b7 ');
+    button.append(message, location);
+    button.addEventListener('click', () => {
+      if (!state.treeRoot || !problem.path || !resolveNormPath(state.treeRoot, problem.path)) return;
+      remountTree(problem.path);
+      (container.querySelector(`#tree-${CSS.escape(state.selectedId)}`) as HTMLElement | null)?.focus();
+    });
+    item.appendChild(button);
+    return item;
+  };
+
+  // entries is null when the check could not run, emptyText says why
+  const fillProblemsPanel = (title: string, entries: ProblemEntry[] | null, emptyText: string, countText?: string) => {
+    if (!problemsPanel) return;
+    const fromDir = path.resolve(__dirname);
+    problemsPanel.innerHTML = '';
+    problemsPanel.classList.remove('hidden');
+
+    const header = document.createElement('div');
+    header.className = 'problems-panel__header';
+    const heading = document.createElement('h2');
+    heading.className = 'problems-panel__title';
+    heading.id = 'problemsTitle';
+    heading.textContent = title;
+    const count = document.createElement('span');
+    count.className = 'problems-panel__count';
+    if (entries && countText !== undefined) {
+      count.textContent = countText;
+    } else if (entries) {
+      const errors = entries.filter((p) => p.severity === 'error').length;
+      count.textContent = i18n.t('page.main.problems.count', { errors: String(errors), warnings: String(entries.length - errors) }, fromDir);
+    }
+    const close = document.createElement('button');
+    close.type = 'button';
+    close.className = 'problems-panel__close';
+    close.textContent = '\u00d7';
+    close.setAttribute('aria-label', i18n.t('page.main.problems.close', undefined, fromDir));
+    close.addEventListener('click', () => {
+      problemsPanel.classList.add('hidden');
+      problemsPanel.innerHTML = '';
+    });
+    header.append(heading, count, close);
+    problemsPanel.appendChild(header);
+
+    if (!entries || !entries.length) {
+      const empty = document.createElement('p');
+      empty.className = 'problems-panel__empty';
+      empty.textContent = emptyText;
+      problemsPanel.appendChild(empty);
+      return;
+    }
+    const list = document.createElement('ul');
+    list.className = 'problems-panel__list';
+    for (const entry of entries) list.appendChild(problemEntry(entry));
+    problemsPanel.appendChild(list);
+  };
+
+  function showProblems() {
+    if (!state.treeRoot) return;
+    const fromDir = path.resolve(__dirname);
+    const elements = state.rawElements as DDICElements;
+    const title = i18n.t('page.main.problems.title', undefined, fromDir);
+    problemsRefresh = showProblems;
+    if (!elements) {
+      fillProblemsPanel(title, null, i18n.t('page.main.problems.noelements', undefined, fromDir));
+      return;
+    }
+    const entries = validation.check(state.treeRoot, elements).map((problem) => ({
+      severity: problem.severity,
+      message: i18n.t(`validation.${problem.kind}`, problem.vars, fromDir),
+      path: problem.path,
+    }));
+    fillProblemsPanel(title, entries, i18n.t('page.main.problems.none', undefined, fromDir));
+  }
+
+  function refreshProblems() {
+    if (problemsRefresh && problemsPanel && !problemsPanel.classList.contains('hidden')) problemsRefresh();
+  }
+
+  // the XML schema results describe the tree when it was checked, they stay as they are
+  coms.on('schemaProblems', (payload: unknown) => {
+    const { version, problems } = (payload ?? {}) as { version?: string; problems?: XsdProblem[] };
+    if (!version || !Array.isArray(problems)) return;
+    const fromDir = path.resolve(__dirname);
+    const t = (key: string, vars?: Record<string, string>) => i18n.t(key, vars, fromDir);
+    problemsRefresh = null;
+    fillProblemsPanel(
+      t('page.main.problems.schematitle', { version }),
+      problems.map((problem) => ({
+        severity: 'error',
+        message: xsd.message(problem, t),
+        position: t('page.main.problems.position', { line: String(problem.line), column: String(problem.column) }),
+        path: problem.path,
+      })),
+      t('page.main.problems.valid', { version })
+    );
+  });
+
+  coms.on('validateCodebook', () => {
+    commitActiveInput();
+    showProblems();
+  });
+
+  // Multilingual mode: the xml:lang variants of an element are edited side by side
+  const LANGUAGE_CODE = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/;
+
+  coms.on('openMultilingual', () => {
+    if (!state.treeRoot) return;
+    commitActiveInput();
+    const fromDir = path.resolve(__dirname);
+    const t = (key: string, vars?: Record<string, string>) => i18n.t(key, vars, fromDir);
+    const found = translations.languages(state.treeRoot);
+    const choices = [...state.languages, ...found.filter((lang) => !state.languages.includes(lang))];
+
+    const body = document.createElement('div');
+    body.className = 'language-picker';
+    const boxes = choices.map((lang) => {
+      const label = document.createElement('label');
+      label.className = 'language-picker__item';
+      const box = document.createElement('input');
+      box.type = 'checkbox';
+      box.value = lang;
+      box.checked = state.languages.includes(lang);
+      label.append(box, document.createTextNode(lang));
+      body.appendChild(label);
+      return box;
+    });
+    const other = document.createElement('input');
+    other.type = 'text';
+    other.className = 'form-control';
+    other.placeholder = t('page.main.multilingual.other');
+    other.setAttribute('aria-label', other.placeholder);
+    const note = document.createElement('p');
+    note.className = 'language-picker__note';
+    note.setAttribute('role', 'alert');
+    body.append(other, note);
+
+    const apply = (languages: string[]) => {
+      state.languages = languages;
+      renderMetadata();
+    };
+    modal.open({
+      title: t('page.main.multilingual.title'),
+      message: t('page.main.multilingual.message'),
+      body,
+      buttons: [
+        { label: t('modal.cancel') },
+        ...(state.languages.length ? [{ label: t('page.main.multilingual.off'), onClick: () => apply([]) }] : []),
+        {
+          label: t('modal.ok'),
+          primary: true,
+          onClick: () => {
+            const typed = other.value.split(/[\s,]+/).filter(Boolean);
+            const invalid = typed.find((lang) => !LANGUAGE_CODE.test(lang));
+            if (invalid) {
+              note.textContent = t('page.main.multilingual.invalid', { lang: invalid });
+              return false;
+            }
+            const picked = [...new Set([...boxes.filter((box) => box.checked).map((box) => box.value), ...typed])];
+            if (picked.length < 2) {
+              note.textContent = t('page.main.multilingual.fewer');
+              return false;
+            }
+            apply(picked);
+          },
+        },
+      ],
+    });
+  });
+
+  // A new empty variant after the last one of its group, focused once the page is drawn again;
+  // an element the DDI allows once is translated in its parallel element, at its place in the schema order
+  const addTranslation = (parent: NormNode, parentPath: TreePath, group: TranslationGroup, lang: string) => {
+    const elements = state.rawElements as DDICElements;
+    const target = translations.target(group.name, elements);
+    const indices = Object.values(group.variants);
+    const source = parent.children?.[Math.min(...indices)];
+    if (!source || !target) return;
+    const node = translations.variant(source, lang);
+    node.name = target;
+    const at = target === group.name
+      ? Math.max(...indices) + 1
+      : codebook.insertionIndex(parent, target, ddic.childrenOf(elements, ddic.baseName(parent.name)));
+    const scrollTop = metaArea?.scrollTop ?? 0;
+    commit({ type: 'insert', path: parentPath.concat([at]), node }, state.selectedPath);
+    // queued after the metadata render of the remount
+    window.requestAnimationFrame(() => {
+      if (metaArea) metaArea.scrollTop = scrollTop;
+      document.getElementById(`variant-${parentPath.concat([at]).join('-')}`)?.focus();
+    });
+  };
+
+  function showTranslationReport(lang: string) {
+    if (!state.treeRoot) return;
+    const fromDir = path.resolve(__dirname);
+    const t = (key: string, vars?: Record<string, string>) => i18n.t(key, vars, fromDir);
+    problemsRefresh = () => showTranslationReport(lang);
+    const entries = translations.missing(state.treeRoot, lang, state.rawElements as DDICElements).map((missing) => {
+      const vars = { element: missing.element, lang, languages: missing.languages.join(', '), target: missing.target };
+      const key = missing.target === missing.element ? 'page.main.translations.missing' : 'page.main.translations.parallel';
+      return { severity: 'warning' as const, message: t(key, vars), path: missing.path };
+    });
+    fillProblemsPanel(
+      t('page.main.translations.title', { lang }),
+      entries,
+      t('page.main.translations.complete', { lang }),
+      t('page.main.translations.count', { count: String(entries.length) })
+    );
+  }
+
+  coms.on('translationReport', () => {
+    if (!state.treeRoot) return;
+    commitActiveInput();
+    const fromDir = path.resolve(__dirname);
+    const t = (key: string, vars?: Record<string, string>) => i18n.t(key, vars, fromDir);
+    const found = translations.languages(state.treeRoot);
+
+    const body = document.createElement('div');
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'form-control';
+    input.setAttribute('list', 'translationLanguages');
+    input.setAttribute('aria-label', t('page.main.translations.language'));
+    input.value = state.languages[1] ?? found[1] ?? '';
+    const list = document.createElement('datalist');
+    list.id = 'translationLanguages';
+    for (const lang of found) {
+      const option = document.createElement('option');
+      option.value = lang;
+      list.appendChild(option);
+    }
+    const note = document.createElement('p');
+    note.className = 'language-picker__note';
+    note.setAttribute('role', 'alert');
+    body.append(input, list, note);
+
+    modal.open({
+      title: t('page.main.translations.dialog'),
+      message: t('page.main.translations.language'),
+      body,
+      buttons: [
+        { label: t('modal.cancel') },
+        {
+          label: t('page.main.translations.show'),
+          primary: true,
+          onClick: () => {
+            const lang = input.value.trim();
+            if (!LANGUAGE_CODE.test(lang)) {
+              note.textContent = t('page.main.multilingual.invalid', { lang });
+              return false;
+            }
+            showTranslationReport(lang);
+          },
+        },
+      ],
+    });
+  });
+
+  // Find and replace in the values and attributes, with a preview of every change.
+  // The accepted replacements are applied together, as one step of the history.
+  coms.on('findReplace', () => {
+    if (!state.treeRoot) return;
+    commitActiveInput();
+    const root = state.treeRoot;
+    const fromDir = path.resolve(__dirname);
+    const t = (key: string, vars?: Record<string, string>) => i18n.t(key, vars, fromDir);
+
+    const body = document.createElement('div');
+    body.className = 'find-replace';
+    const textField = (key: string): HTMLInputElement => {
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.className = 'form-control';
+      input.placeholder = t(key);
+      input.setAttribute('aria-label', input.placeholder);
+      input.spellcheck = false;
+      return input;
+    };
+    const checkbox = (key: string, parent: HTMLElement): HTMLInputElement => {
+      const label = document.createElement('label');
+      label.className = 'find-replace__option';
+      const box = document.createElement('input');
+      box.type = 'checkbox';
+      label.append(box, document.createTextNode(t(key)));
+      parent.appendChild(label);
+      return box;
+    };
+    const choice = (key: string, entries: [string, string][]): HTMLSelectElement => {
+      const select = document.createElement('select');
+      select.className = 'form-control';
+      select.setAttribute('aria-label', t(key));
+      for (const [value, text] of entries) {
+        const option = document.createElement('option');
+        option.value = value;
+        option.textContent = text;
+        select.appendChild(option);
+      }
+      return select;
+    };
+
+    const findInput = textField('page.main.replace.find');
+    const replaceInput = textField('page.main.replace.with');
+    const flags = document.createElement('div');
+    flags.className = 'find-replace__options';
+    const regexBox = checkbox('page.main.replace.regex', flags);
+    const caseBox = checkbox('page.main.replace.case', flags);
+    const wordBox = checkbox('page.main.replace.word', flags);
+
+    // the selected element and its descendants, or the whole codebook
+    const selected = resolveNormPath(root, state.selectedPath);
+    const scopeSelect = choice('page.main.replace.scope', [
+      ['all', t('page.main.replace.scope.all')],
+      ...(state.selectedPath.length && selected
+        ? [['selection', t('page.main.replace.scope.selection', { element: normalizeName(selected.node.name) })] as [string, string]]
+        : []),
+    ]);
+    const names = new Set<string>();
+    const keys = new Set<string>();
+    codebook.walk(root, (node) => {
+      names.add(normalizeName(node.name || ''));
+      Object.keys(node.attributes ?? {}).forEach((key) => keys.add(key));
+    });
+    const elementInput = textField('page.main.replace.element');
+    elementInput.setAttribute('list', 'replaceElements');
+    const elementList = document.createElement('datalist');
+    elementList.id = 'replaceElements';
+    for (const name of [...names].sort()) {
+      const option = document.createElement('option');
+      option.value = name;
+      elementList.appendChild(option);
+    }
+    const targetSelect = choice('page.main.replace.target', [
+      ['all', t('page.main.replace.target.all')],
+      ['values', t('page.main.replace.target.values')],
+      ['attributes', t('page.main.replace.target.attributes')],
+      ...[...keys].sort().map((key) => [`@${key}`, t('page.main.replace.target.attribute', { attribute: ddixml.attributeName(key) })] as [string, string]),
+    ]);
+    const scopes = document.createElement('div');
+    scopes.className = 'find-replace__scopes';
+    scopes.append(scopeSelect, elementInput, elementList, targetSelect);
+
+    const note = document.createElement('p');
+    note.className = 'find-replace__note';
+    note.setAttribute('role', 'alert');
+    const header = document.createElement('div');
+    header.className = 'find-replace__header';
+    const allBox = checkbox('page.main.replace.all', header);
+    const summary = document.createElement('span');
+    summary.className = 'find-replace__summary';
+    summary.setAttribute('aria-live', 'polite');
+    header.appendChild(summary);
+    const list = document.createElement('ul');
+    list.className = 'find-replace__list';
+    list.setAttribute('aria-label', t('page.main.replace.preview'));
+    body.append(findInput, replaceInput, flags, scopes, note, header, list);
+
+    // where a value is, by element names; a named element (a variable) shows its name
+    const locationOf = (replacement: Replacement): string => {
+      const parts: string[] = [];
+      let node: NormNode | undefined = root;
+      for (const index of replacement.path) {
+        node = node?.children?.[index];
+        if (!node) break;
+        const name = node.attributes?.name;
+        parts.push(normalizeName(node.name) + (name ? `[${ddixml.textOf(name)}]` : ''));
+      }
+      const where = parts.join(' › ') || normalizeName(root.name);
+      return replacement.attribute === undefined ? where : `${where} @${ddixml.attributeName(replacement.attribute)}`;
+    };
+
+    let found: Replacement[] = [];
+    let boxes: HTMLInputElement[] = [];
+    const accepted = () => found.filter((_, i) => boxes[i]?.checked);
+    const showSummary = () => {
+      const picked = accepted().length;
+      summary.textContent = found.length
+        ? t('page.main.replace.count', { selected: String(picked), count: String(found.length) })
+        : (findInput.value ? t('page.main.replace.none') : '');
+      allBox.checked = found.length > 0 && picked === found.length;
+      allBox.indeterminate = picked > 0 && picked < found.length;
+      allBox.disabled = !found.length;
+    };
+
+    const options = (): ReplaceOptions => {
+      const target = targetSelect.value;
+      return {
+        find: findInput.value,
+        replacement: replaceInput.value,
+        regex: regexBox.checked,
+        matchCase: caseBox.checked,
+        wholeWord: wordBox.checked,
+        scope: scopeSelect.value === 'selection' ? [...state.selectedPath] : [],
+        element: elementInput.value.trim() || undefined,
+        target: target.startsWith('@') ? { attribute: target.slice(1) } : target as 'all' | 'values' | 'attributes',
+      };
+    };
+
+    const update = () => {
+      const current = options();
+      const problem = findreplace.check(current);
+      note.textContent = problem ? t('page.main.replace.invalid', { message: problem }) : '';
+      found = problem ? [] : findreplace.find(root, current);
+      list.innerHTML = '';
+      boxes = found.map((replacement) => {
+        const item = document.createElement('li');
+        item.className = 'find-replace__item';
+        const box = document.createElement('input');
+        box.type = 'checkbox';
+        box.checked = true;
+        box.addEventListener('change', showSummary);
+        const text = document.createElement('label');
+        text.className = 'find-replace__change';
+        const where = document.createElement('span');
+        where.className = 'find-replace__where';
+        where.textContent = locationOf(replacement);
+        const before = document.createElement('span');
+        before.className = 'find-replace__before';
+        appendMarked(before, replacement.before, replacement.ranges);
+        const after = document.createElement('span');
+        after.className = 'find-replace__after';
+        after.textContent = replacement.after;
+        text.append(box, where, before, after);
+        box.setAttribute('aria-label', `${where.textContent}: ${replacement.before} → ${replacement.after}`);
+        item.appendChild(text);
+        list.appendChild(item);
+        return box;
+      });
+      showSummary();
+    };
+
+    let timer: number | null = null;
+    const schedule = () => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(() => { timer = null; update(); }, 200);
+    };
+    for (const input of [findInput, replaceInput, elementInput]) input.addEventListener('input', schedule);
+    for (const control of [regexBox, caseBox, wordBox, scopeSelect, targetSelect]) control.addEventListener('change', update);
+    allBox.addEventListener('change', () => {
+      boxes.forEach((box) => { box.checked = allBox.checked; });
+      showSummary();
+    });
+    showSummary();
+
+    // a preview still waiting for its timer is shown first, nothing is replaced unseen
+    const replace = (picked: () => Replacement[]): boolean | void => {
+      if (timer !== null) {
+        window.clearTimeout(timer);
+        timer = null;
+        update();
+        return false;
+      }
+      const chosen = picked();
+      const edit = findreplace.edit(chosen);
+      if (!edit) {
+        note.textContent = t('page.main.replace.nothing');
+        return false;
+      }
+      commit(edit, state.selectedPath);
+      treeStatus.textContent = t('page.main.replace.done', { count: String(chosen.length) });
+    };
+
+    modal.open({
+      title: t('page.main.replace.title'),
+      body,
+      wide: true,
+      buttons: [
+        { label: t('modal.cancel') },
+        { label: t('page.main.replace.replaceall'), onClick: () => replace(() => found) },
+        { label: t('page.main.replace.replace'), primary: true, onClick: () => replace(accepted) },
+      ],
+    });
+  });
+
+  // Text of a field committed to the tree, as one history step
+  const commitValue = (n: NormNode, nPath: TreePath, text: string) => {
+    const after = text.replace(/^\s+/, '').replace(/\s+$/, '');
+    const before = n.value === null || n.value === undefined ? n.value : String(n.value);
+    if (after === (before ?? '')) return;
+    commit({ type: 'value', path: nPath, before, after }, state.selectedPath, false);
+  };
+
+  const commitAttribute = (n: NormNode, nPath: TreePath, key: string, value: string) => {
+    const before = n.attributes?.[key] === undefined ? undefined : String(n.attributes[key]);
+    if (value === before) return;
+    commit({ type: 'attribute', path: nPath, key, before, after: value }, state.selectedPath, false);
+  };
+
+  // Editor of an element text, typed by the DDIC definition of the element
+  const valueField = (n: NormNode, nPath: TreePath, id?: string): HTMLElement => {
+    const rawValue = n.value === null || n.value === undefined ? '' : String(n.value);
+    // Trim leading/trailing whitespace
+    const currentStr = rawValue.replace(/^\s+/, '').replace(/\s+$/, '');
+    const name = normalizeName(String(n.name || ''));
+    const elements = state.rawElements as DDICElements;
+    return fields.create({
+      value: currentStr,
+      type: ddic.valueType(elements, name),
+      values: ddic.values(elements, name),
+      multiline: currentStr.length > 60 || /\r|\n/.test(currentStr),
+      id,
+      onChange: (text) => commitValue(n, nPath, text),
+    });
+  };
+
+  // Attribute grid of a node: the attributes it has, each with a remove button, and
+  // an "Add attribute" list with those the DDIC declares for the element but it lacks.
+  // Adding or removing only redraws the grid, the rest of the page stays as it is.
+  const renderAttributes = (n: NormNode, nPath: TreePath, parentEl: HTMLElement) => {
+    const fromDir = path.resolve(__dirname);
+    const t = (key: string, vars?: Record<string, string>) => i18n.t(key, vars, fromDir);
+    const declared = ddic.attributes(state.rawElements as DDICElements, normalizeName(String(n.name || '')));
+    const declaration = (key: string) => declared.find((a) => ddixml.attributeName(a.name) === ddixml.attributeName(key));
+    const controlId = (key: string) => `attr-${nPath.join('-')}-${ddixml.attributeName(key).replace(/[^A-Za-z0-9_-]/g, '_')}`;
+
+    const block = document.createElement('div');
+    block.className = 'attribute-editor';
+    parentEl.appendChild(block);
+
+    const draw = () => {
+      block.innerHTML = '';
+      const present = Object.entries(n.attributes && typeof n.attributes === 'object' ? n.attributes : {});
+      const presentNames = present.map(([key]) => ddixml.attributeName(key));
+      const missing = declared.filter((a) => !presentNames.includes(ddixml.attributeName(a.name)));
+      if (!present.length && !missing.length) return;
+
+      const attrsTitle = document.createElement('div');
+      attrsTitle.textContent = t('page.main.attributes');
+      attrsTitle.className = 'meta-subtitle';
+      block.appendChild(attrsTitle);
+      const grid = document.createElement('div');
+      grid.className = 'form-grid';
+      block.appendChild(grid);
+
+      for (const [ak, av] of present) {
+        const meta = declaration(ak);
+        const name = ddixml.attributeName(ak);
+        const current = av === null || av === undefined ? '' : String(av);
+
+        const lab = document.createElement('label');
+        lab.textContent = name;
+        lab.className = 'form-label';
+        if (meta?.required) {
+          const mark = document.createElement('span');
+          mark.className = 'attribute-required';
+          mark.textContent = '*';
+          mark.title = t('page.main.attributes.required');
+          lab.appendChild(mark);
+        }
+
+        const control = fields.create({
+          value: current,
+          type: meta?.type,
+          values: meta?.values,
+          id: controlId(ak),
+          required: meta?.required,
+          onChange: (value) => commitAttribute(n, nPath, ak, value),
+        });
+        lab.htmlFor = controlId(ak);
+
+        const remove = document.createElement('button');
+        remove.type = 'button';
+        remove.className = 'attribute-remove';
+        remove.textContent = '×';
+        remove.title = t('page.main.attributes.remove', { attribute: name });
+        remove.setAttribute('aria-label', remove.title);
+        remove.addEventListener('click', () => {
+          const before = n.attributes?.[ak] === undefined ? undefined : String(n.attributes[ak]);
+          commit({ type: 'attribute', path: nPath, key: ak, before, after: undefined }, state.selectedPath, false);
+          draw();
+        });
+
+        const row = document.createElement('div');
+        row.className = 'attribute-row';
+        row.appendChild(control);
+        row.appendChild(remove);
+        grid.appendChild(lab);
+        grid.appendChild(row);
+      }
+
+      if (missing.length) {
+        const lab = document.createElement('label');
+        lab.textContent = t('page.main.attributes.add');
+        lab.className = 'form-label';
+        const select = document.createElement('select');
+        select.className = 'form-control attribute-add';
+        select.id = `attr-add-${nPath.join('-')}`;
+        lab.htmlFor = select.id;
+        const placeholder = document.createElement('option');
+        placeholder.value = '';
+        placeholder.textContent = t('page.main.attributes.choose');
+        select.appendChild(placeholder);
+        for (const meta of missing) {
+          const option = document.createElement('option');
+          option.value = meta.name;
+          const name = ddixml.attributeName(meta.name);
+          option.textContent = meta.required ? `${name} *` : name;
+          select.appendChild(option);
+        }
+        select.addEventListener('change', () => {
+          const meta = missing.find((a) => a.name === select.value);
+          if (!meta) return;
+          const key = ddixml.attributeKey(meta.name);
+          const after = meta.default ?? meta.values[0] ?? '';
+          commit({ type: 'attribute', path: nPath, key, before: undefined, after }, state.selectedPath, false);
+          draw();
+          document.getElementById(controlId(key))?.focus();
+        });
+        grid.appendChild(lab);
+        grid.appendChild(select);
+      }
+
+      const required = missing.filter((a) => a.required);
+      if (required.length) {
+        const note = document.createElement('div');
+        note.className = 'attribute-missing';
+        note.textContent = t('page.main.attributes.missing', {
+          attributes: required.map((a) => ddixml.attributeName(a.name)).join(', '),
+        });
+        block.appendChild(note);
+      }
+    };
+
+    draw();
+  };
+
+  // The variables of a dataDscr, one row per var, edited a column at a time for
+  // one or all the selected rows. The view is kept while the same dataDscr is shown.
+  let variableView: { id: string; view: GridView } | null = null;
+  const VARIABLE_COLUMN_WIDTHS: Record<VariableColumn, number> = {
+    name: 120, label: 260, question: 300, instructions: 220, universe: 200, format: 120, measurement: 130,
+  };
+  const changesStructure = (edit: TreeEdit): boolean => (
+    edit.type === 'group' ? edit.edits.some(changesStructure) : edit.type !== 'value' && edit.type !== 'attribute'
+  );
+
+  const renderVariableGrid = (dataDscrPath: TreePath) => {
+    if (!metaContent) return;
+    const fromDir = path.resolve(__dirname);
+    const id = buildIdFromPath(dataDscrPath);
+    const elements = state.rawElements as DDICElements;
+    // texts in the first language of the multilingual mode, else as found
+    const lang = state.languages[0];
+    const readRows = () => {
+      const resolved = state.treeRoot ? resolveNormPath(state.treeRoot, dataDscrPath) : null;
+      return resolved ? variabletable.rows(resolved.node, dataDscrPath, lang) : [];
+    };
+
+    const grid = variablegrid.create({
+      rows: readRows(),
+      columns: variabletable.columns.map((key) => ({
+        key,
+        label: i18n.t(`page.main.variables.column.${key}`, undefined, fromDir),
+        width: VARIABLE_COLUMN_WIDTHS[key],
+        values: variabletable.choices(key, elements),
+        single: key === 'name',
+      })),
+      view: variableView?.id === id ? variableView.view : undefined,
+      onViewChange: (view) => { variableView = { id, view }; },
+      onEdit: (indexes, column, value) => {
+        if (!state.treeRoot) return;
+        const rows = readRows();
+        const paths = indexes.map((i) => rows[i]?.path).filter((p): p is TreePath => Boolean(p));
+        const problem = column === 'name' ? variabletable.nameProblem(state.treeRoot, paths, value) : null;
+        if (problem) {
+          notice(
+            i18n.t('page.main.variables.grid', undefined, fromDir),
+            i18n.t(`page.main.variables.name.${problem}`, { name: value.trim() }, fromDir)
+          );
+          return;
+        }
+        const edit = variabletable.edit(state.treeRoot, paths, column, value, { lang, elements });
+        if (!edit) return;
+        commit(edit, state.selectedPath, false);
+        // created or removed elements show in the tree, the grid keeps its place
+        if (changesStructure(edit)) mountAriaTree(container, buildTree(), handleTreeSelect, state.selectedId, treeMoveHandlers);
+        grid.update(readRows());
+      },
+      onOpen: (row) => {
+        const target = readRows()[row];
+        if (target) remountTree(target.path);
+      },
+    });
+    grid.element.style.margin = '0 12px 12px 12px';
+    metaContent.appendChild(grid.element);
+  };
+
   function renderMetadataImpl() {
     if (!metaArea || !metaContent || !controlsSlot) return;
     if (!state.treeRoot || !state.selectedId) return;
@@ -532,7 +1746,6 @@ function initTree() {
     if (!resolved) return;
     const { parent, index, node, namePath } = resolved;
     if (!node) return;
-    if (AVOID_DATA_DSCR && isDataDscrName(node.name)) return;
 
     metaContent.innerHTML = '';
     controlsSlot.innerHTML = '';
@@ -546,8 +1759,57 @@ function initTree() {
         return title ? `${n}: ${title}` : n;
       };
 
-      // Helper: display-friendly attribute name mapping
-      const displayAttr = (k: string): string => (k === 'xmlang' ? 'xml:lang' : k);
+      // Language variants shown side by side, only for elements without children that can be translated
+      const leafGroups = (parent: NormNode | null): TranslationGroup[] => {
+        if (!parent || state.languages.length < 2) return [];
+        return translations.groups(parent).filter((group) => (
+          Object.values(group.variants).every((i) => !parent.children?.[i]?.children?.length)
+          && translations.target(group.name, state.rawElements as DDICElements)
+        ));
+      };
+
+      const variantGrid = (parent: NormNode, parentPath: TreePath, group: TranslationGroup): HTMLElement => {
+        const fromDir = path.resolve(__dirname);
+        const extra = Object.keys(group.variants).filter((lang) => !state.languages.includes(lang));
+        const columns = [...state.languages, ...extra];
+        const grid = document.createElement('div');
+        grid.className = 'translation-grid';
+        grid.style.gridTemplateColumns = `repeat(${columns.length}, minmax(0, 1fr))`;
+        for (const lang of columns) {
+          const cell = document.createElement('div');
+          cell.className = 'translation-cell';
+          const head = document.createElement('label');
+          head.className = 'translation-cell__lang';
+          head.textContent = lang;
+          cell.appendChild(head);
+          const index = group.variants[lang];
+          const child = index === undefined ? undefined : parent.children?.[index];
+          if (child) {
+            const childPath = parentPath.concat([index]);
+            head.htmlFor = `variant-${childPath.join('-')}`;
+            cell.appendChild(valueField(child, childPath, head.htmlFor));
+          } else {
+            cell.classList.add('translation-cell--missing');
+            const missing = document.createElement('div');
+            missing.className = 'translation-cell__missing';
+            missing.textContent = i18n.t('page.main.multilingual.missing', undefined, fromDir);
+            const add = document.createElement('button');
+            add.type = 'button';
+            add.textContent = i18n.t('page.main.multilingual.add', { lang }, fromDir);
+            add.addEventListener('click', () => addTranslation(parent, parentPath, group, lang));
+            cell.append(missing, add);
+            const target = translations.target(group.name, state.rawElements as DDICElements);
+            if (target && target !== group.name) {
+              const hint = document.createElement('div');
+              hint.className = 'translation-cell__hint';
+              hint.textContent = i18n.t('page.main.multilingual.parallel', { element: group.name, parallel: target }, fromDir);
+              cell.appendChild(hint);
+            }
+          }
+          grid.appendChild(cell);
+        }
+        return grid;
+      };
 
       // Title
       const title = document.createElement('h1');
@@ -559,14 +1821,24 @@ function initTree() {
       title.style.margin = '12px';
       metaContent.appendChild(title);
 
+      // the variables are edited in their grid, the dataDscr is too large for the form
+      if (isDataDscrName(node.name)) {
+        renderVariableGrid(keyPath);
+        return;
+      }
+
       const controls = document.createElement('div');
       controls.style.margin = '0 12px 12px 12px';
 
       const isLeaf = !node.children || node.children.length === 0;
       const hasValue = node.value !== undefined && node.value !== null;
 
+      const ownGroup = leafGroups(parent).find((group) => Object.values(group.variants).includes(index));
+
       // Leaf value editor
-      if (isLeaf && hasValue) {
+      if (isLeaf && hasValue && parent && ownGroup) {
+        controls.appendChild(variantGrid(parent, keyPath.slice(0, -1), ownGroup));
+      } else if (isLeaf && hasValue) {
         // grid row: label | control
         const grid = document.createElement('div');
         grid.className = 'form-grid';
@@ -576,27 +1848,7 @@ function initTree() {
         label.className = 'form-label';
         grid.appendChild(label);
 
-        const rawValue = node.value === null || node.value === undefined ? '' : String(node.value);
-
-        // Trim leading/trailing whitespace
-        const currentStr = rawValue.replace(/^\s+/, '').replace(/\s+$/, '');
-
-        const needsTextarea = currentStr.length > 60 || /\r|\n/.test(currentStr);
-        const input = document.createElement(needsTextarea ? 'textarea' : 'input');
-        if (input instanceof HTMLTextAreaElement) {
-          input.rows = 7;
-        } else {
-          (input as HTMLInputElement).type = 'text';
-        }
-        (input as HTMLInputElement | HTMLTextAreaElement).className = 'form-control';
-        (input as HTMLInputElement | HTMLTextAreaElement).value = currentStr;
-        const apply = () => {
-          const newVal = (input as HTMLInputElement | HTMLTextAreaElement).value;
-          node.value = newVal.replace(/^\s+/, '').replace(/\s+$/, '');
-        };
-        input.addEventListener('change', apply);
-        input.addEventListener('blur', apply);
-        grid.appendChild(input);
+        grid.appendChild(valueField(node, keyPath));
         controls.appendChild(grid);
       } else if (isLeaf) {
         const info = document.createElement('div');
@@ -607,25 +1859,7 @@ function initTree() {
       }
 
       // Attributes editor for the selected node
-      if (node.attributes && typeof node.attributes === 'object') {
-        const attrsTitle = document.createElement('div');
-        attrsTitle.textContent = 'Attributes';
-        attrsTitle.className = 'meta-subtitle';
-        controls.appendChild(attrsTitle);
-        const table = document.createElement('div');
-        table.className = 'form-grid';
-        for (const [ak, av] of Object.entries(node.attributes)) {
-          const lab = document.createElement('div');
-          lab.textContent = displayAttr(String(ak));
-          lab.className = 'form-label';
-          const inp = document.createElement('input'); (inp as HTMLInputElement).type = 'text';
-          (inp as HTMLInputElement).className = 'form-control';
-          (inp as HTMLInputElement).value = av === null || av === undefined ? '' : String(av);
-          (inp as HTMLInputElement).addEventListener('change', () => { (node.attributes as any)[ak] = (inp as HTMLInputElement).value; });
-          table.appendChild(lab); table.appendChild(inp);
-        }
-        controls.appendChild(table);
-      }
+      renderAttributes(node, keyPath, controls);
 
       const baseName = normalizeName(String(node.name || ''));
       const repeatable = isRepeatable(baseName);
@@ -635,45 +1869,16 @@ function initTree() {
       addBtn.disabled = !repeatable;
       addBtn.addEventListener('click', () => {
         if (!repeatable || !parent) return;
-        parent.children = Array.isArray(parent.children) ? parent.children : [];
-        const insertAt = typeof index === 'number' ? index + 1 : parent.children.length;
-        parent.children.splice(insertAt, 0, createNormElement(baseName));
-        console.log('[Tree] add sibling', {
-          parentName: parent.name,
-          baseName,
-          insertAt,
-          children: parent.children?.map((child, idx) => ({ idx, name: child.name, value: child.value })) ?? [],
-        });
-        const treeData = normToTree(state.treeRoot as NormNode, state.elements, state.mode, 'root', []);
+        const insertAt = typeof index === 'number' ? index + 1 : (parent.children?.length ?? 0);
         const newSelectedPath = keyPath.slice(0, -1).concat([insertAt]);
-        const newSelectedId = buildIdFromPath(newSelectedPath);
-        state.selectedPath = newSelectedPath;
-        state.selectedId = newSelectedId;
-        mountAriaTree(container!, treeData, handleTreeSelect, newSelectedId);
-        renderMetadata();
+        commit({ type: 'insert', path: newSelectedPath, node: createNormElement(baseName) }, newSelectedPath);
       });
       controlsSlot.appendChild(addBtn);
 
       const delBtn = document.createElement('button');
       delBtn.title = 'Delete sibling';
       delBtn.textContent = '−';
-      delBtn.addEventListener('click', () => {
-        if (!parent || typeof index !== 'number') return;
-        parent.children?.splice(index, 1);
-        const treeData = normToTree(state.treeRoot as NormNode, state.elements, state.mode, 'root', []);
-        const childCount = parent.children?.length ?? 0;
-        let nextPath: number[];
-        if (childCount === 0) {
-          nextPath = keyPath.slice(0, -1);
-        } else {
-          const nextIdx = Math.min(index, childCount - 1);
-          nextPath = keyPath.slice(0, -1).concat([nextIdx]);
-        }
-        state.selectedPath = nextPath;
-        state.selectedId = buildIdFromPath(nextPath);
-        mountAriaTree(container!, treeData, handleTreeSelect, state.selectedId);
-        renderMetadata();
-      });
+      delBtn.addEventListener('click', () => removeAt(keyPath));
       controlsSlot.appendChild(delBtn);
 
       const upBtn = document.createElement('button');
@@ -688,20 +1893,45 @@ function initTree() {
       dnBtn.disabled = !repeatable || idxNow === -1 || idxNow >= order.length - 1;
       upBtn.addEventListener('click', () => {
         const order = siblingOrder(parent, baseName); const i = order.indexOf(index);
-        if (i > 0) { const a = order[i - 1], b = order[i]; swapChildren(parent, a, b);
-          const treeData = normToTree(state.treeRoot as NormNode, state.elements, state.mode, 'root', []);
-          const p = keyPath.slice(0, -1).concat([a]); state.selectedPath = p; state.selectedId = buildIdFromPath(p);
-          mountAriaTree(container!, treeData, handleTreeSelect, state.selectedId); renderMetadata(); }
+        if (i > 0) { const a = order[i - 1], b = order[i];
+          commit({ type: 'swap', path: keyPath.slice(0, -1), a, b }, keyPath.slice(0, -1).concat([a])); }
       });
       dnBtn.addEventListener('click', () => {
         const order = siblingOrder(parent, baseName); const i = order.indexOf(index);
-        if (i !== -1 && i < order.length - 1) { const a = order[i], b = order[i + 1]; swapChildren(parent, a, b);
-          const treeData = normToTree(state.treeRoot as NormNode, state.elements, state.mode, 'root', []);
-          const p = keyPath.slice(0, -1).concat([b]); state.selectedPath = p; state.selectedId = buildIdFromPath(p);
-          mountAriaTree(container!, treeData, handleTreeSelect, state.selectedId); renderMetadata(); }
+        if (i !== -1 && i < order.length - 1) { const a = order[i], b = order[i + 1];
+          commit({ type: 'swap', path: keyPath.slice(0, -1), a, b }, keyPath.slice(0, -1).concat([b])); }
       });
       controlsSlot.appendChild(upBtn); controlsSlot.appendChild(dnBtn);
 
+      const childOptions = ddic.childOptions(state.rawElements as DDICElements, node);
+      const childBtn = document.createElement('button');
+      childBtn.className = 'tree-controls__wide';
+      childBtn.title = i18n.t('page.main.insertchild.tooltip', undefined, path.resolve(__dirname));
+      childBtn.textContent = i18n.t('page.main.insertchild', undefined, path.resolve(__dirname));
+      childBtn.disabled = !childOptions.some((option) => option.available);
+      childBtn.addEventListener('click', () => openChildPicker(node, keyPath));
+      controlsSlot.appendChild(childBtn);
+
+      const clipboardButton = (key: string, onClick: () => void, disabled = false) => {
+        const button = document.createElement('button');
+        button.className = 'tree-controls__wide';
+        button.textContent = i18n.t(`page.main.clipboard.${key}`, undefined, path.resolve(__dirname));
+        button.title = i18n.t(`page.main.clipboard.${key}.tooltip`, undefined, path.resolve(__dirname));
+        button.disabled = disabled;
+        button.addEventListener('click', onClick);
+        controlsSlot.appendChild(button);
+      };
+      clipboardButton('copy', () => clipboardCommand('copy'));
+      clipboardButton('cut', () => clipboardCommand('cut'), !parent);
+      clipboardButton('paste', () => {
+        navigator.clipboard.readText()
+          .then((text) => pasteSubtree(text))
+          .catch(() => notice(
+            i18n.t('page.main.clipboard.title', undefined, path.resolve(__dirname)),
+            i18n.t('page.main.clipboard.empty', undefined, path.resolve(__dirname))
+          ));
+      });
+
       metaContent.appendChild(controls);
 
       // If the selected node is a parent, render a readable editor for all descendants
@@ -711,48 +1941,14 @@ function initTree() {
         subtreeContainer.style.margin = '0 12px 24px 12px';
         metaContent.appendChild(subtreeContainer);
 
-        const renderAttributes = (n: NormNode, parentEl: HTMLElement) => {
-          if (!n.attributes || typeof n.attributes !== 'object') return;
-          const attrsTitle = document.createElement('div');
-          attrsTitle.textContent = 'Attributes';
-          attrsTitle.className = 'meta-subtitle';
-          parentEl.appendChild(attrsTitle);
-          const grid = document.createElement('div');
-          grid.className = 'form-grid';
-          for (const [ak, av] of Object.entries(n.attributes)) {
-            const lab = document.createElement('div');
-            lab.textContent = displayAttr(String(ak));
-            lab.className = 'form-label';
-            const inp = document.createElement('input');
-            (inp as HTMLInputElement).type = 'text';
-            (inp as HTMLInputElement).className = 'form-control';
-            (inp as HTMLInputElement).value = av === null || av === undefined ? '' : String(av);
-            (inp as HTMLInputElement).addEventListener('change', () => { (n.attributes as any)[ak] = (inp as HTMLInputElement).value; });
-            grid.appendChild(lab); grid.appendChild(inp);
-          }
-          parentEl.appendChild(grid);
-        };
-
-        const renderValue = (n: NormNode, parentEl: HTMLElement) => {
-          const rawValue = n.value === null || n.value === undefined ? '' : String(n.value);
-          const currentStr = rawValue.replace(/^\s+/, '').replace(/\s+$/, '');
-          const needsTextarea = currentStr.length > 60 || /\r|\n/.test(currentStr);
+        const renderValue = (n: NormNode, nPath: TreePath, parentEl: HTMLElement) => {
           const grid = document.createElement('div'); grid.className = 'form-grid';
           const lab = document.createElement('div'); lab.className = 'form-label'; lab.textContent = 'Value';
-          const input = document.createElement(needsTextarea ? 'textarea' : 'input');
-          if (input instanceof HTMLTextAreaElement) input.rows = 7; else (input as HTMLInputElement).type = 'text';
-          (input as HTMLInputElement | HTMLTextAreaElement).className = 'form-control';
-          (input as HTMLInputElement | HTMLTextAreaElement).value = currentStr;
-          const apply = () => {
-            const newVal = (input as HTMLInputElement | HTMLTextAreaElement).value;
-            n.value = newVal.replace(/^\s+/, '').replace(/\s+$/, '');
-          };
-          input.addEventListener('change', apply); input.addEventListener('blur', apply);
-          grid.appendChild(lab); grid.appendChild(input);
+          grid.appendChild(lab); grid.appendChild(valueField(n, nPath));
           parentEl.appendChild(grid);
         };
 
-        const renderDeep = (n: NormNode, pathNames: string[], level: number) => {
+        const renderDeep = (n: NormNode, nPath: TreePath, pathNames: string[], level: number) => {
           if (AVOID_DATA_DSCR && isDataDscrName(n.name)) return;
           const section = document.createElement('section');
           const hTag = `h${Math.min(level, 6)}` as keyof HTMLElementTagNameMap;
@@ -775,22 +1971,40 @@ function initTree() {
           subtreeContainer.appendChild(section);
 
           // If this node has a value, show it
-          if (typeof n.value !== 'undefined' && n.value !== null) renderValue(n, section);
+          if (typeof n.value !== 'undefined' && n.value !== null) renderValue(n, nPath, section);
           // Show attributes (if any)
-          renderAttributes(n, section);
+          renderAttributes(n, nPath, section);
 
           // Recurse into children (pre-order traversal)
-          if (n.children && n.children.length) {
-            for (const child of n.children) {
-              renderDeep(child, pathNames.concat([child.name]), level + 1);
-            }
-          }
+          if (n.children && n.children.length) renderChildren(n, nPath, pathNames, level + 1);
         };
 
-        for (const child of node.children) {
-          if (AVOID_DATA_DSCR && isDataDscrName(child.name)) continue;
-          renderDeep(child, [child.name], 2);
+        // One section for all the language variants of an element
+        const renderVariants = (parent: NormNode, parentPath: TreePath, group: TranslationGroup, pathNames: string[], level: number) => {
+          const section = document.createElement('section');
+          const heading = document.createElement(`h${Math.min(level, 6)}` as keyof HTMLElementTagNameMap);
+          heading.textContent = FULL_PATH_RENDERING
+            ? pathNames.map(makeLabel).join(' / ')
+            : makeLabel(pathNames[pathNames.length - 1]);
+          heading.style.margin = '18px 0 8px 0';
+          section.append(heading, variantGrid(parent, parentPath, group));
+          subtreeContainer.appendChild(section);
+        };
+
+        function renderChildren(n: NormNode, nPath: TreePath, pathNames: string[], level: number) {
+          const groups = leafGroups(n);
+          (n.children ?? []).forEach((child, idx) => {
+            if (AVOID_DATA_DSCR && isDataDscrName(child.name)) return;
+            const group = groups.find((g) => Object.values(g.variants).includes(idx));
+            if (!group) {
+              renderDeep(child, nPath.concat([idx]), pathNames.concat([child.name]), level);
+            } else if (idx === Math.min(...Object.values(group.variants))) {
+              renderVariants(n, nPath, group, pathNames.concat([child.name]), level);
+            }
+          });
         }
+
+        renderChildren(node, keyPath, [], 2);
         const bottomSpacer = document.createElement('div');
         bottomSpacer.className = 'metadata-end-spacer';
         metaContent.appendChild(bottomSpacer);
@@ -827,36 +2041,40 @@ function initTree() {
 
   // Legacy key-path resolver removed; normalized model uses resolveNormPath
 
-  function isRepeatable(base: string, _ignore?: Record<string, unknown>): boolean {
-    const e = state.rawElements ? (state.rawElements[base] || state.rawElements[base + ''] || undefined) : undefined;
-    if (!e) return false;
-    // Heuristics: consider common fields that denote multiplicity
-    const v = (e.repeatable ?? e.isRepeatable ?? e.multiple ?? e.cardinality ?? e.occurs ?? e.maxOccurs) as any;
-    if (typeof v === 'boolean') return v;
-    if (typeof v === 'number') return v !== 1 && v !== 0;
-    if (typeof v === 'string') {
-      const s = v.toLowerCase();
-      if (s === 'true' || s === 'multiple' || s === 'many' || s === 'unbounded') return true;
-      const n = parseInt(s, 10); if (!Number.isNaN(n)) return n !== 1 && n !== 0;
-    }
-    return false;
+  function isRepeatable(base: string): boolean {
+    return ddic.repeatable(state.rawElements as DDICElements, base);
   }
 
-  // Legacy sibling helpers removed; normalized model uses siblingOrder/swapChildren + createNormElement
+  // Legacy sibling helpers removed; normalized model uses siblingOrder + createNormElement, edits go through treehistory
 
-  // Legacy sibling helpers removed; normalized model uses siblingOrder/swapChildren
+  // Legacy sibling helpers removed; normalized model uses siblingOrder and treehistory
+}
+
+// Text with the given ranges wrapped in <mark>
+function appendMarked(parent: HTMLElement, text: string, ranges: TextRange[]) {
+  let at = 0;
+  for (const range of ranges) {
+    if (range.start > at) parent.appendChild(document.createTextNode(text.slice(at, range.start)));
+    const mark = document.createElement('mark');
+    mark.textContent = text.slice(range.start, range.end);
+    parent.appendChild(mark);
+    at = range.end;
+  }
+  if (at < text.length) parent.appendChild(document.createTextNode(text.slice(at)));
 }
 
 // Preserve expand/selection state across remounts
 const treeUiState = new WeakMap<HTMLElement, { expanded: Set<string>; focusedId: string | null; selectedId: string | null }>();
 
-function mountAriaTree(container: HTMLElement, data: TreeNode, onSelect?: (id: string, path: number[]) => void, initialSelectedId?: string) {
+function mountAriaTree(container: HTMLElement, data: TreeNode, onSelect?: (id: string, path: number[]) => void, initialSelectedId?: string, moves?: TreeMoveHandlers) {
   container.innerHTML = '';
   const prev = treeUiState.get(container);
   const expanded = prev?.expanded ? new Set(prev.expanded) : new Set<string>([data.id]);
   let focusedId: string | null = initialSelectedId ?? prev?.focusedId ?? data.id;
   let selectedId: string | null = initialSelectedId ?? prev?.selectedId ?? null;
   let firstRender = true;
+  // node being dragged, drops elsewhere (files, text) are not tree moves
+  let dragging: TreeNode | null = null;
 
   const root = document.createElement('ul');
   root.className = 'tree';
@@ -899,9 +2117,16 @@ function mountAriaTree(container: HTMLElement, data: TreeNode, onSelect?: (id: s
     disclosure.className = 'tree__disclosure' + (hasChildren ? '' : ' is-leaf');
     const label = document.createElement('span');
     label.className = 'tree__label';
-    label.textContent = node.label;
+    appendMarked(label, node.label, node.marks ?? []);
     row.appendChild(disclosure);
     row.appendChild(label);
+    if (node.marks) li.classList.add('is-match');
+    if (node.excerpt) {
+      const excerpt = document.createElement('span');
+      excerpt.className = 'tree__excerpt';
+      appendMarked(excerpt, node.excerpt.text, node.excerpt.ranges);
+      row.appendChild(excerpt);
+    }
     li.appendChild(row);
 
     // Mouse interactions
@@ -920,8 +2145,79 @@ function mountAriaTree(container: HTMLElement, data: TreeNode, onSelect?: (id: s
       try { onSelect && onSelect(node.id, node.pathIdx); } catch { /* noop */ }
     });
 
+    // Drag and drop: the top and bottom quarters of a row drop next to it, the middle inside
+    if (moves && node.pathIdx.length) {
+      li.setAttribute('aria-keyshortcuts', 'Alt+ArrowUp Alt+ArrowDown Alt+ArrowLeft Alt+ArrowRight');
+      row.draggable = true;
+      row.addEventListener('dragstart', (e) => {
+        dragging = node;
+        if (e.dataTransfer) {
+          e.dataTransfer.setData(TREE_DRAG_TYPE, node.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }
+        li.classList.add('is-dragging');
+      });
+      row.addEventListener('dragend', () => {
+        dragging = null;
+        li.classList.remove('is-dragging');
+        clearDropMarks();
+      });
+    }
+    if (moves) {
+      const dropPosition = (e: DragEvent): DropPosition | null => {
+        if (!dragging) return null;
+        const from = dragging.pathIdx;
+        const box = row.getBoundingClientRect();
+        const ratio = box.height ? (e.clientY - box.top) / box.height : 0.5;
+        const zone: DropPosition = !node.pathIdx.length || (ratio >= 0.25 && ratio <= 0.75)
+          ? 'inside'
+          : (ratio < 0.25 ? 'before' : 'after');
+        if (moves.allowed(from, node.pathIdx, zone)) return zone;
+        // a node that takes no such child still has a place next to it
+        if (zone === 'inside' && node.pathIdx.length) {
+          const nextTo: DropPosition = ratio < 0.5 ? 'before' : 'after';
+          if (moves.allowed(from, node.pathIdx, nextTo)) return nextTo;
+        }
+        return null;
+      };
+      row.addEventListener('dragover', (e) => {
+        const position = dropPosition(e);
+        clearDropMarks();
+        if (!position) return;
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+        row.classList.add(`is-drop-${position}`);
+      });
+      row.addEventListener('dragleave', () => row.classList.remove('is-drop-before', 'is-drop-after', 'is-drop-inside'));
+      row.addEventListener('drop', (e) => {
+        const position = dropPosition(e);
+        const from = dragging?.pathIdx;
+        clearDropMarks();
+        if (!position || !from) return;
+        e.preventDefault();
+        e.stopPropagation();
+        dragging = null;
+        moves.move(from, node.pathIdx, position);
+      });
+    }
+
     // Keyboard interactions
     li.addEventListener('keydown', (e) => {
+      // Alt + arrows move the node: up / down among its siblings, left out of its
+      // parent, right into the sibling above it
+      if (moves && e.altKey && e.key.startsWith('Arrow') && node.pathIdx.length) {
+        e.preventDefault();
+        e.stopPropagation();
+        const parentNode = findNode(parentOf(node.id));
+        const siblings = parentNode?.children ?? [];
+        const at = siblings.findIndex((n) => n.id === node.id);
+        if (e.key === 'ArrowUp' && at > 0) moves.move(node.pathIdx, siblings[at - 1].pathIdx, 'before');
+        else if (e.key === 'ArrowDown' && at < siblings.length - 1) moves.move(node.pathIdx, siblings[at + 1].pathIdx, 'after');
+        else if (e.key === 'ArrowLeft' && parentNode && parentNode.pathIdx.length) moves.move(node.pathIdx, parentNode.pathIdx, 'after');
+        else if (e.key === 'ArrowRight' && at > 0) moves.move(node.pathIdx, siblings[at - 1].pathIdx, 'inside');
+        return;
+      }
       const visible = visibleNodes();
       const idx = visible.findIndex(n => n.id === node.id);
       if (e.key === 'ArrowDown') {
@@ -982,6 +2278,25 @@ function mountAriaTree(container: HTMLElement, data: TreeNode, onSelect?: (id: s
     if (expanded.has(id)) expanded.delete(id); else expanded.add(id);
   };
 
+  const findNode = (id: string | null): TreeNode | null => {
+    if (!id) return null;
+    const walk = (n: TreeNode): TreeNode | null => {
+      if (n.id === id) return n;
+      for (const child of n.children ?? []) {
+        const found = walk(child);
+        if (found) return found;
+      }
+      return null;
+    };
+    return walk(data);
+  };
+
+  const clearDropMarks = () => {
+    container.querySelectorAll('.is-drop-before, .is-drop-after, .is-drop-inside').forEach((el) => {
+      el.classList.remove('is-drop-before', 'is-drop-after', 'is-drop-inside');
+    });
+  };
+
   const visibleNodes = (): TreeNode[] => {
     const out: TreeNode[] = [];
     const walk = (n: TreeNode) => {
@@ -1,3 +1,5 @@
 declare module "pako" {
+  export function gzip(data: Uint8Array | ArrayBuffer | Buffer | string): Uint8Array;
   export function ungzip(data: Uint8Array | ArrayBuffer | Buffer): Uint8Array;
+  export function ungzip(data: Uint8Array | ArrayBuffer | Buffer, options: { to: 'string' }): string;
 }